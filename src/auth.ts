@@ -1,6 +1,6 @@
 import { Account } from 'viem';
 import type { FetchFn } from './rpc';
-import { normalizeBaseUrl, requestJson } from './http';
+import { normalizeBaseUrl, requestJson, resolveRetryPolicy, type RetryPolicy } from './http';
 import {
   AuthApiError,
   AuthConfigError,
@@ -29,6 +29,20 @@ export type SiweTemplate = {
   issuedAt: string;
 };
 
+/** Snapshot of an {@link AuthSession}'s cached tokens. */
+export type AuthSessionState = {
+  /** Whether the session holds tokens. */
+  authenticated: boolean;
+  /** Access token expiry as Unix seconds. */
+  expiresAt?: number;
+  /** Seconds until the access token expires (negative once expired). */
+  expiresInSecs?: number;
+  /** Seconds before expiry at which the session refreshes. */
+  refreshMarginSecs: number;
+  /** Whether the next call will refresh or log in rather than reuse the cached token. */
+  expiringSoon: boolean;
+};
+
 export type AuthNonceResponse = {
   nonce: string;
   siwe: SiweTemplate;
@@ -94,8 +108,13 @@ export function buildSiweMessage(input: {
 export class AuthClient {
   private baseUrl: string;
   private fetchFn: FetchFn;
+  private retryPolicy: Required<RetryPolicy>;
 
-  constructor(endpoint: string, fetchFn: FetchFn = fetch) {
+  /**
+   * @param retryPolicy - Timeout and retry settings. Only nonce requests and logout are retried;
+   *   verify and refresh consume single-use values.
+   */
+  constructor(endpoint: string, fetchFn: FetchFn = fetch, retryPolicy?: RetryPolicy) {
     try {
       const validated = validateUrl(endpoint);
       this.baseUrl = normalizeBaseUrl(validated);
@@ -106,10 +125,18 @@ export class AuthClient {
       throw err;
     }
     this.fetchFn = fetchFn;
+    try {
+      this.retryPolicy = resolveRetryPolicy(retryPolicy);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        throw new AuthConfigError(err.message);
+      }
+      throw err;
+    }
   }
 
   async getNonce(address: string): Promise<AuthNonceResponse> {
-    const payload = await this.post('/auth/nonce', { address });
+    const payload = await this.post('/auth/nonce', { address }, true);
     return parseNonceResponse(payload);
   }
 
@@ -130,18 +157,26 @@ export class AuthClient {
   }
 
   async logout(refreshToken: string): Promise<void> {
-    await this.post('/auth/logout', { refresh_token: refreshToken });
+    await this.post('/auth/logout', { refresh_token: refreshToken }, true);
   }
 
-  private async post(path: string, body: Record<string, unknown>): Promise<unknown> {
-    return this.request(path, {
-      method: 'POST',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(body),
-    });
+  private async post(
+    path: string,
+    body: Record<string, unknown>,
+    idempotent = false
+  ): Promise<unknown> {
+    return this.request(
+      path,
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      idempotent
+    );
   }
 
-  private async request(path: string, init: RequestInit): Promise<unknown> {
+  private async request(path: string, init: RequestInit, idempotent: boolean): Promise<unknown> {
     try {
       return await requestJson<unknown>(this.fetchFn, `${this.baseUrl}${path}`, init, {
         decodeError: (message) => new AuthDecodeError(message),
@@ -151,6 +186,8 @@ export class AuthClient {
             body,
           }),
         allowEmptyOk: true,
+        retry: this.retryPolicy,
+        idempotent,
       });
     } catch (err) {
       if (err instanceof AuthError) {
@@ -174,11 +211,12 @@ export class AuthSession {
     signer: Account;
     refreshMarginSecs?: number;
     fetchFn?: FetchFn;
+    retryPolicy?: RetryPolicy;
   }) {
     if (!options.authUrl) {
       throw new AuthMissingConfigError('missing auth_url');
     }
-    this.authClient = new AuthClient(options.authUrl, options.fetchFn);
+    this.authClient = new AuthClient(options.authUrl, options.fetchFn, options.retryPolicy);
     this.signer = options.signer;
 
     const margin = options.refreshMarginSecs ?? 60;
@@ -203,6 +241,18 @@ export class AuthSession {
     }
   }
 
+  /** Describe the cached tokens without contacting the auth server. */
+  state(): AuthSessionState {
+    const now = Date.now() / 1000;
+    return {
+      authenticated: this.tokens !== undefined,
+      expiresAt: this.tokens?.expiresAt,
+      expiresInSecs: this.tokens ? this.tokens.expiresAt - now : undefined,
+      refreshMarginSecs: this.refreshMarginSecs,
+      expiringSoon: this.isExpiringSoon(),
+    };
+  }
+
   async login(): Promise<AuthTokens> {
     if (this.loginPromise) {
       return this.loginPromise;
@@ -215,6 +265,24 @@ export class AuthSession {
     }
   }
 
+  /**
+   * Discard a cached access token that the server rejected, so the next {@link accessToken}
+   * refreshes (or logs in again if the refresh token was revoked too).
+   *
+   * Pass the rejected token: if it is no longer the cached one, another caller already replaced it
+   * and nothing happens. N concurrent calls that failed with the same token thus cause a single
+   * refresh.
+   */
+  invalidate(accessToken?: string): void {
+    if (!this.tokens) {
+      return;
+    }
+    if (accessToken !== undefined && accessToken !== this.tokens.accessToken) {
+      return;
+    }
+    this.tokens = { ...this.tokens, expiresAt: 0 };
+  }
+
   async logout(): Promise<void> {
     if (!this.tokens?.refreshToken) {
       return;
@@ -1,5 +1,6 @@
 import type { Chain } from 'viem';
 import { mainnet, sepolia, base, baseSepolia, polygon, polygonAmoy } from 'viem/chains';
+import { resolveNetwork } from './networks';
 
 const CHAINS: Record<number, Chain> = {
   1: mainnet,
@@ -10,9 +11,19 @@ const CHAINS: Record<number, Chain> = {
   80002: polygonAmoy,
 };
 
+/**
+ * Chain definition for `chainId`: the one given to {@link registerNetwork} if any, else a
+ * well-known viem chain, else a synthetic `local-<id>` chain. The explorer URL of a registered
+ * network is added when the chain does not define one.
+ */
 export function getChain(chainId: number, rpcUrl: string): Chain {
-  const chain = CHAINS[chainId];
-  if (chain) return chain;
+  const network = resolveNetwork(`eip155:${chainId}`);
+  const chain = network?.chain ?? CHAINS[chainId];
+  const explorerUrl = network?.explorerUrl;
+  if (chain) {
+    if (!explorerUrl || chain.blockExplorers) return chain;
+    return { ...chain, blockExplorers: { default: { name: 'Explorer', url: explorerUrl } } };
+  }
 
   return {
     id: chainId,
@@ -22,5 +33,19 @@ export function getChain(chainId: number, rpcUrl: string): Chain {
       default: { http: [rpcUrl] },
       public: { http: [rpcUrl] },
     },
+    ...(explorerUrl ? { blockExplorers: { default: { name: 'Explorer', url: explorerUrl } } } : {}),
   };
 }
+
+/**
+ * Block explorer link for a transaction, or `undefined` if the chain has no explorer.
+ *
+ * @example
+ * ```ts
+ * explorerTxUrl(getChain(84532, rpcUrl), '0xabc...'); // "https://sepolia.basescan.org/tx/0xabc..."
+ * ```
+ */
+export function explorerTxUrl(chain: Chain | undefined, hash: string): string | undefined {
+  const base = chain?.blockExplorers?.default.url;
+  return base ? `${base.replace(/\/+$/, '')}/tx/${hash}` : undefined;
+}
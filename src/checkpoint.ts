@@ -0,0 +1,106 @@
+import { readFile, rename, rm, writeFile } from 'node:fs/promises';
+import type { Hex } from 'viem';
+import { CheckpointError } from './errors';
+
+/** A processed block, identified by number and hash. */
+export interface BlockRef {
+  blockNumber: bigint;
+  blockHash: Hex;
+}
+
+/** Progress of an {@link EventIndexer}: every block up to and including `blockNumber` is handled. */
+export interface Checkpoint extends BlockRef {
+  /** Earlier checkpoints, newest first, used to find the fork point after a reorg. */
+  previous: BlockRef[];
+}
+
+/** Where an {@link EventIndexer} keeps its {@link Checkpoint} between restarts. */
+export interface CheckpointStore {
+  /** The last saved checkpoint, or `undefined` before the first save. */
+  load(): Promise<Checkpoint | undefined>;
+  save(checkpoint: Checkpoint): Promise<void>;
+  /** Forget the checkpoint, e.g. after a reorg orphaned every recorded block. */
+  clear(): Promise<void>;
+}
+
+/** Keeps the checkpoint in memory; progress is lost when the process exits. */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private checkpoint?: Checkpoint;
+
+  async load(): Promise<Checkpoint | undefined> {
+    return this.checkpoint;
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    this.checkpoint = checkpoint;
+  }
+
+  async clear(): Promise<void> {
+    this.checkpoint = undefined;
+  }
+}
+
+/**
+ * Keeps the checkpoint in a JSON file, with block numbers as decimal strings. Saves write a
+ * temporary file next to `path` and rename it over the old one, so a crash never leaves a
+ * half-written checkpoint.
+ */
+export class JsonFileCheckpointStore implements CheckpointStore {
+  constructor(readonly path: string) {}
+
+  /** @throws {@link CheckpointError} if the file cannot be read or is malformed. */
+  async load(): Promise<Checkpoint | undefined> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw new CheckpointError(`cannot read checkpoint file ${this.path}: ${String(err)}`);
+    }
+    try {
+      const raw = JSON.parse(text) as Record<string, unknown>;
+      const previous = raw.previous;
+      if (!Array.isArray(previous)) throw new Error('missing "previous" array');
+      return { ...parseBlockRef(raw), previous: previous.map(parseBlockRef) };
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      throw new CheckpointError(`invalid checkpoint file ${this.path}: ${detail}`);
+    }
+  }
+
+  /** @throws {@link CheckpointError} if the file cannot be written. */
+  async save(checkpoint: Checkpoint): Promise<void> {
+    const json = JSON.stringify(
+      checkpoint,
+      (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2
+    );
+    const tmp = `${this.path}.tmp`;
+    try {
+      await writeFile(tmp, json + '\n', 'utf8');
+      await rename(tmp, this.path);
+    } catch (err) {
+      throw new CheckpointError(`cannot write checkpoint file ${this.path}: ${String(err)}`);
+    }
+  }
+
+  /** Delete the file. @throws {@link CheckpointError} if it exists but cannot be deleted. */
+  async clear(): Promise<void> {
+    try {
+      await rm(this.path, { force: true });
+    } catch (err) {
+      throw new CheckpointError(`cannot delete checkpoint file ${this.path}: ${String(err)}`);
+    }
+  }
+}
+
+function parseBlockRef(raw: unknown): BlockRef {
+  const { blockNumber, blockHash } = (raw ?? {}) as Record<string, unknown>;
+  if (typeof blockNumber !== 'string' || !/^\d+$/.test(blockNumber)) {
+    throw new Error(`invalid blockNumber: ${String(blockNumber)}`);
+  }
+  if (typeof blockHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(blockHash)) {
+    throw new Error(`invalid blockHash: ${String(blockHash)}`);
+  }
+  return { blockNumber: BigInt(blockNumber), blockHash: blockHash as Hex };
+}
@@ -0,0 +1,288 @@
+import { formatUnits } from 'viem';
+import type { AuthSession, AuthSessionState } from '../auth';
+import type { ContractGateway } from '../contract';
+import type { CorePublicParameters } from '../models';
+import type { RpcProxy } from '../rpc';
+import type { ClientRole } from './index';
+
+/** Outcome of one diagnostic check. `skipped` checks did not apply to this client. */
+export type DiagnosticStatus = 'ok' | 'warn' | 'error' | 'skipped';
+
+/** Result common to every check in a {@link DiagnosticsReport}. */
+export interface DiagnosticCheck {
+  status: DiagnosticStatus;
+  /** Wall-clock duration of the check in milliseconds. */
+  latencyMs?: number;
+  /** Failure or warning detail. */
+  message?: string;
+}
+
+/** Core service reachability. */
+export interface CoreDiagnostics extends DiagnosticCheck {
+  /** Chain ID reported by core right now. */
+  chainId?: number;
+}
+
+/** SIWE session state of one role. */
+export interface AuthDiagnostics extends DiagnosticCheck {
+  role: 'user' | 'recipient';
+  /** Token state; absent when SIWE auth is disabled. */
+  session?: AuthSessionState;
+}
+
+/** Agreement between the chain ID the client was built for, core and the Ethereum RPC. */
+export interface ChainDiagnostics extends DiagnosticCheck {
+  /** Chain ID the client was initialised with. */
+  expected: number;
+  /** Chain ID currently reported by core. */
+  core?: number;
+  /** Chain ID reported by the Ethereum RPC. */
+  rpc?: number;
+}
+
+/** Core4Mica contract presence. */
+export interface ContractDiagnostics extends DiagnosticCheck {
+  address: string;
+  codePresent?: boolean;
+}
+
+/** On-chain configuration of one guarantee version. */
+export interface GuaranteeVersionDiagnostics extends DiagnosticCheck {
+  version: number;
+  enabled?: boolean;
+  domainSeparator?: string;
+}
+
+/** On-chain account state of one signer. */
+export interface SignerDiagnostics extends DiagnosticCheck {
+  role: 'user' | 'recipient';
+  address: string;
+  /** Next nonce, counting pending transactions. */
+  nonce?: number;
+  /** Native balance in wei. */
+  balance?: bigint;
+  /** Native balance formatted with the chain's currency, e.g. `0.5 ETH`. */
+  balanceFormatted?: string;
+}
+
+/** Structured health report produced by {@link Client.diagnose}. */
+export interface DiagnosticsReport {
+  /** `false` if any check has status `error`. */
+  ok: boolean;
+  /** ISO-8601 time the report was started. */
+  checkedAt: string;
+  core: CoreDiagnostics;
+  auth: AuthDiagnostics[];
+  chain: ChainDiagnostics;
+  contract: ContractDiagnostics;
+  guaranteeVersions: GuaranteeVersionDiagnostics[];
+  signers: SignerDiagnostics[];
+}
+
+/** Options for {@link Client.diagnose}. */
+export interface DiagnoseOptions {
+  /** Per-check timeout in milliseconds. Defaults to 10 000. */
+  timeoutMs?: number;
+  /**
+   * Obtain an access token for each SIWE session (logging in or refreshing as needed) so that
+   * auth server failures surface in the report. Defaults to `false`: only cached state is reported.
+   */
+  authenticate?: boolean;
+}
+
+/** Inputs gathered by {@link Client.diagnose}. */
+export interface DiagnosticsTarget {
+  rpc: RpcProxy;
+  params: CorePublicParameters;
+  gateway: ContractGateway;
+  roles: { role: 'user' | 'recipient'; handles: ClientRole; authSession?: AuthSession }[];
+}
+
+const GUARANTEE_VERSIONS = [1, 2];
+
+type Timed<T> = { value?: T; error?: string; latencyMs: number };
+
+async function timed<T>(fn: () => Promise<T>, timeoutMs: number): Promise<Timed<T>> {
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    const value = await Promise.race([fn(), timeout]);
+    return { value, latencyMs: elapsed(started) };
+  } catch (err) {
+    return {
+      error: err instanceof Error ? err.message : String(err),
+      latencyMs: elapsed(started),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function elapsed(started: number): number {
+  return Math.round(performance.now() - started);
+}
+
+/** Run every check concurrently. Never throws; failures are recorded per check. */
+export async function runDiagnostics(
+  target: DiagnosticsTarget,
+  options: DiagnoseOptions = {}
+): Promise<DiagnosticsReport> {
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const checkedAt = new Date().toISOString();
+  const { gateway, params } = target;
+
+  const [coreParams, rpcChainId, code, versions, signers, auth] = await Promise.all([
+    timed(() => target.rpc.getPublicParams(), timeoutMs),
+    timed(() => gateway.getChainId(), timeoutMs),
+    timed(() => gateway.getContractCode(), timeoutMs),
+    Promise.all(
+      GUARANTEE_VERSIONS.map((version) =>
+        timed(() => gateway.getGuaranteeVersionConfig(version), timeoutMs)
+      )
+    ),
+    Promise.all(target.roles.map((role) => checkSigner(role, timeoutMs))),
+    Promise.all(target.roles.map((role) => checkAuth(role, options, timeoutMs))),
+  ]);
+
+  const core: CoreDiagnostics = coreParams.error
+    ? { status: 'error', latencyMs: coreParams.latencyMs, message: coreParams.error }
+    : { status: 'ok', latencyMs: coreParams.latencyMs, chainId: coreParams.value?.chainId };
+
+  const chain: ChainDiagnostics = {
+    status: 'ok',
+    expected: params.chainId,
+    core: core.chainId,
+    rpc: rpcChainId.value,
+    latencyMs: rpcChainId.latencyMs,
+  };
+  if (rpcChainId.error) {
+    chain.status = 'error';
+    chain.message = `Ethereum RPC: ${rpcChainId.error}`;
+  } else if (
+    chain.rpc !== chain.expected ||
+    (chain.core !== undefined && chain.core !== chain.expected)
+  ) {
+    chain.status = 'error';
+    chain.message = `chain ID mismatch: client ${chain.expected}, core ${chain.core ?? 'unknown'}, Ethereum RPC ${chain.rpc}`;
+  }
+
+  const contract: ContractDiagnostics = {
+    status: 'ok',
+    address: gateway.contract.address,
+    latencyMs: code.latencyMs,
+  };
+  if (code.error) {
+    contract.status = 'error';
+    contract.message = code.error;
+  } else {
+    contract.codePresent = Boolean(code.value && code.value !== '0x');
+    if (!contract.codePresent) {
+      contract.status = 'error';
+      contract.message = `no contract code deployed at ${contract.address}`;
+    }
+  }
+
+  const guaranteeVersions = versions.map((result, i): GuaranteeVersionDiagnostics => {
+    const version = GUARANTEE_VERSIONS[i]!;
+    if (result.error) {
+      return { status: 'error', version, latencyMs: result.latencyMs, message: result.error };
+    }
+    return {
+      status: result.value?.enabled ? 'ok' : 'warn',
+      version,
+      latencyMs: result.latencyMs,
+      enabled: result.value?.enabled,
+      domainSeparator: result.value?.domainSeparator,
+      message: result.value?.enabled ? undefined : `guarantee version ${version} is disabled`,
+    };
+  });
+
+  const checks: DiagnosticCheck[] = [
+    core,
+    chain,
+    contract,
+    ...guaranteeVersions,
+    ...signers,
+    ...auth,
+  ];
+  return {
+    ok: checks.every((check) => check.status !== 'error'),
+    checkedAt,
+    core,
+    auth,
+    chain,
+    contract,
+    guaranteeVersions,
+    signers,
+  };
+}
+
+async function checkSigner(
+  { role, handles }: DiagnosticsTarget['roles'][number],
+  timeoutMs: number
+): Promise<SignerDiagnostics> {
+  const address = handles.signer.signer.address;
+  const result = await timed(
+    () =>
+      Promise.all([handles.gateway.getNonce(address), handles.gateway.getNativeBalance(address)]),
+    timeoutMs
+  );
+  if (result.error || !result.value) {
+    return { status: 'error', role, address, latencyMs: result.latencyMs, message: result.error };
+  }
+  const [nonce, balance] = result.value;
+  const currency = handles.gateway.chain?.nativeCurrency;
+  return {
+    status: balance > 0n ? 'ok' : 'warn',
+    role,
+    address,
+    latencyMs: result.latencyMs,
+    nonce,
+    balance,
+    balanceFormatted: currency
+      ? `${formatUnits(balance, currency.decimals)} ${currency.symbol}`
+      : undefined,
+    message: balance > 0n ? undefined : 'signer has no native balance to pay gas',
+  };
+}
+
+async function checkAuth(
+  { role, authSession }: DiagnosticsTarget['roles'][number],
+  options: DiagnoseOptions,
+  timeoutMs: number
+): Promise<AuthDiagnostics> {
+  if (!authSession) {
+    return { status: 'skipped', role, message: 'SIWE auth is not enabled' };
+  }
+  let latencyMs: number | undefined;
+  if (options.authenticate) {
+    const result = await timed(() => authSession.accessToken(), timeoutMs);
+    latencyMs = result.latencyMs;
+    if (result.error) {
+      return {
+        status: 'error',
+        role,
+        latencyMs,
+        session: authSession.state(),
+        message: result.error,
+      };
+    }
+  }
+  const session = authSession.state();
+  if (!session.authenticated) {
+    return {
+      status: 'ok',
+      role,
+      latencyMs,
+      session,
+      message: 'not logged in yet; logs in on the first authenticated call',
+    };
+  }
+  if (session.expiringSoon) {
+    return { status: 'warn', role, latencyMs, session, message: 'access token is expiring' };
+  }
+  return { status: 'ok', role, latencyMs, session };
+}
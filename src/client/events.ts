@@ -0,0 +1,308 @@
+import type { Hex } from 'viem';
+import type { ContractGateway } from '../contract';
+import {
+  Core4MicaEvent,
+  decodeCore4MicaLog,
+  EventFilter,
+  matchesEventFilter,
+  ResolvedEventFilter,
+  resolveEventFilter,
+} from '../events';
+import { ClientClosedError } from '../errors';
+import { ValidationError } from '../utils';
+import { EventIndexer, EventIndexerOptions } from './indexer';
+
+const DEFAULT_MAX_BLOCK_RANGE = 5_000n;
+
+/** Block range of {@link EventsClient.getLogs}. */
+export interface GetEventLogsOptions {
+  fromBlock: bigint;
+  /** Last block to include. Defaults to the latest block. */
+  toBlock?: bigint;
+  /** Largest block span per `eth_getLogs` request. Defaults to 5 000. */
+  maxBlockRange?: bigint;
+}
+
+/** Polling behaviour of {@link EventsClient.watch}. */
+export interface WatchEventsOptions {
+  /** First block to deliver events from. Defaults to the block after the current head. */
+  fromBlock?: bigint;
+  /** Milliseconds between polls. Defaults to 4 000. */
+  pollingInterval?: number;
+  /** Blocks an event must be buried under before it is delivered. Defaults to 0. */
+  confirmations?: number;
+  /**
+   * Blocks re-checked for reorgs on every poll. Events older than this are considered final and
+   * are never reported as removed. Defaults to 64.
+   */
+  reorgDepth?: number;
+  /** Largest block span per `eth_getLogs` request. Defaults to 5 000. */
+  maxBlockRange?: bigint;
+  /** Called when a poll fails; the watcher keeps polling. */
+  onError?: (error: unknown) => void;
+  /**
+   * Called when the watcher is stopped by {@link EventsClient.unwatchAll} or {@link Client.aclose},
+   * not by its own unwatch.
+   */
+  onClose?: () => void;
+}
+
+/** Stops a watcher started with {@link EventsClient.watch}. Idempotent. */
+export type Unwatch = () => void;
+
+/**
+ * Typed access to Core4Mica contract events, read straight from the Ethereum RPC.
+ *
+ * @example
+ * ```ts
+ * const unwatch = client.events.watch({ types: ['TabPaid'], recipient }, (event) => {
+ *   if (event.type === 'TabPaid' && !event.removed) console.log(event.tabId, event.amount);
+ * });
+ * ```
+ */
+export class EventsClient {
+  private watchers = new Set<Unwatch>();
+  private isClosed = false;
+
+  constructor(private gateway: ContractGateway) {}
+
+  /**
+   * Events matching `filter` in a block range, oldest first.
+   *
+   * @throws {@link ValidationError} for an invalid filter or range.
+   * @throws {@link ContractError} if the RPC rejects the query.
+   */
+  async getLogs(filter: EventFilter, options: GetEventLogsOptions): Promise<Core4MicaEvent[]> {
+    const resolved = resolveEventFilter(filter);
+    const maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    if (maxBlockRange < 1n) {
+      throw new ValidationError('maxBlockRange must be positive');
+    }
+    const toBlock = options.toBlock ?? (await this.gateway.getBlockNumber());
+    if (options.fromBlock > toBlock) {
+      throw new ValidationError('fromBlock must not be after toBlock');
+    }
+    return fetchEvents(this.gateway, resolved, options.fromBlock, toBlock, maxBlockRange);
+  }
+
+  /**
+   * Poll for new events matching `filter` and pass each one to `handler` in chain order.
+   *
+   * Each poll re-checks the last `reorgDepth` blocks. When a reorg replaced a block, events
+   * already delivered from it are passed to `handler` again with `removed: true`, and events of
+   * the replacement block are delivered as new. The watcher stops when the returned function is
+   * called or the client is closed.
+   *
+   * @throws {@link ValidationError} for an invalid filter or options.
+   * @throws {@link ClientClosedError} if the client is closed.
+   */
+  watch(
+    filter: EventFilter,
+    handler: (event: Core4MicaEvent) => void,
+    options: WatchEventsOptions = {}
+  ): Unwatch {
+    this.assertOpen('watch');
+    const poller = new EventPoller(this.gateway, resolveEventFilter(filter), handler, options);
+    const close = () => {
+      unwatch();
+      options.onClose?.();
+    };
+    const unwatch = () => {
+      poller.stop();
+      this.watchers.delete(close);
+    };
+    this.watchers.add(close);
+    poller.start();
+    return unwatch;
+  }
+
+  /**
+   * Create an {@link EventIndexer} reading through this client's gateway. It is stopped together
+   * with the watchers by {@link unwatchAll}.
+   *
+   * @throws {@link ValidationError} for invalid options.
+   * @throws {@link ClientClosedError} if the client is closed.
+   */
+  createIndexer(options: EventIndexerOptions): EventIndexer {
+    this.assertOpen('createIndexer');
+    const indexer = new EventIndexer(this.gateway, options);
+    const stop = () => {
+      indexer.stop();
+      this.watchers.delete(stop);
+    };
+    this.watchers.add(stop);
+    return indexer;
+  }
+
+  /** Stop every watcher and indexer started by this client, calling each watcher's `onClose`. */
+  unwatchAll(): void {
+    for (const unwatch of [...this.watchers]) unwatch();
+  }
+
+  /**
+   * {@link unwatchAll}, then reject later {@link watch} and {@link createIndexer} calls with
+   * {@link ClientClosedError}. Called by {@link Client.aclose}.
+   */
+  close(): void {
+    this.isClosed = true;
+    this.unwatchAll();
+  }
+
+  /** Whether {@link close} has been called. */
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  private assertOpen(operation: string): void {
+    if (this.isClosed) {
+      throw new ClientClosedError(`${operation} rejected: client is closed`);
+    }
+  }
+}
+
+async function fetchEvents(
+  gateway: ContractGateway,
+  filter: ResolvedEventFilter,
+  fromBlock: bigint,
+  toBlock: bigint,
+  maxBlockRange: bigint
+): Promise<Core4MicaEvent[]> {
+  const events: Core4MicaEvent[] = [];
+  for (let start = fromBlock; start <= toBlock; start += maxBlockRange) {
+    const end = start + maxBlockRange - 1n < toBlock ? start + maxBlockRange - 1n : toBlock;
+    const logs = await gateway.getEventLogs(filter.types, start, end);
+    for (const log of logs) {
+      const event = decodeCore4MicaLog(log);
+      if (matchesEventFilter(event, filter)) events.push(event);
+    }
+  }
+  return events;
+}
+
+/** Polling loop behind {@link EventsClient.watch}. */
+class EventPoller {
+  private readonly pollingInterval: number;
+  private readonly confirmations: bigint;
+  private readonly reorgDepth: bigint;
+  private readonly maxBlockRange: bigint;
+  private cursor?: bigint;
+  /** First block the watcher covers; rescans never go below it. */
+  private floor?: bigint;
+  /** Last block scanned and its hash, to detect reorgs. */
+  private head?: { number: bigint; hash: Hex };
+  /** Delivered events still within `reorgDepth`, keyed by block hash and log index. */
+  private delivered = new Map<string, Core4MicaEvent>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private stopped = false;
+
+  constructor(
+    private readonly gateway: ContractGateway,
+    private readonly filter: ResolvedEventFilter,
+    private readonly handler: (event: Core4MicaEvent) => void,
+    private readonly options: WatchEventsOptions
+  ) {
+    this.pollingInterval = options.pollingInterval ?? 4_000;
+    const confirmations = options.confirmations ?? 0;
+    const reorgDepth = options.reorgDepth ?? 64;
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+      throw new ValidationError('confirmations must be a non-negative integer');
+    }
+    if (!Number.isInteger(reorgDepth) || reorgDepth < 1) {
+      throw new ValidationError('reorgDepth must be a positive integer');
+    }
+    if (!(this.pollingInterval > 0)) {
+      throw new ValidationError('pollingInterval must be positive');
+    }
+    this.confirmations = BigInt(confirmations);
+    this.reorgDepth = BigInt(reorgDepth);
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    if (this.maxBlockRange < 1n) {
+      throw new ValidationError('maxBlockRange must be positive');
+    }
+    this.cursor = this.floor = options.fromBlock;
+  }
+
+  start(): void {
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((error) => this.options.onError?.(error))
+        .finally(() => this.schedule(this.pollingInterval));
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    const target = (await this.gateway.getBlockNumber()) - this.confirmations;
+    if (this.cursor === undefined) {
+      this.cursor = this.floor = target + 1n;
+      this.head = { number: target, hash: await this.gateway.getBlockHash(target) };
+      return;
+    }
+    const head = this.head;
+    // The chain is shorter than what was scanned; wait for it to catch up before comparing.
+    if (head && head.number > target) return;
+    if (head && (await this.gateway.getBlockHash(head.number)) !== head.hash) {
+      await this.rewind(head.number);
+    }
+    if (this.cursor > target) return;
+
+    const events = await fetchEvents(
+      this.gateway,
+      this.filter,
+      this.cursor,
+      target,
+      this.maxBlockRange
+    );
+    const hash = await this.gateway.getBlockHash(target);
+    for (const event of events) {
+      const key = `${event.blockHash}:${event.logIndex}`;
+      if (this.delivered.has(key)) continue;
+      this.delivered.set(key, event);
+      this.emit(event);
+    }
+    this.head = { number: target, hash };
+    this.cursor = target + 1n;
+    for (const [key, event] of this.delivered) {
+      if (event.blockNumber <= target - this.reorgDepth) this.delivered.delete(key);
+    }
+  }
+
+  /** Report delivered events from replaced blocks as removed and rescan the reorg window. */
+  private async rewind(headNumber: bigint): Promise<void> {
+    const hashes = new Map<bigint, Hex>();
+    for (const [key, event] of [...this.delivered].reverse()) {
+      let hash = hashes.get(event.blockNumber);
+      if (hash === undefined) {
+        hash = await this.gateway.getBlockHash(event.blockNumber);
+        hashes.set(event.blockNumber, hash);
+      }
+      if (hash !== event.blockHash) {
+        this.delivered.delete(key);
+        this.emit({ ...event, removed: true });
+      }
+    }
+    const windowStart = headNumber - this.reorgDepth + 1n;
+    const floor = this.floor ?? 0n;
+    this.cursor = windowStart > floor ? windowStart : floor;
+    this.head = undefined;
+  }
+
+  private emit(event: Core4MicaEvent): void {
+    if (this.stopped) return;
+    try {
+      this.handler(event);
+    } catch (error) {
+      this.options.onError?.(error);
+    }
+  }
+}
@@ -1,14 +1,72 @@
+import { Account, keccak256 } from 'viem';
 import { AuthSession } from '../auth';
 import type { AuthTokens } from '../auth';
 import { Config } from '../config';
 import { ContractGateway } from '../contract';
-import { AuthMissingConfigError } from '../errors';
+import { AuthMissingConfigError, ClientInitializationError } from '../errors';
 import { RpcProxy } from '../rpc';
 import { CorePublicParameters } from '../models';
 import { PaymentSigner } from '../signing';
+import { DiagnoseOptions, DiagnosticsReport, runDiagnostics } from './diagnostics';
+import { EventsClient } from './events';
 import { RecipientClient } from './recipient';
 import { UserClient } from './user';
 
+/**
+ * JSON-serializable copy of the parameters a {@link Client} fetches at startup.
+ * Produced by {@link Client.snapshot} and consumed by {@link Client.fromSnapshot}.
+ */
+export interface ClientSnapshot {
+  /** Core public parameters in wire format (see {@link CorePublicParameters.toRpc}). */
+  params: Record<string, unknown>;
+  /** 32-byte V1 guarantee domain separator read from the contract. */
+  guaranteeDomain: string;
+}
+
+/** Differences between a client's snapshot and the live core/contract state. */
+export interface SnapshotDrift {
+  /** Names of the snapshot fields that changed (e.g. `chain_id`, `guaranteeDomain`). */
+  fields: string[];
+  /** Snapshot the client was built from. */
+  previous: ClientSnapshot;
+  /** Snapshot built from the live core and contract state. */
+  current: ClientSnapshot;
+}
+
+/** Background refresh settings for {@link Client.fromSnapshot}. */
+export interface SnapshotRefreshOptions {
+  /** Interval between background drift checks in milliseconds. Disabled when omitted. */
+  refreshIntervalMs?: number;
+  /** Called when a refresh detects that the live state no longer matches the snapshot. */
+  onDrift?: (drift: SnapshotDrift) => void;
+  /** Called when a background refresh fails (e.g. core is unreachable). */
+  onRefreshError?: (err: unknown) => void;
+}
+
+/** Shutdown behaviour for {@link Client.aclose}. */
+export interface CloseOptions {
+  /**
+   * How long to wait for in-flight transactions and their receipts before abandoning them, in
+   * milliseconds. Defaults to 30 000.
+   */
+  drainTimeoutMs?: number;
+  /** Revoke the SIWE refresh token of each logged-in session. Defaults to `true`. */
+  logout?: boolean;
+}
+
+/**
+ * Signing, RPC and on-chain handles used by one side (payer or recipient) of a {@link Client}.
+ * Each role authenticates and sends transactions as its own account.
+ */
+export interface ClientRole {
+  /** Payment signing wrapper around the role's viem Account. */
+  readonly signer: PaymentSigner;
+  /** RPC proxy authenticated as the role's account. */
+  readonly rpc: RpcProxy;
+  /** Gateway sending transactions from the role's account, with its own queue. */
+  readonly gateway: ContractGateway;
+}
+
 /**
  * Top-level SDK client. Holds a live connection to the 4Mica core RPC and the
  * on-chain Core4Mica contract. Obtain an instance via {@link Client.new}.
@@ -25,12 +83,12 @@ import { UserClient } from './user';
  * }
  * ```
  */
-export class Client {
-  /** Low-level RPC proxy to the 4Mica core service. */
+export class Client implements ClientRole {
+  /** Low-level RPC proxy to the 4Mica core service, authenticated as the payer. */
   readonly rpc: RpcProxy;
   /** Chain and contract parameters fetched from the core service at startup. */
   readonly params: CorePublicParameters;
-  /** viem-backed gateway for on-chain calls (deposit, remunerate, …). */
+  /** viem-backed gateway for the payer's on-chain calls (deposit, pay, withdraw, …). */
   readonly gateway: ContractGateway;
   /** 32-byte domain separator used to verify V1 BLS guarantee certificates. */
   readonly guaranteeDomain: string;
@@ -38,9 +96,20 @@ export class Client {
   readonly user: UserClient;
   /** Recipient-side operations: tabs, guarantees, remuneration. */
   readonly recipient: RecipientClient;
+  /** Typed Core4Mica contract events: historical queries and live watchers. */
+  readonly events: EventsClient;
   /** Payment signing wrapper around the configured viem Account. */
   readonly signer: PaymentSigner;
+  /**
+   * Handles used by {@link recipient}. The client itself unless `cfg.recipientSigner` is set,
+   * in which case the recipient has its own RPC proxy, auth session and gateway.
+   */
+  readonly recipientRole: ClientRole;
+  /** Whether the client was built with {@link ConfigBuilder.watchOnly} and cannot write. */
+  readonly readOnly: boolean;
   private authSession?: AuthSession;
+  private recipientAuthSession?: AuthSession;
+  private refreshTimer?: ReturnType<typeof setInterval>;
 
   private constructor(
     rpc: RpcProxy,
@@ -48,7 +117,9 @@ export class Client {
     gateway: ContractGateway,
     guaranteeDomain: string,
     signer: PaymentSigner,
-    authSession?: AuthSession
+    authSession?: AuthSession,
+    recipient?: ClientRole & { authSession?: AuthSession },
+    readOnly = false
   ) {
     this.rpc = rpc;
     this.params = params;
@@ -56,8 +127,14 @@ export class Client {
     this.guaranteeDomain = guaranteeDomain;
     this.signer = signer;
     this.authSession = authSession;
+    this.recipientRole = recipient
+      ? { signer: recipient.signer, rpc: recipient.rpc, gateway: recipient.gateway }
+      : this;
+    this.recipientAuthSession = recipient?.authSession;
+    this.readOnly = readOnly;
     this.user = new UserClient(this);
-    this.recipient = new RecipientClient(this);
+    this.recipient = new RecipientClient(this, this.recipientRole);
+    this.events = new EventsClient(gateway);
   }
 
   /**
@@ -65,58 +142,332 @@ export class Client {
    *
    * Fetches public parameters from the core service, validates that the
    * Ethereum RPC is on the expected chain, and sets up SIWE auth if configured.
+   * When `cfg.contractVerification` is set, the Core4Mica deployment is verified
+   * before the client is returned.
    *
    * @param cfg - Validated configuration produced by {@link ConfigBuilder.build}.
    * @throws {@link ConfigError} if the configuration is invalid.
    * @throws {@link RpcError} if the core service is unreachable.
    * @throws {@link ContractError} if the Ethereum RPC returns the wrong chain ID.
+   * @throws {@link ClientInitializationError} if contract verification fails.
    */
   static async new(cfg: Config): Promise<Client> {
-    const rpc = new RpcProxy(cfg.rpcUrl, cfg.adminApiKey);
+    const rpc = Client.createRpc(cfg);
     const params = await rpc.getPublicParams();
-    const gateway = await Client.buildGateway(cfg, params);
+    const gateway = await Client.buildGateway(cfg, params, cfg.signer);
+    if (cfg.contractVerification) {
+      await Client.verifyContract(gateway, params, cfg);
+    }
+    const recipientGateway =
+      cfg.recipientSigner && (await Client.buildGateway(cfg, params, cfg.recipientSigner));
 
     const guaranteeDomain = await gateway.getGuaranteeDomain();
+    return Client.assemble(cfg, rpc, params, gateway, guaranteeDomain, recipientGateway);
+  }
+
+  /**
+   * Create a Client from a previously captured {@link ClientSnapshot} without contacting core.
+   *
+   * The Ethereum RPC chain ID check is skipped as well, so construction performs no network
+   * round trips unless `cfg.contractVerification` is set. Pass `options.refreshIntervalMs` to
+   * periodically compare the snapshot against the live core and contract state and report
+   * changes through `options.onDrift`; the refresh stops when the client is closed.
+   *
+   * @param cfg - Validated configuration produced by {@link ConfigBuilder.build}.
+   * @param snapshot - Snapshot produced by {@link Client.snapshot}, e.g. parsed from JSON.
+   * @param options - Optional background refresh settings.
+   * @throws {@link ClientInitializationError} if the snapshot is malformed or contract
+   *   verification fails.
+   */
+  static async fromSnapshot(
+    cfg: Config,
+    snapshot: ClientSnapshot,
+    options: SnapshotRefreshOptions = {}
+  ): Promise<Client> {
+    if (!snapshot?.params || typeof snapshot.guaranteeDomain !== 'string') {
+      throw new ClientInitializationError('invalid client snapshot');
+    }
+    const params = CorePublicParameters.fromRpc(snapshot.params);
+    if (!Number.isFinite(params.chainId)) {
+      throw new ClientInitializationError('invalid client snapshot: missing chain_id');
+    }
+
+    const rpc = Client.createRpc(cfg);
+    const gateway = await Client.buildGateway(cfg, params, cfg.signer, {
+      skipChainIdCheck: true,
+    });
+    if (cfg.contractVerification) {
+      await Client.verifyContract(gateway, params, cfg);
+    }
+    const recipientGateway =
+      cfg.recipientSigner &&
+      (await Client.buildGateway(cfg, params, cfg.recipientSigner, { skipChainIdCheck: true }));
+    const client = Client.assemble(
+      cfg,
+      rpc,
+      params,
+      gateway,
+      snapshot.guaranteeDomain,
+      recipientGateway
+    );
+    if (options.refreshIntervalMs !== undefined) {
+      client.startSnapshotRefresh(options.refreshIntervalMs, options);
+    }
+    return client;
+  }
+
+  private static assemble(
+    cfg: Config,
+    rpc: RpcProxy,
+    params: CorePublicParameters,
+    gateway: ContractGateway,
+    guaranteeDomain: string,
+    recipientGateway?: ContractGateway
+  ): Client {
     const signer = new PaymentSigner(cfg.signer);
+    const authSession = Client.authenticate(cfg, rpc, cfg.signer);
+
+    let recipient: (ClientRole & { authSession?: AuthSession }) | undefined;
+    if (cfg.recipientSigner && recipientGateway) {
+      const recipientRpc = Client.createRpc(cfg);
+      recipient = {
+        signer: new PaymentSigner(cfg.recipientSigner),
+        rpc: recipientRpc,
+        gateway: recipientGateway,
+        authSession: Client.authenticate(cfg, recipientRpc, cfg.recipientSigner),
+      };
+    }
+    return new Client(
+      rpc,
+      params,
+      gateway,
+      guaranteeDomain,
+      signer,
+      authSession,
+      recipient,
+      cfg.readOnly
+    );
+  }
+
+  private static createRpc(cfg: Config): RpcProxy {
+    const rpc = new RpcProxy(cfg.rpcUrl, cfg.adminApiKey);
+    return cfg.retryPolicy ? rpc.withRetryPolicy(cfg.retryPolicy) : rpc;
+  }
 
+  /** Attach the configured auth to `rpc`, creating a SIWE session for `signer` if enabled. */
+  private static authenticate(
+    cfg: Config,
+    rpc: RpcProxy,
+    signer: Account
+  ): AuthSession | undefined {
     const authEnabled = cfg.authUrl !== undefined || cfg.authRefreshMarginSecs !== undefined;
     const authSession =
       cfg.bearerToken || !authEnabled
         ? undefined
         : new AuthSession({
             authUrl: cfg.authUrl ?? cfg.rpcUrl,
-            signer: cfg.signer,
+            signer,
             refreshMarginSecs: cfg.authRefreshMarginSecs ?? 60,
+            retryPolicy: cfg.retryPolicy,
           });
 
     if (cfg.bearerToken) {
       rpc.withBearerToken(cfg.bearerToken);
     } else if (authSession) {
-      rpc.withTokenProvider(() => authSession.accessToken());
+      rpc.withTokenProvider(
+        () => authSession.accessToken(),
+        (token) => authSession.invalidate(token)
+      );
     }
-    return new Client(rpc, params, gateway, guaranteeDomain, signer, authSession);
+    return authSession;
   }
 
   private static async buildGateway(
     cfg: Config,
-    params: CorePublicParameters
+    params: CorePublicParameters,
+    signer: Account,
+    options?: { skipChainIdCheck?: boolean }
   ): Promise<ContractGateway> {
     const ethRpcUrl = cfg.ethereumHttpRpcUrl ?? params.ethereumHttpRpcUrl;
     const contractAddress = cfg.contractAddress ?? params.contractAddress;
     return ContractGateway.create(
       ethRpcUrl,
-      cfg.signer,
+      signer,
       contractAddress as `0x${string}`,
-      params.chainId
+      params.chainId,
+      {
+        ...options,
+        simulateWrites: cfg.simulateWrites,
+        gasPolicy: cfg.gasPolicy,
+        onTransactionEvent: cfg.onTransactionEvent,
+        nonceMode: cfg.nonceMode,
+        maxInFlight: cfg.maxInFlight,
+      }
     );
   }
 
+  private static async verifyContract(
+    gateway: ContractGateway,
+    params: CorePublicParameters,
+    cfg: Config
+  ): Promise<void> {
+    const expected = cfg.contractVerification ?? {};
+    const address = gateway.contract.address;
+    // Without a pinned or configured address the contract would be the one core reports, and
+    // checking core's address against core's domain separator proves nothing.
+    const expectedAddress = expected.expectedAddress ?? cfg.contractAddress;
+    if (!expectedAddress) {
+      throw new ClientInitializationError(
+        'contract verification needs an expected address: none is pinned for this network; ' +
+          'pass verifyContract({ expectedAddress }) or set 4MICA_EXPECTED_CONTRACT_ADDRESS'
+      );
+    }
+    if (address.toLowerCase() !== expectedAddress.toLowerCase()) {
+      throw new ClientInitializationError(
+        `contract address mismatch: using ${address}, expected ${expectedAddress}`
+      );
+    }
+
+    const code = await gateway.getContractCode();
+    if (!code || code === '0x') {
+      throw new ClientInitializationError(`no contract code deployed at ${address}`);
+    }
+    if (expected.expectedCodeHash) {
+      const codeHash = keccak256(code);
+      if (codeHash.toLowerCase() !== expected.expectedCodeHash.toLowerCase()) {
+        throw new ClientInitializationError(
+          `contract code hash mismatch at ${address}: got ${codeHash}, expected ${expected.expectedCodeHash}`
+        );
+      }
+    }
+
+    const reported = params.activeGuaranteeDomainSeparator;
+    if (!reported) {
+      throw new ClientInitializationError(
+        'core did not report an active guarantee domain separator'
+      );
+    }
+    const onChain = await gateway.getGuaranteeDomain();
+    if (onChain.toLowerCase() !== reported.toLowerCase()) {
+      throw new ClientInitializationError(
+        `guarantee domain separator mismatch: contract has ${onChain}, core reported ${reported}`
+      );
+    }
+  }
+
+  /**
+   * Capture the parameters fetched at startup as a JSON-serializable snapshot.
+   * Persist it (e.g. at deploy time) and pass it to {@link Client.fromSnapshot} later.
+   */
+  snapshot(): ClientSnapshot {
+    return { params: this.params.toRpc(), guaranteeDomain: this.guaranteeDomain };
+  }
+
   /**
-   * Release client resources. Safe to call multiple times.
+   * Compare this client's snapshot against the live core parameters and on-chain
+   * guarantee domain.
+   *
+   * @returns The detected drift, or `null` if the live state matches.
+   * @throws {@link RpcError} if the core service is unreachable.
+   */
+  async checkSnapshotDrift(): Promise<SnapshotDrift | null> {
+    const previous = this.snapshot();
+    const [params, guaranteeDomain] = await Promise.all([
+      this.rpc.getPublicParams(),
+      this.gateway.getGuaranteeDomain(),
+    ]);
+    const current: ClientSnapshot = { params: params.toRpc(), guaranteeDomain };
+
+    // Keys from both sides, so a field core stopped reporting counts as drift too.
+    const keys = new Set([...Object.keys(previous.params), ...Object.keys(current.params)]);
+    const fields = [...keys].filter(
+      (key) => JSON.stringify(current.params[key]) !== JSON.stringify(previous.params[key])
+    );
+    if (current.guaranteeDomain.toLowerCase() !== previous.guaranteeDomain.toLowerCase()) {
+      fields.push('guaranteeDomain');
+    }
+    return fields.length ? { fields, previous, current } : null;
+  }
+
+  private startSnapshotRefresh(intervalMs: number, options: SnapshotRefreshOptions): void {
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      throw new ClientInitializationError('snapshot refresh interval must be positive');
+    }
+    this.refreshTimer = setInterval(() => {
+      this.checkSnapshotDrift().then(
+        (drift) => {
+          if (drift) options.onDrift?.(drift);
+        },
+        (err) => options.onRefreshError?.(err)
+      );
+    }, intervalMs);
+    // Do not keep the process alive just for drift checks.
+    this.refreshTimer.unref?.();
+  }
+
+  /**
+   * Check every dependency of the client and return a structured report. Never throws.
+   *
+   * Covers core reachability and latency, SIWE token state, chain ID agreement between the
+   * client, core and the Ethereum RPC, contract code presence, whether guarantee versions 1 and 2
+   * are enabled on-chain, and each signer's pending nonce and native balance.
+   *
+   * @example
+   * ```ts
+   * const report = await client.diagnose();
+   * if (!report.ok) console.error(JSON.stringify(report, (_k, v) => (typeof v === 'bigint' ? v.toString() : v), 2));
+   * ```
+   */
+  async diagnose(options: DiagnoseOptions = {}): Promise<DiagnosticsReport> {
+    const roles: Parameters<typeof runDiagnostics>[0]['roles'] = [
+      { role: 'user', handles: this, authSession: this.authSession },
+    ];
+    if (this.recipientRole !== this) {
+      roles.push({
+        role: 'recipient',
+        handles: this.recipientRole,
+        authSession: this.recipientAuthSession,
+      });
+    }
+    return runDiagnostics(
+      { rpc: this.rpc, params: this.params, gateway: this.gateway, roles },
+      options
+    );
+  }
+
+  /**
+   * Shut the client down. Safe to call multiple times.
    * Use in a `finally` block to ensure cleanup after use.
+   *
+   * Event watchers stop and new transactions are rejected with {@link ClientClosedError}
+   * immediately; queued transactions and their receipts are awaited for up to `drainTimeoutMs`.
+   * Refresh tokens are then revoked (failures are ignored) and outstanding core requests are
+   * aborted.
+   *
+   * @returns `true` if every in-flight transaction settled before the drain timeout.
    */
-  async aclose(): Promise<void> {
+  async aclose(options: CloseOptions = {}): Promise<boolean> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    this.events.close();
+    const drainTimeoutMs = options.drainTimeoutMs ?? 30_000;
+    const gateways = new Set([this.gateway, this.recipientRole.gateway]);
+    const drained = await Promise.all(
+      [...gateways].map((gateway) => gateway.drain(drainTimeoutMs))
+    );
+
+    if (options.logout ?? true) {
+      const sessions = new Set([this.authSession, this.recipientAuthSession]);
+      await Promise.allSettled([...sessions].map((session) => session?.logout()));
+    }
+
     await this.rpc.aclose();
+    if (this.recipientRole !== this) {
+      await this.recipientRole.rpc.aclose();
+    }
+    return drained.every(Boolean);
   }
 
   /**
@@ -125,15 +476,27 @@ export class Client {
    * Not required for normal operation — the first authenticated RPC call
    * triggers auth automatically. Call this to pre-warm the session.
    *
+   * @param role - Session to log in when a separate recipient signer is configured.
+   *   Defaults to the payer (`'user'`); without a recipient signer both roles share it.
    * @throws {@link AuthMissingConfigError} if auth was not enabled in the config.
    */
-  async login(): Promise<AuthTokens> {
-    if (!this.authSession) {
+  async login(role: 'user' | 'recipient' = 'user'): Promise<AuthTokens> {
+    const session =
+      role === 'recipient' && this.recipientRole !== this
+        ? this.recipientAuthSession
+        : this.authSession;
+    if (!session) {
       throw new AuthMissingConfigError('auth is not enabled');
     }
-    return this.authSession.login();
+    return session.login();
   }
 }
 
 export { UserClient } from './user';
 export { RecipientClient } from './recipient';
+export * from './events';
+export * from './indexer';
+export * from './reconcile';
+export type { WaitOptions } from './wait';
+export * from './multi';
+export * from './diagnostics';
@@ -0,0 +1,226 @@
+import type { BlockRef, Checkpoint, CheckpointStore } from '../checkpoint';
+import { InMemoryCheckpointStore } from '../checkpoint';
+import type { ContractGateway } from '../contract';
+import {
+  Core4MicaEvent,
+  decodeCore4MicaLog,
+  EventFilter,
+  matchesEventFilter,
+  ResolvedEventFilter,
+  resolveEventFilter,
+} from '../events';
+import { ValidationError } from '../utils';
+
+/** Checkpoints kept in {@link Checkpoint.previous} for reorg recovery. */
+const CHECKPOINT_HISTORY = 64;
+
+/**
+ * Error messages providers use when an `eth_getLogs` block range or result set is too large.
+ * Rate limit errors ("rate limit exceeded", "too many requests") must not match: shrinking the
+ * range would only send more requests.
+ */
+const LOG_LIMIT_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /max(imum)? (block )?range/i,
+  /limited to a [\d,]+ (block )?range/i,
+  /more than [\d,]+ (results|logs)/i,
+  /too many (results|logs)/i,
+  /max(imum)? results/i,
+  /response size/i,
+];
+
+/** Settings for {@link EventIndexer}. */
+export interface EventIndexerOptions {
+  /** Events to index. Defaults to every type in {@link CORE4MICA_EVENT_TYPES}. */
+  filter?: EventFilter;
+  /**
+   * Handles the events of one block range, in chain order. The checkpoint only advances past the
+   * range once the returned promise resolves, so a failed batch is retried on the next sync.
+   */
+  onEvents: (events: Core4MicaEvent[], range: { fromBlock: bigint; toBlock: bigint }) => unknown;
+  /**
+   * Called after a reorg with the last block that is still canonical. Discard anything derived
+   * from later blocks; their events are delivered again from the new chain. Receives
+   * `fromBlock - 1` when no recorded block survived.
+   */
+  onRollback?: (blockNumber: bigint) => unknown;
+  /** Called when a background sync fails; the indexer retries on the next poll. */
+  onError?: (error: unknown) => void;
+  /** Where progress is saved. Defaults to an {@link InMemoryCheckpointStore}. */
+  store?: CheckpointStore;
+  /** First block to index when the store has no checkpoint. Defaults to 0. */
+  fromBlock?: bigint;
+  /** Blocks an event must be buried under before it is indexed. Defaults to 12. */
+  confirmations?: number;
+  /** Milliseconds between syncs after {@link EventIndexer.start}. Defaults to 4 000. */
+  pollingInterval?: number;
+  /**
+   * Largest block span per `eth_getLogs` request. Halved when the provider rejects a range as too
+   * large and grown back after successful requests. Defaults to 5 000.
+   */
+  maxBlockRange?: bigint;
+}
+
+/**
+ * Replays Core4Mica events into `onEvents` and records progress in a {@link CheckpointStore},
+ * so a restarted indexer resumes after the last handled block.
+ *
+ * Each sync first checks that the checkpointed block is still canonical. After a reorg deeper
+ * than `confirmations`, the indexer steps back to the newest earlier checkpoint that survived,
+ * calls `onRollback` with it and re-indexes from there; if none survived it starts over from
+ * `fromBlock`.
+ *
+ * @example
+ * ```ts
+ * const indexer = client.events.createIndexer({
+ *   filter: { types: ['TabPaid', 'PaymentRecorded', 'RecipientRemunerated'] },
+ *   store: new JsonFileCheckpointStore('./core4mica-checkpoint.json'),
+ *   fromBlock: deploymentBlock,
+ *   onEvents: (events) => db.apply(events),
+ *   onRollback: (block) => db.revertAfter(block),
+ * });
+ * indexer.start();
+ * ```
+ */
+export class EventIndexer {
+  private readonly filter: ResolvedEventFilter;
+  private readonly store: CheckpointStore;
+  private readonly confirmations: bigint;
+  private readonly pollingInterval: number;
+  private readonly maxBlockRange: bigint;
+  private blockRange: bigint;
+  private checkpoint?: Checkpoint;
+  private loaded = false;
+  private syncing?: Promise<Checkpoint | undefined>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  /** @throws {@link ValidationError} for invalid options. */
+  constructor(
+    private readonly gateway: ContractGateway,
+    private readonly options: EventIndexerOptions
+  ) {
+    this.filter = resolveEventFilter(options.filter);
+    const confirmations = options.confirmations ?? 12;
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+      throw new ValidationError('confirmations must be a non-negative integer');
+    }
+    this.pollingInterval = options.pollingInterval ?? 4_000;
+    if (!(this.pollingInterval > 0)) {
+      throw new ValidationError('pollingInterval must be positive');
+    }
+    this.maxBlockRange = options.maxBlockRange ?? 5_000n;
+    if (this.maxBlockRange < 1n) {
+      throw new ValidationError('maxBlockRange must be positive');
+    }
+    this.store = options.store ?? new InMemoryCheckpointStore();
+    this.confirmations = BigInt(confirmations);
+    this.blockRange = this.maxBlockRange;
+  }
+
+  /**
+   * Index every confirmed block after the checkpoint and return the new checkpoint (`undefined`
+   * if nothing is confirmed yet). Concurrent calls share one sync.
+   */
+  sync(): Promise<Checkpoint | undefined> {
+    this.syncing ??= this.run().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  /** Sync now and then every `pollingInterval` until {@link stop} is called. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /** Stop background syncing. A sync already in progress finishes. */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.sync()
+        .catch((error) => this.options.onError?.(error))
+        .finally(() => this.schedule(this.pollingInterval));
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private async run(): Promise<Checkpoint | undefined> {
+    if (!this.loaded) {
+      this.checkpoint = await this.store.load();
+      this.loaded = true;
+    }
+    if (this.checkpoint) await this.verifyCheckpoint(this.checkpoint);
+
+    const safeHead = (await this.gateway.getBlockNumber()) - this.confirmations;
+    let from = this.checkpoint ? this.checkpoint.blockNumber + 1n : (this.options.fromBlock ?? 0n);
+    while (from <= safeHead) {
+      const to = from + this.blockRange - 1n < safeHead ? from + this.blockRange - 1n : safeHead;
+      let events: Core4MicaEvent[];
+      try {
+        const logs = await this.gateway.getEventLogs(this.filter.types, from, to);
+        events = logs
+          .map(decodeCore4MicaLog)
+          .filter((event) => matchesEventFilter(event, this.filter));
+      } catch (error) {
+        if (this.blockRange > 1n && isLogLimitError(error)) {
+          this.blockRange /= 2n;
+          continue;
+        }
+        throw error;
+      }
+      if (events.length > 0) {
+        await this.options.onEvents(events, { fromBlock: from, toBlock: to });
+      }
+      await this.advance({ blockNumber: to, blockHash: await this.gateway.getBlockHash(to) });
+      from = to + 1n;
+      this.blockRange =
+        this.blockRange * 2n < this.maxBlockRange ? this.blockRange * 2n : this.maxBlockRange;
+    }
+    return this.checkpoint;
+  }
+
+  private async advance(block: BlockRef): Promise<void> {
+    const previous = this.checkpoint
+      ? [
+          { blockNumber: this.checkpoint.blockNumber, blockHash: this.checkpoint.blockHash },
+          ...this.checkpoint.previous,
+        ].slice(0, CHECKPOINT_HISTORY)
+      : [];
+    const checkpoint = { ...block, previous };
+    await this.store.save(checkpoint);
+    this.checkpoint = checkpoint;
+  }
+
+  /** Roll back to the newest recorded block that is still canonical. */
+  private async verifyCheckpoint(checkpoint: Checkpoint): Promise<void> {
+    if ((await this.gateway.getBlockHash(checkpoint.blockNumber)) === checkpoint.blockHash) {
+      return;
+    }
+    for (const [i, block] of checkpoint.previous.entries()) {
+      if ((await this.gateway.getBlockHash(block.blockNumber)) === block.blockHash) {
+        await this.options.onRollback?.(block.blockNumber);
+        const survivor = { ...block, previous: checkpoint.previous.slice(i + 1) };
+        await this.store.save(survivor);
+        this.checkpoint = survivor;
+        return;
+      }
+    }
+    await this.options.onRollback?.((this.options.fromBlock ?? 0n) - 1n);
+    // Otherwise a restart before the next save would load the orphaned checkpoint again.
+    await this.store.clear();
+    this.checkpoint = undefined;
+  }
+}
+
+function isLogLimitError(error: unknown): boolean {
+  return error instanceof Error && LOG_LIMIT_PATTERNS.some((p) => p.test(error.message));
+}
@@ -0,0 +1,232 @@
+import type { Config } from '../config';
+import { ConfigError } from '../errors';
+import type { UserInfo } from '../models';
+import { listNetworks, NetworkInfo, resolveNetwork } from '../networks';
+import type { FetchFn } from '../rpc';
+import {
+  X402Flow,
+  type PaymentRequirementsV1,
+  type PaymentRequirementsV2,
+  type X402PaymentRequired,
+  type X402SettledPayment,
+  type X402SignedPayment,
+} from '../x402/index';
+import { Client, type CloseOptions } from './index';
+import type { RecipientClient } from './recipient';
+import type { UserClient } from './user';
+
+/** Options for {@link MultiNetworkClient}. */
+export interface MultiNetworkClientOptions {
+  /**
+   * Networks covered by aggregate calls such as {@link MultiNetworkClient.getUser}, as
+   * shorthands or CAIP-2 ids. Defaults to every hosted and registered network
+   * (see {@link listNetworks}).
+   */
+  networks?: string[];
+  /**
+   * Per-network config overrides keyed by shorthand or CAIP-2 id, e.g. an
+   * `ethereumHttpRpcUrl` for one chain.
+   */
+  overrides?: Record<string, Partial<Config>>;
+  /** Factory for per-network clients. Defaults to {@link Client.new}. */
+  clientFactory?: (cfg: Config) => Promise<Client>;
+  /** HTTP fetch implementation used by the x402 flows. Defaults to global `fetch`. */
+  fetchFn?: FetchFn;
+}
+
+/**
+ * Registry of {@link Client}s for several 4Mica networks sharing one signer and auth setup.
+ *
+ * Clients are created lazily, once per CAIP-2 id, from the base config with the network's core
+ * URL substituted. x402 calls are routed by the `network` field of the payment requirements.
+ *
+ * @example
+ * ```ts
+ * const cfg = new ConfigBuilder().walletPrivateKey("0x...").build();
+ * const multi = new MultiNetworkClient(cfg);
+ * try {
+ *   const signed = await multi.signPaymentV2(paymentRequired, accepted, userAddress);
+ *   const positions = await multi.getUser(); // { "eip155:84532": [...], ... }
+ * } finally {
+ *   await multi.aclose();
+ * }
+ * ```
+ */
+export class MultiNetworkClient {
+  private clients = new Map<string, Promise<Client>>();
+  private overrides = new Map<string, Partial<Config>>();
+  private clientFactory: (cfg: Config) => Promise<Client>;
+  private fetchFn?: FetchFn;
+  /** CAIP-2 ids covered by aggregate calls. */
+  readonly networks: string[];
+
+  /**
+   * @param baseConfig - Shared configuration. Its `rpcUrl` is replaced per network, as is
+   *   `authUrl` when it defaulted to `rpcUrl`. `ethereumHttpRpcUrl` and `contractAddress` are
+   *   network-specific and must be supplied through `options.overrides`. When contract
+   *   verification is enabled, each network checks against the address and code hash it pins;
+   *   a network that pins no address needs a `contractVerification.expectedAddress` (or a
+   *   `contractAddress`) in its override.
+   * @param options - Network selection, per-network overrides and client factory.
+   * @throws {@link ConfigError} if a network or override key is not recognised.
+   */
+  constructor(
+    private baseConfig: Config,
+    options: MultiNetworkClientOptions = {}
+  ) {
+    this.clientFactory = options.clientFactory ?? ((cfg) => Client.new(cfg));
+    this.fetchFn = options.fetchFn;
+    this.networks = (options.networks ?? listNetworks()).map(
+      (network) => this.resolve(network).caip2
+    );
+    for (const [network, override] of Object.entries(options.overrides ?? {})) {
+      this.overrides.set(this.resolve(network).caip2, override);
+    }
+  }
+
+  /**
+   * Build the config used for `network`.
+   *
+   * @param network - Network shorthand or CAIP-2 id.
+   * @throws {@link ConfigError} if the network is not recognised, or contract verification is
+   *   enabled but no expected address is pinned for the network or set in its override.
+   */
+  configFor(network: string): Config {
+    const info = this.resolve(network);
+    const base = this.baseConfig;
+    // ConfigBuilder defaults authUrl to rpcUrl; follow the network's core in that case.
+    const authUrl =
+      base.authUrl !== undefined && base.authUrl === base.rpcUrl ? info.rpcUrl : base.authUrl;
+    // The base expectations describe another chain's contract; keep only what this network pins.
+    const contractVerification = base.contractVerification && {
+      ...(info.contractAddress ? { expectedAddress: info.contractAddress } : {}),
+      ...(info.contractCodeHash ? { expectedCodeHash: info.contractCodeHash } : {}),
+    };
+    const cfg: Config = {
+      ...base,
+      rpcUrl: info.rpcUrl,
+      authUrl,
+      ethereumHttpRpcUrl: undefined,
+      contractAddress: undefined,
+      contractVerification,
+      ...this.overrides.get(info.caip2),
+    };
+    if (
+      cfg.contractVerification &&
+      !cfg.contractVerification.expectedAddress &&
+      !cfg.contractAddress
+    ) {
+      throw new ConfigError(
+        `contract verification on ${info.caip2} needs an expected address: none is pinned for ` +
+          'this network; set contractVerification.expectedAddress or contractAddress in its override'
+      );
+    }
+    return cfg;
+  }
+
+  /**
+   * Get (creating on first use) the client for `network`.
+   *
+   * Concurrent callers share one initialisation; a failed initialisation is retried on the
+   * next call.
+   *
+   * @param network - Network shorthand or CAIP-2 id.
+   */
+  async client(network: string): Promise<Client> {
+    const { caip2 } = this.resolve(network);
+    let pending = this.clients.get(caip2);
+    if (!pending) {
+      pending = this.clientFactory(this.configFor(caip2));
+      this.clients.set(caip2, pending);
+      pending.catch(() => {
+        if (this.clients.get(caip2) === pending) this.clients.delete(caip2);
+      });
+    }
+    return pending;
+  }
+
+  /** Payer-side operations on `network`. */
+  async user(network: string): Promise<UserClient> {
+    return (await this.client(network)).user;
+  }
+
+  /** Recipient-side operations on `network`. */
+  async recipient(network: string): Promise<RecipientClient> {
+    return (await this.client(network)).recipient;
+  }
+
+  /** x402 flow bound to the client for `network`. */
+  async flow(network: string): Promise<X402Flow> {
+    const client = await this.client(network);
+    return this.fetchFn ? new X402Flow(client.user, this.fetchFn) : X402Flow.fromClient(client);
+  }
+
+  /** Sign an x402 V1 payment on the network named in `paymentRequirements.network`. */
+  async signPayment(
+    paymentRequirements: PaymentRequirementsV1,
+    userAddress: string
+  ): Promise<X402SignedPayment> {
+    const flow = await this.flow(paymentRequirements.network);
+    return flow.signPayment(paymentRequirements, userAddress);
+  }
+
+  /** Sign an x402 V2 payment on the network named in `accepted.network`. */
+  async signPaymentV2(
+    paymentRequired: X402PaymentRequired,
+    accepted: PaymentRequirementsV2,
+    userAddress: string
+  ): Promise<X402SignedPayment> {
+    const flow = await this.flow(accepted.network);
+    return flow.signPaymentV2(paymentRequired, accepted, userAddress);
+  }
+
+  /** Settle a payment through the client for `paymentRequirements.network`. */
+  async settlePayment(
+    payment: X402SignedPayment,
+    paymentRequirements: PaymentRequirementsV1,
+    facilitatorUrl: string
+  ): Promise<X402SettledPayment> {
+    const flow = await this.flow(paymentRequirements.network);
+    return flow.settlePayment(payment, paymentRequirements, facilitatorUrl);
+  }
+
+  /**
+   * Fetch on-chain collateral positions for the signer on every covered network.
+   *
+   * @param networks - Networks to query. Defaults to {@link networks}.
+   * @returns Positions keyed by CAIP-2 id.
+   */
+  async getUser(networks: string[] = this.networks): Promise<Record<string, UserInfo[]>> {
+    const entries = await Promise.all(
+      networks.map(async (network) => {
+        const { caip2 } = this.resolve(network);
+        const user = await this.user(caip2);
+        return [caip2, await user.getUser()] as const;
+      })
+    );
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Close every client created so far with {@link Client.aclose}. Safe to call multiple times.
+   *
+   * @returns `true` if every client drained its in-flight transactions in time.
+   */
+  async aclose(options?: CloseOptions): Promise<boolean> {
+    const pending = [...this.clients.values()];
+    this.clients.clear();
+    const results = await Promise.allSettled(pending);
+    const drained = await Promise.all(
+      results.map((result) => (result.status === 'fulfilled' ? result.value.aclose(options) : true))
+    );
+    return drained.every(Boolean);
+  }
+
+  private resolve(network: string): NetworkInfo {
+    const info = resolveNetwork(network);
+    if (!info) {
+      throw new ConfigError(`unknown network "${network}"`);
+    }
+    return info;
+  }
+}
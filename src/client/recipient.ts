@@ -12,22 +12,40 @@ import {
   PaymentGuaranteeRequestClaimsV2,
   PendingRemunerationInfo,
   RecipientPaymentInfo,
+  RemunerationWindow,
   SigningScheme,
   TabInfo,
+  TabPaidResult,
   TabPaymentStatus,
+  TabTimeline,
 } from '../models';
 import { DEBUG_CERTS } from '../debug';
 import { normalizeAddress, parseU256 } from '../utils';
 import type { TxReceiptWaitOptions } from '../contract';
-import type { Client } from './index';
-import { isNumericLike, tabStatusFromRpc } from './shared';
+import type { Core4MicaEvent, EventFilter } from '../events';
+import type { Client, ClientRole } from './index';
+import { assertWritable, ETH_ASSET, isNumericLike, tabStatusFromRpc } from './shared';
+import { buildTabTimeline, matchTabPayments } from './timeline';
+import { waitForCondition, WaitOptions } from './wait';
 
-/** Recipient-side operations: tab management, guarantee issuance, remuneration. */
+/**
+ * Recipient-side operations: tab management, guarantee issuance, remuneration.
+ *
+ * On a watch-only client (see {@link ConfigBuilder.watchOnly}) {@link createTab},
+ * {@link issuePaymentGuarantee} and {@link remunerate} throw {@link ReadOnlyClientError}.
+ */
 export class RecipientClient {
-  constructor(private client: Client) {}
+  /**
+   * @param client - Owning client; supplies the core parameters and guarantee domain.
+   * @param role - Signer, RPC proxy and gateway to act with. Defaults to the client's own.
+   */
+  constructor(
+    private client: Client,
+    private role: ClientRole = client
+  ) {}
 
   private get recipientAddress(): string {
-    return normalizeAddress(this.client.signer.signer.address);
+    return normalizeAddress(this.role.signer.signer.address);
   }
 
   get guaranteeDomain(): string {
@@ -53,6 +71,7 @@ export class RecipientClient {
     ttl?: number | null,
     guaranteeVersion = 1
   ): Promise<{ tabId: bigint; assetAddress: string; nextReqId: bigint }> {
+    assertWritable(this.client, 'createTab');
     const body = {
       user_address: normalizeAddress(userAddress),
       recipient_address: normalizeAddress(recipientAddress),
@@ -60,15 +79,12 @@ export class RecipientClient {
       ttl: ttl ?? null,
       guarantee_version: guaranteeVersion,
     };
-    const result = await this.client.rpc.createPaymentTab(body);
+    const result = await this.role.rpc.createPaymentTab(body);
     const record = result as Record<string, unknown>;
     const tabIdRaw = record.id ?? record.tabId ?? record.tab_id;
     const tabId = isNumericLike(tabIdRaw) ? tabIdRaw : 0;
     const erc20Raw = record.erc20_token ?? record.erc20Token;
-    const assetAddress =
-      typeof erc20Raw === 'string' && erc20Raw
-        ? erc20Raw
-        : '0x0000000000000000000000000000000000000000';
+    const assetAddress = typeof erc20Raw === 'string' && erc20Raw ? erc20Raw : ETH_ASSET;
     const nextReqIdRaw = record.next_req_id ?? record.nextReqId ?? 0;
     return {
       tabId: parseU256(tabId),
@@ -84,15 +100,193 @@ export class RecipientClient {
    * @returns `{ paid, remunerated, asset }`.
    */
   async getTabPaymentStatus(tabId: number | bigint): Promise<TabPaymentStatus> {
-    const status = await this.client.gateway.getPaymentStatus(tabId);
+    const status = await this.role.gateway.getPaymentStatus(tabId);
     return tabStatusFromRpc(status);
   }
 
+  /**
+   * Query the on-chain payment status of many tabs in batched Multicall3 reads.
+   *
+   * @param tabIds - Tab identifiers.
+   * @returns One {@link getTabPaymentStatus} result per tab, in input order.
+   */
+  async getTabPaymentStatuses(tabIds: Array<number | bigint>): Promise<TabPaymentStatus[]> {
+    const statuses = await this.role.gateway.getPaymentStatuses(tabIds);
+    return statuses.map(tabStatusFromRpc);
+  }
+
+  /**
+   * When a tab can be remunerated on-chain, from its start time and the contract's
+   * `remunerationGracePeriod` and `tabExpirationTime`.
+   *
+   * @param tab - Tab identifier, or a {@link TabInfo} already fetched from core.
+   * @returns The window, or `null` if core does not know the tab.
+   */
+  async getRemunerationWindow(tab: number | bigint | TabInfo): Promise<RemunerationWindow | null> {
+    const [info, params] = await Promise.all([
+      tab instanceof TabInfo ? tab : this.getTab(tab),
+      this.role.gateway.getProtocolParameters(),
+    ]);
+    if (!info) {
+      return null;
+    }
+    return {
+      remunerableAfter: info.startTimestamp + params.remunerationGracePeriod,
+      expiresAt: info.startTimestamp + params.tabExpirationTime,
+    };
+  }
+
+  /**
+   * A tab's full history for debugging disputes: core's tab record, guarantees, collateral events
+   * and payments merged with the tab's `TabPaid`, `PaymentRecorded` and `RecipientRemunerated`
+   * contract events, in chronological order.
+   *
+   * ERC20 payments are matched to core's payments by transaction hash. ETH payments, which core
+   * records on-chain in a transaction of its own, are matched by payer and amount. Core's lock and
+   * unlock collateral events become entries; its other collateral events are left out. Each entry
+   * lists where the sources disagree (e.g. a payment core has no record of, or a different
+   * amount), and disagreements about the tab as a whole, such as an on-chain paid total the events
+   * do not add up to, are listed on the timeline itself.
+   *
+   * @param tabId - Tab identifier.
+   * @param options - `fromBlock` to search events from. Defaults to the first block at or after
+   *   the tab's start, found by binary search over block timestamps.
+   * @returns The timeline, or `null` if core does not know the tab.
+   */
+  async getTabTimeline(
+    tabId: number | bigint,
+    options: { fromBlock?: bigint } = {}
+  ): Promise<TabTimeline | null> {
+    const id = parseU256(tabId);
+    const tab = await this.getTab(id);
+    if (!tab) {
+      return null;
+    }
+    const gateway = this.role.gateway;
+    const [guarantees, collateralEvents, payments, status, params, now, fromBlock] =
+      await Promise.all([
+        this.getTabGuarantees(id),
+        this.getCollateralEventsForTab(id),
+        this.listRecipientPayments(),
+        this.getTabPaymentStatus(id),
+        gateway.getProtocolParameters(),
+        gateway.getBlockTimestamp(),
+        options.fromBlock ?? this.tabStartBlock(tab),
+      ]);
+    const events = await this.client.events.getLogs(
+      { types: ['TabPaid', 'PaymentRecorded', 'RecipientRemunerated'], tabId: id },
+      { fromBlock }
+    );
+    const blocks = [...new Set(events.map((e) => e.blockNumber))];
+    const timestamps = await Promise.all(blocks.map((n) => gateway.getBlockTimestamp(n)));
+    return buildTabTimeline({
+      tab,
+      guarantees,
+      collateralEvents,
+      payments,
+      events,
+      blockTimestamps: new Map(blocks.map((n, i) => [n, timestamps[i]])),
+      status,
+      params,
+      now,
+      fromBlock,
+    });
+  }
+
+  /**
+   * Wait until the chain and core agree that a tab is paid.
+   *
+   * Resolves once the tab's on-chain `paid` amount reaches `minAmount` and core lists every
+   * payment of the tab seen on-chain as finalized or failed (see {@link listRecipientPayments}).
+   * ERC20 payments emit `TabPaid`; ETH payments are plain transfers that core records with a
+   * `PaymentRecorded` event, matched to core's payment by payer and amount. Wakes on both events
+   * for the tab, and re-checks every `pollingInterval` for core's side. If the chain shows the
+   * payment before any event arrives, the tab's payment logs are fetched once from the block
+   * where the tab started.
+   *
+   * @param tabId - Tab identifier.
+   * @param options - `minAmount` (default 1) plus timeout, abort signal and polling interval.
+   * @throws {@link WaitTimeoutError} if `timeout` elapses first.
+   */
+  async waitForTabPaid(
+    tabId: number | bigint,
+    options: WaitOptions & { minAmount?: number | bigint | string } = {}
+  ): Promise<TabPaidResult> {
+    const id = parseU256(tabId);
+    const minAmount = parseU256(options.minAmount ?? 1);
+    const filter: EventFilter = { types: ['TabPaid', 'PaymentRecorded'], tabId: id };
+    let tab: TabInfo | null = null;
+    let backfill: Core4MicaEvent[] | undefined;
+    return waitForCondition(
+      this.client,
+      `tab ${id} to be paid`,
+      filter,
+      async (events) => {
+        const status = await this.getTabPaymentStatus(id);
+        if (status.paid < minAmount) return undefined;
+        // Core may not know the tab yet; its payments cannot be matched before it does.
+        tab ??= await this.getTab(id);
+        if (!tab) return undefined;
+        if (events.length === 0 && !backfill) {
+          // The state poll can see the payment before the watcher delivers its event.
+          backfill = await this.client.events.getLogs(filter, {
+            fromBlock: await this.tabStartBlock(tab),
+          });
+        }
+        const watched = new Set(events.map((e) => `${e.blockHash}:${e.logIndex}`));
+        const seen = [
+          ...(backfill ?? []).filter((e) => !watched.has(`${e.blockHash}:${e.logIndex}`)),
+          ...events,
+        ];
+        const matches = matchTabPayments(tab, seen, await this.listRecipientPayments());
+        if (matches.length === 0) return undefined;
+        const payments = matches.flatMap(({ corePayment: p }) =>
+          p && (p.finalized || p.failed) ? [p] : []
+        );
+        return payments.length === matches.length ? { status, payments } : undefined;
+      },
+      options
+    );
+  }
+
+  /** First block at or after the tab's start (or creation, if earlier). */
+  private tabStartBlock(tab: TabInfo): Promise<bigint> {
+    const start =
+      tab.createdAt > 0 ? Math.min(tab.createdAt, tab.startTimestamp) : tab.startTimestamp;
+    return this.role.gateway.getBlockNumberAt(start);
+  }
+
+  /**
+   * Wait until a tab has been remunerated on-chain. Wakes on `RecipientRemunerated` events for
+   * the tab and resolves with its payment status.
+   *
+   * @param tabId - Tab identifier.
+   * @throws {@link WaitTimeoutError} if `timeout` elapses first.
+   */
+  async waitForRemuneration(
+    tabId: number | bigint,
+    options: WaitOptions = {}
+  ): Promise<TabPaymentStatus> {
+    const id = parseU256(tabId);
+    return waitForCondition(
+      this.client,
+      `tab ${id} to be remunerated`,
+      { types: ['RecipientRemunerated'], tabId: id },
+      async () => {
+        const status = await this.getTabPaymentStatus(id);
+        return status.remunerated ? status : undefined;
+      },
+      options
+    );
+  }
+
   /**
    * Issue a BLS-signed payment guarantee certificate via the core RPC.
    *
    * The returned {@link BLSCert} can be stored and later passed to
-   * {@link remunerate} to claim the payment on-chain.
+   * {@link remunerate} to claim the payment on-chain. The request is never retried: after a
+   * timeout, check {@link getGuarantee} before issuing again, since core rejects a repeated
+   * `reqId` with {@link ReqIdConflictError}.
    *
    * @param claims - Signed payment claims (V1 or V2).
    * @param signature - ECDSA signature hex string from the payer.
@@ -105,8 +299,9 @@ export class RecipientClient {
     signature: string,
     scheme: SigningScheme
   ): Promise<BLSCert> {
+    assertWritable(this.client, 'issuePaymentGuarantee');
     const payload = buildPaymentPayload(claims, signature, scheme);
-    const cert = await this.client.rpc.issueGuarantee(payload);
+    const cert = await this.role.rpc.issueGuarantee(payload);
     const record = cert as Record<string, unknown>;
     const certClaims = typeof record.claims === 'string' ? record.claims : '';
     const signatureOut = typeof record.signature === 'string' ? record.signature : '';
@@ -128,7 +323,7 @@ export class RecipientClient {
     const claims = decodeGuaranteeClaims(cert.claims);
     let expectedDomain: string;
     if (claims.version === 2) {
-      const { domainSeparator, enabled } = await this.client.gateway.getGuaranteeVersionConfig(2);
+      const { domainSeparator, enabled } = await this.role.gateway.getGuaranteeVersionConfig(2);
       if (!enabled) {
         throw new VerificationError('guarantee version 2 is not enabled on-chain');
       }
@@ -167,6 +362,7 @@ export class RecipientClient {
    * @throws {@link ContractError} if the contract call fails.
    */
   async remunerate(cert: BLSCert, waitOptions?: TxReceiptWaitOptions) {
+    assertWritable(this.client, 'remunerate');
     await this.verifyPaymentGuarantee(cert);
     const describeValue = (value: unknown): string => {
       if (value === null) return 'null';
@@ -195,20 +391,20 @@ export class RecipientClient {
     const sigWords = await signatureToWordsAsync(cert.signature);
     const claimsBytes = Buffer.from(cert.claims.replace(/^0x/, ''), 'hex');
     if (waitOptions) {
-      return this.client.gateway.remunerate(claimsBytes, sigWords, waitOptions);
+      return this.role.gateway.remunerate(claimsBytes, sigWords, waitOptions);
     }
-    return this.client.gateway.remunerate(claimsBytes, sigWords);
+    return this.role.gateway.remunerate(claimsBytes, sigWords);
   }
 
   /** List all tabs for this recipient that have been settled on-chain. */
   async listSettledTabs(): Promise<TabInfo[]> {
-    const tabs = await this.client.rpc.listSettledTabs(this.recipientAddress);
+    const tabs = await this.role.rpc.listSettledTabs(this.recipientAddress);
     return tabs.map((t) => TabInfo.fromRpc(t));
   }
 
   /** List all tabs with outstanding (un-remunerated) guarantees for this recipient. */
   async listPendingRemunerations(): Promise<PendingRemunerationInfo[]> {
-    const items = await this.client.rpc.listPendingRemunerations(this.recipientAddress);
+    const items = await this.role.rpc.listPendingRemunerations(this.recipientAddress);
     return items.map((item) => PendingRemunerationInfo.fromRpc(item));
   }
 
@@ -219,7 +415,7 @@ export class RecipientClient {
    * @returns The tab, or `null` if not found.
    */
   async getTab(tabId: number | bigint): Promise<TabInfo | null> {
-    const result = await this.client.rpc.getTab(tabId);
+    const result = await this.role.rpc.getTab(tabId);
     return result ? TabInfo.fromRpc(result) : null;
   }
 
@@ -229,7 +425,7 @@ export class RecipientClient {
    * @param settlementStatuses - Optional filter on settlement status (e.g. `['PENDING']`).
    */
   async listRecipientTabs(settlementStatuses?: string[]): Promise<TabInfo[]> {
-    const tabs = await this.client.rpc.listRecipientTabs(this.recipientAddress, settlementStatuses);
+    const tabs = await this.role.rpc.listRecipientTabs(this.recipientAddress, settlementStatuses);
     return tabs.map((t) => TabInfo.fromRpc(t));
   }
 
@@ -239,7 +435,7 @@ export class RecipientClient {
    * @param tabId - Tab identifier.
    */
   async getTabGuarantees(tabId: number | bigint): Promise<GuaranteeInfo[]> {
-    const guarantees = await this.client.rpc.getTabGuarantees(tabId);
+    const guarantees = await this.role.rpc.getTabGuarantees(tabId);
     return guarantees.map((g) => GuaranteeInfo.fromRpc(g));
   }
 
@@ -250,7 +446,7 @@ export class RecipientClient {
    * @returns The latest {@link GuaranteeInfo}, or `null` if none exists.
    */
   async getLatestGuarantee(tabId: number | bigint): Promise<GuaranteeInfo | null> {
-    const result = await this.client.rpc.getLatestGuarantee(tabId);
+    const result = await this.role.rpc.getLatestGuarantee(tabId);
     return result ? GuaranteeInfo.fromRpc(result) : null;
   }
 
@@ -265,13 +461,13 @@ export class RecipientClient {
     tabId: number | bigint,
     reqId: number | bigint
   ): Promise<GuaranteeInfo | null> {
-    const result = await this.client.rpc.getGuarantee(tabId, reqId);
+    const result = await this.role.rpc.getGuarantee(tabId, reqId);
     return result ? GuaranteeInfo.fromRpc(result) : null;
   }
 
   /** List all on-chain payments received by this recipient. */
   async listRecipientPayments(): Promise<RecipientPaymentInfo[]> {
-    const payments = await this.client.rpc.listRecipientPayments(this.recipientAddress);
+    const payments = await this.role.rpc.listRecipientPayments(this.recipientAddress);
     return payments.map((p) => RecipientPaymentInfo.fromRpc(p));
   }
 
@@ -281,7 +477,7 @@ export class RecipientClient {
    * @param tabId - Tab identifier.
    */
   async getCollateralEventsForTab(tabId: number | bigint): Promise<CollateralEventInfo[]> {
-    const events = await this.client.rpc.getCollateralEventsForTab(tabId);
+    const events = await this.role.rpc.getCollateralEventsForTab(tabId);
     return events.map((ev) => CollateralEventInfo.fromRpc(ev));
   }
 
@@ -296,7 +492,7 @@ export class RecipientClient {
     userAddress: string,
     assetAddress: string
   ): Promise<AssetBalanceInfo | null> {
-    const balance = await this.client.rpc.getUserAssetBalance(userAddress, assetAddress);
+    const balance = await this.role.rpc.getUserAssetBalance(userAddress, assetAddress);
     return balance ? AssetBalanceInfo.fromRpc(balance) : null;
   }
 }
@@ -0,0 +1,328 @@
+import { AssetBalanceInfo, GuaranteeInfo, TabInfo, TabPaymentStatus, UserInfo } from '../models';
+import { normalizeAddress, ValidationError } from '../utils';
+import type { Client } from './index';
+
+/** How serious a {@link ReconciliationMismatch} is. Only `critical` ones clear `report.ok`. */
+export type MismatchSeverity = 'info' | 'warning' | 'critical';
+
+/** What a {@link ReconciliationMismatch} is about. */
+export type MismatchKind =
+  /** Guarantees are fully paid on-chain but core still has the tab as `PENDING`. */
+  | 'tabPaidButPending'
+  /** The tab was remunerated on-chain but core still lists it in `listPendingRemunerations`. */
+  | 'remuneratedButListedPending'
+  /** The contract records a different asset for the tab than core. */
+  | 'tabAssetMismatch'
+  /** Outstanding guarantees (or core's locked amount) exceed the user's on-chain collateral. */
+  | 'guaranteeExceedsCollateral'
+  /** Core's total collateral differs from the contract's. */
+  | 'collateralMismatch'
+  /** The contract holds collateral that core has no balance record for. */
+  | 'missingCoreBalance';
+
+/** One disagreement between core and the Core4Mica contract. */
+export interface ReconciliationMismatch {
+  kind: MismatchKind;
+  severity: MismatchSeverity;
+  message: string;
+  tabId?: bigint;
+  user?: string;
+  asset?: string;
+  /** The value core reports (an amount or status). */
+  core?: bigint | string;
+  /** The value the contract reports. */
+  chain?: bigint | string;
+}
+
+const CSV_COLUMNS = [
+  'severity',
+  'kind',
+  'tabId',
+  'user',
+  'asset',
+  'core',
+  'chain',
+  'message',
+] as const;
+
+/** Mismatches found by a {@link Reconciler} run, with JSON and CSV export. */
+export class ReconciliationReport {
+  constructor(
+    /** Whether a recipient's tabs or a user's assets were reconciled. */
+    public scope: 'recipient' | 'user',
+    /** Recipient or user address that was reconciled. */
+    public address: string,
+    /** ISO-8601 time the run started. */
+    public checkedAt: string,
+    /** Tabs (recipient scope) or asset positions (user scope) compared. */
+    public checked: number,
+    public mismatches: ReconciliationMismatch[]
+  ) {}
+
+  /** `false` if any mismatch is `critical`. */
+  get ok(): boolean {
+    return this.mismatches.every((m) => m.severity !== 'critical');
+  }
+
+  /** The report as pretty-printed JSON, with amounts and tab IDs as decimal strings. */
+  toJson(): string {
+    return JSON.stringify(
+      {
+        scope: this.scope,
+        address: this.address,
+        checkedAt: this.checkedAt,
+        checked: this.checked,
+        ok: this.ok,
+        mismatches: this.mismatches,
+      },
+      (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2
+    );
+  }
+
+  /** One CSV row per mismatch under a header row (RFC 4180 quoting). */
+  toCsv(): string {
+    const cell = (value: unknown) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = this.mismatches.map((m) => CSV_COLUMNS.map((column) => cell(m[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+}
+
+/** Settings for {@link Reconciler}. */
+export interface ReconcilerOptions {
+  /** Core requests (per-tab guarantees, per-asset balances) in flight at once. Defaults to 8. */
+  concurrency?: number;
+}
+
+/**
+ * Compares core's bookkeeping with the Core4Mica contract and reports where they disagree.
+ *
+ * @example
+ * ```ts
+ * const report = await new Reconciler(client).reconcileRecipient();
+ * if (!report.ok) await writeFile('mismatches.csv', report.toCsv());
+ * ```
+ */
+export class Reconciler {
+  private readonly concurrency: number;
+
+  /** @throws {@link ValidationError} if `concurrency` is not a positive integer. */
+  constructor(
+    private client: Client,
+    options: ReconcilerOptions = {}
+  ) {
+    this.concurrency = options.concurrency ?? 8;
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new ValidationError('concurrency must be a positive integer');
+    }
+  }
+
+  /**
+   * Walk the recipient's tabs and compare core's settlement status and pending remunerations
+   * with the contract's payment status, and the payers' outstanding guarantees with their
+   * on-chain collateral.
+   *
+   * Outstanding means guaranteed but not yet paid, on tabs that are neither remunerated nor
+   * expired.
+   *
+   * @param settlementStatuses - Only reconcile tabs with these core settlement statuses.
+   */
+  async reconcileRecipient(settlementStatuses?: string[]): Promise<ReconciliationReport> {
+    const checkedAt = new Date().toISOString();
+    const recipient = this.client.recipient;
+    const gateway = this.client.recipientRole.gateway;
+    const [tabs, pending, params, now] = await Promise.all([
+      recipient.listRecipientTabs(settlementStatuses),
+      recipient.listPendingRemunerations(),
+      gateway.getProtocolParameters(),
+      gateway.getBlockTimestamp(),
+    ]);
+    const [statuses, guarantees] = await Promise.all([
+      recipient.getTabPaymentStatuses(tabs.map((t) => t.tabId)),
+      mapConcurrent(tabs, this.concurrency, (t) => recipient.getTabGuarantees(t.tabId)),
+    ]);
+    const pendingTabIds = new Set(pending.map((p) => p.tab.tabId));
+
+    const mismatches: ReconciliationMismatch[] = [];
+    const outstanding = new Map<string, { user: string; asset: string; amount: bigint }>();
+    tabs.forEach((tab, i) => {
+      const status = statuses[i];
+      const guaranteed = sumGuarantees(guarantees[i]);
+      mismatches.push(...compareTab(tab, status, guaranteed, pendingTabIds.has(tab.tabId)));
+      const expired = now >= tab.startTimestamp + params.tabExpirationTime;
+      if (!status.remunerated && !expired && guaranteed > status.paid) {
+        const key = `${tab.userAddress.toLowerCase()}:${tab.assetAddress.toLowerCase()}`;
+        const entry = outstanding.get(key) ?? {
+          user: tab.userAddress,
+          asset: tab.assetAddress,
+          amount: 0n,
+        };
+        entry.amount += guaranteed - status.paid;
+        outstanding.set(key, entry);
+      }
+    });
+
+    const exposures = [...outstanding.values()];
+    const users = [...new Set(exposures.map((e) => normalizeAddress(e.user)))];
+    const positions = await this.client.user.getUsers(users);
+    for (const exposure of exposures) {
+      const collateral = collateralOf(
+        positions[users.indexOf(normalizeAddress(exposure.user))],
+        exposure.asset
+      );
+      if (exposure.amount > collateral) {
+        mismatches.push({
+          kind: 'guaranteeExceedsCollateral',
+          severity: 'critical',
+          message: `outstanding guarantees of ${exposure.amount} exceed on-chain collateral of ${collateral}`,
+          user: exposure.user,
+          asset: exposure.asset,
+          core: exposure.amount,
+          chain: collateral,
+        });
+      }
+    }
+    return new ReconciliationReport(
+      'recipient',
+      normalizeAddress(this.client.recipientRole.signer.signer.address),
+      checkedAt,
+      tabs.length,
+      mismatches
+    );
+  }
+
+  /**
+   * Compare core's balance record (`total`, `locked`) of each asset a user holds on-chain with
+   * the contract's collateral.
+   *
+   * @param address - Account to reconcile. Defaults to the configured signer (or watched address).
+   */
+  async reconcileUser(address?: string): Promise<ReconciliationReport> {
+    const checkedAt = new Date().toISOString();
+    const user = normalizeAddress(address ?? this.client.signer.signer.address);
+    const positions = await this.client.user.getUser(user);
+    const balances = await mapConcurrent(positions, this.concurrency, (p) =>
+      this.client.recipient.getUserAssetBalance(user, p.asset)
+    );
+    const mismatches = positions.flatMap((position, i) =>
+      compareBalance(user, position, balances[i])
+    );
+    return new ReconciliationReport('user', user, checkedAt, positions.length, mismatches);
+  }
+}
+
+function compareTab(
+  tab: TabInfo,
+  status: TabPaymentStatus,
+  guaranteed: bigint,
+  listedPending: boolean
+): ReconciliationMismatch[] {
+  const mismatches: ReconciliationMismatch[] = [];
+  const base = { tabId: tab.tabId, user: tab.userAddress, asset: tab.assetAddress };
+  const pending = tab.settlementStatus.toUpperCase() === 'PENDING';
+  if (pending && status.paid > 0n && status.paid >= guaranteed) {
+    mismatches.push({
+      ...base,
+      kind: 'tabPaidButPending',
+      severity: 'warning',
+      message: `paid ${status.paid} on-chain against ${guaranteed} guaranteed, but core has the tab as ${tab.settlementStatus}`,
+      core: tab.settlementStatus,
+      chain: status.paid,
+    });
+  }
+  if (status.remunerated && listedPending) {
+    mismatches.push({
+      ...base,
+      kind: 'remuneratedButListedPending',
+      severity: 'warning',
+      message: 'remunerated on-chain but still listed in pending remunerations',
+      core: 'pending remuneration',
+      chain: 'remunerated',
+    });
+  }
+  const touched = status.paid > 0n || status.remunerated;
+  if (touched && status.asset.toLowerCase() !== tab.assetAddress.toLowerCase()) {
+    mismatches.push({
+      ...base,
+      kind: 'tabAssetMismatch',
+      severity: 'critical',
+      message: `contract records asset ${status.asset}, core ${tab.assetAddress}`,
+      core: tab.assetAddress,
+      chain: status.asset,
+    });
+  }
+  return mismatches;
+}
+
+function compareBalance(
+  user: string,
+  position: UserInfo,
+  balance: AssetBalanceInfo | null
+): ReconciliationMismatch[] {
+  const base = { user, asset: position.asset };
+  if (!balance) {
+    return position.collateral > 0n
+      ? [
+          {
+            ...base,
+            kind: 'missingCoreBalance',
+            severity: 'warning',
+            message: `core has no balance record for ${position.collateral} of on-chain collateral`,
+            chain: position.collateral,
+          },
+        ]
+      : [];
+  }
+  const mismatches: ReconciliationMismatch[] = [];
+  if (balance.total !== position.collateral) {
+    mismatches.push({
+      ...base,
+      kind: 'collateralMismatch',
+      severity: 'warning',
+      message: `core total ${balance.total} differs from on-chain collateral ${position.collateral}`,
+      core: balance.total,
+      chain: position.collateral,
+    });
+  }
+  if (balance.locked > position.collateral) {
+    mismatches.push({
+      ...base,
+      kind: 'guaranteeExceedsCollateral',
+      severity: 'critical',
+      message: `core has ${balance.locked} locked but on-chain collateral is ${position.collateral}`,
+      core: balance.locked,
+      chain: position.collateral,
+    });
+  }
+  return mismatches;
+}
+
+function sumGuarantees(guarantees: GuaranteeInfo[]): bigint {
+  return guarantees.reduce((total, g) => total + g.amount, 0n);
+}
+
+function collateralOf(positions: UserInfo[] | undefined, asset: string): bigint {
+  const position = positions?.find((p) => p.asset.toLowerCase() === asset.toLowerCase());
+  return position?.collateral ?? 0n;
+}
+
+/** `Promise.all(items.map(fn))` with at most `limit` calls pending at once. */
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -1,5 +1,7 @@
-import { TabPaymentStatus } from '../models';
+import { ReadOnlyClientError } from '../errors';
+import { TabPaymentStatus, UserInfo } from '../models';
 import { parseU256 } from '../utils';
+import type { Client } from './index';
 
 export const isNumericLike = (value: unknown): value is number | bigint | string =>
   typeof value === 'number' || typeof value === 'bigint' || typeof value === 'string';
@@ -23,3 +25,25 @@ export function tabStatusFromRpc(status: RpcTabStatus): TabPaymentStatus {
     asset,
   };
 }
+
+export const ETH_ASSET = '0x0000000000000000000000000000000000000000';
+
+export function userInfoFromAsset(asset: {
+  asset: string;
+  collateral: number | bigint | string;
+  withdrawalRequestAmount: number | bigint | string;
+  withdrawalRequestTimestamp: number | bigint;
+}): UserInfo {
+  return {
+    asset: asset.asset,
+    collateral: parseU256(asset.collateral),
+    withdrawalRequestAmount: parseU256(asset.withdrawalRequestAmount),
+    withdrawalRequestTimestamp: Number(asset.withdrawalRequestTimestamp),
+  };
+}
+
+export function assertWritable(client: Client, operation: string): void {
+  if (client.readOnly) {
+    throw new ReadOnlyClientError(`${operation} is not available on a watch-only client`);
+  }
+}
@@ -0,0 +1,213 @@
+import type { Core4MicaEvent } from '../events';
+import {
+  CollateralEventInfo,
+  GuaranteeInfo,
+  ProtocolParameters,
+  RecipientPaymentInfo,
+  TabInfo,
+  TabPaymentStatus,
+  TabTimeline,
+  TabTimelineEntry,
+} from '../models';
+
+/** Everything {@link buildTabTimeline} merges, as fetched by `RecipientClient.getTabTimeline`. */
+export interface TabTimelineSources {
+  tab: TabInfo;
+  guarantees: GuaranteeInfo[];
+  collateralEvents: CollateralEventInfo[];
+  /** The recipient's payments from core; matched to on-chain payments by {@link matchTabPayments}. */
+  payments: RecipientPaymentInfo[];
+  /** `TabPaid`, `PaymentRecorded` and `RecipientRemunerated` events of the tab, in chain order. */
+  events: Core4MicaEvent[];
+  /** Block timestamps (unix seconds) of the blocks in `events`. */
+  blockTimestamps: Map<bigint, number>;
+  status: TabPaymentStatus;
+  params: ProtocolParameters;
+  /** Latest block timestamp, to decide whether the tab has expired. */
+  now: number;
+  /** First block searched for events. */
+  fromBlock: bigint;
+}
+
+/** An on-chain payment of a tab and core's record of it, if one was found. */
+export interface TabPaymentMatch {
+  event: Extract<Core4MicaEvent, { type: 'TabPaid' | 'PaymentRecorded' }>;
+  corePayment?: RecipientPaymentInfo;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Pair a tab's payment events with core's payment records, in event order.
+ *
+ * An ERC20 payment emits `TabPaid` together with a `PaymentRecorded` that is skipped, and is
+ * matched by transaction hash. An ETH payment is a plain transfer that core records on-chain
+ * afterwards, so its `PaymentRecorded` comes from core's transaction while core lists the payment
+ * under the payer's. It is matched to a core payment from the tab's user with the same amount
+ * (and tab, when core reports one) that no other event claimed.
+ */
+export function matchTabPayments(
+  tab: TabInfo,
+  events: Core4MicaEvent[],
+  payments: RecipientPaymentInfo[]
+): TabPaymentMatch[] {
+  const byHash = new Map(payments.map((p) => [p.txHash.toLowerCase(), p]));
+  const tabPaidTxs = new Set(
+    events.filter((e) => e.type === 'TabPaid').map((e) => e.transactionHash.toLowerCase())
+  );
+  const matches: TabPaymentMatch[] = [];
+  for (const event of events) {
+    const hash = event.transactionHash.toLowerCase();
+    if (event.type === 'TabPaid' || (event.type === 'PaymentRecorded' && !tabPaidTxs.has(hash))) {
+      matches.push({ event, corePayment: byHash.get(hash) });
+    }
+  }
+  const claimed = new Set(matches.map((m) => m.corePayment));
+  for (const match of matches) {
+    if (match.corePayment || match.event.type !== 'PaymentRecorded') continue;
+    match.corePayment = payments.find(
+      (p) =>
+        !claimed.has(p) &&
+        p.amount === match.event.amount &&
+        sameAddress(p.userAddress, tab.userAddress) &&
+        (p.tabId == null || p.tabId === tab.tabId)
+    );
+    claimed.add(match.corePayment);
+  }
+  return matches;
+}
+
+/** Merge core records and contract events of one tab into a chronological {@link TabTimeline}. */
+export function buildTabTimeline(sources: TabTimelineSources): TabTimeline {
+  const { tab, status, params, fromBlock } = sources;
+  const expiresAt = tab.startTimestamp + params.tabExpirationTime;
+  const entries: TabTimelineEntry[] = [
+    {
+      type: 'created',
+      timestamp: tab.createdAt || tab.startTimestamp,
+      source: 'core',
+      tab,
+      discrepancies: [],
+    },
+  ];
+
+  for (const guarantee of sources.guarantees) {
+    const discrepancies: string[] = [];
+    if (guarantee.timestamp >= expiresAt) {
+      discrepancies.push(`issued at ${guarantee.timestamp}, after the tab expired at ${expiresAt}`);
+    }
+    if (!sameAddress(guarantee.assetAddress, tab.assetAddress)) {
+      discrepancies.push(
+        `guarantee asset ${guarantee.assetAddress} differs from tab asset ${tab.assetAddress}`
+      );
+    }
+    entries.push({
+      type: 'guaranteeIssued',
+      timestamp: guarantee.timestamp,
+      source: 'core',
+      reqId: guarantee.reqId,
+      amount: guarantee.amount,
+      guarantee,
+      discrepancies,
+    });
+  }
+
+  for (const event of sources.collateralEvents) {
+    let type: 'collateralLocked' | 'collateralUnlocked';
+    switch (event.eventType.toUpperCase()) {
+      case 'LOCK':
+        type = 'collateralLocked';
+        break;
+      case 'UNLOCK':
+        type = 'collateralUnlocked';
+        break;
+      default:
+        // Deposits and withdrawals are not about the tab; remunerations appear as chain entries.
+        continue;
+    }
+    entries.push({
+      type,
+      timestamp: event.createdAt,
+      source: 'core',
+      amount: event.amount,
+      event,
+      discrepancies: [],
+    });
+  }
+
+  const corePayments = new Map<Core4MicaEvent, RecipientPaymentInfo | undefined>(
+    matchTabPayments(tab, sources.events, sources.payments).map((m) => [m.event, m.corePayment])
+  );
+  let paidTotal = 0n;
+  let remunerationSeen = false;
+  for (const event of sources.events) {
+    const timestamp = sources.blockTimestamps.get(event.blockNumber) ?? 0;
+    const chain = { timestamp, source: 'chain' as const, blockNumber: event.blockNumber };
+    if (event.type === 'RecipientRemunerated') {
+      remunerationSeen = true;
+      entries.push({
+        ...chain,
+        type: 'remunerated',
+        amount: event.amount,
+        txHash: event.transactionHash,
+        discrepancies: [],
+      });
+      continue;
+    }
+    if (event.type !== 'TabPaid' && event.type !== 'PaymentRecorded') continue;
+    // A transaction that emits both only counts once, as the TabPaid.
+    if (!corePayments.has(event)) continue;
+
+    paidTotal += event.amount;
+    const discrepancies: string[] = [];
+    const corePayment = corePayments.get(event);
+    if (!corePayment) {
+      discrepancies.push(
+        event.type === 'TabPaid'
+          ? 'core has no payment with this transaction hash'
+          : `core has no unmatched payment of ${event.amount} from the tab's user`
+      );
+    } else {
+      if (corePayment.amount !== event.amount) {
+        discrepancies.push(`core records amount ${corePayment.amount}, the chain ${event.amount}`);
+      }
+      if (corePayment.failed) discrepancies.push('core marked the payment as failed');
+    }
+    if (!sameAddress(event.asset, tab.assetAddress)) {
+      discrepancies.push(`paid in ${event.asset}, tab asset is ${tab.assetAddress}`);
+    }
+    entries.push({
+      ...chain,
+      type: 'paid',
+      amount: event.amount,
+      txHash: event.transactionHash,
+      corePayment,
+      discrepancies,
+    });
+  }
+
+  if (sources.now >= expiresAt) {
+    entries.push({ type: 'expired', timestamp: expiresAt, source: 'chain', discrepancies: [] });
+  }
+
+  const discrepancies: string[] = [];
+  if (paidTotal !== status.paid) {
+    discrepancies.push(
+      `on-chain paid total is ${status.paid} but payment events since block ${fromBlock} add up to ${paidTotal}`
+    );
+  }
+  if (status.remunerated && !remunerationSeen) {
+    discrepancies.push(
+      `tab is remunerated on-chain but no RecipientRemunerated event was found since block ${fromBlock}`
+    );
+  }
+  if (status.paid > 0n && !sameAddress(status.asset, tab.assetAddress)) {
+    discrepancies.push(
+      `on-chain asset ${status.asset} differs from core asset ${tab.assetAddress}`
+    );
+  }
+
+  // Array.prototype.sort is stable, so same-second entries keep their source order.
+  entries.sort((a, b) => a.timestamp - b.timestamp);
+  return { tabId: tab.tabId, entries, discrepancies };
+}
@@ -6,12 +6,20 @@ import {
   TabPaymentStatus,
   UserInfo,
 } from '../models';
-import { tabStatusFromRpc } from './shared';
+import { assertWritable, ETH_ASSET, tabStatusFromRpc, userInfoFromAsset } from './shared';
 import type { TxReceiptWaitOptions } from '../contract';
-import { parseU256 } from '../utils';
+import { ContractError } from '../errors';
+import { normalizeAddress } from '../utils';
 import type { Client } from './index';
+import { waitForCondition, WaitOptions } from './wait';
 
-/** Payer-side operations: collateral management, payment signing, withdrawals. */
+/**
+ * Payer-side operations: collateral management, payment signing, withdrawals.
+ *
+ * On a watch-only client (see {@link ConfigBuilder.watchOnly}) only the read methods (such as
+ * {@link getUser} and {@link getTabPaymentStatus}) are available; every other method throws
+ * {@link ReadOnlyClientError}.
+ */
 export class UserClient {
   constructor(private client: Client) {}
 
@@ -33,6 +41,7 @@ export class UserClient {
     amount: number | bigint | string,
     waitOptions?: TxReceiptWaitOptions
   ) {
+    assertWritable(this.client, 'approveErc20');
     return this.client.gateway.approveErc20(token, amount, waitOptions);
   }
 
@@ -49,26 +58,104 @@ export class UserClient {
     erc20Token?: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
+    assertWritable(this.client, 'deposit');
     return this.client.gateway.deposit(amount, erc20Token, waitOptions);
   }
 
   /**
-   * Fetch all asset positions for the current signer.
+   * Fetch all asset positions for an account.
    *
+   * @param address - Account to look up. Defaults to the configured signer (or watched address).
    * @returns Array of positions — one entry per deposited asset, including
    *   locked collateral and any pending withdrawal.
    * @throws {@link ContractError} if the contract call fails.
    */
-  async getUser(): Promise<UserInfo[]> {
-    const assets = await this.client.gateway.getUserAssets();
-    return assets.map(
-      (a) =>
-        ({
-          asset: a.asset,
-          collateral: parseU256(a.collateral),
-          withdrawalRequestAmount: parseU256(a.withdrawalRequestAmount),
-          withdrawalRequestTimestamp: Number(a.withdrawalRequestTimestamp),
-        }) satisfies UserInfo
+  async getUser(address?: string): Promise<UserInfo[]> {
+    const assets = await this.client.gateway.getUserAssets(
+      address === undefined ? undefined : normalizeAddress(address)
+    );
+    return assets.map(userInfoFromAsset);
+  }
+
+  /**
+   * Fetch the asset positions of many accounts in batched Multicall3 reads.
+   *
+   * @param addresses - Accounts to look up.
+   * @returns One {@link getUser} result per address, in input order.
+   * @throws {@link ContractError} if the contract call fails.
+   */
+  async getUsers(addresses: string[]): Promise<UserInfo[][]> {
+    const results = await this.client.gateway.getUsersAssets(addresses.map(normalizeAddress));
+    return results.map((assets) => assets.map(userInfoFromAsset));
+  }
+
+  /**
+   * When a pending withdrawal can be finalised, from the request time and the contract's
+   * `withdrawalGracePeriod`.
+   *
+   * @param erc20Token - ERC20 token address. Omit for an ETH withdrawal.
+   * @param address - Account to look up. Defaults to the configured signer (or watched address).
+   * @returns Unix timestamp in seconds, or `null` if no withdrawal is pending.
+   */
+  async getWithdrawalFinalizableAt(erc20Token?: string, address?: string): Promise<number | null> {
+    const asset = (erc20Token ?? ETH_ASSET).toLowerCase();
+    const [positions, params] = await Promise.all([
+      this.getUser(address),
+      this.client.gateway.getProtocolParameters(),
+    ]);
+    const position = positions.find((p) => p.asset.toLowerCase() === asset);
+    if (!position || position.withdrawalRequestAmount === 0n) {
+      return null;
+    }
+    return position.withdrawalRequestTimestamp + params.withdrawalGracePeriod;
+  }
+
+  /**
+   * Wait until a pending withdrawal can be finalised, i.e. the latest block is past
+   * {@link getWithdrawalFinalizableAt}. Re-checks every `pollingInterval` and when a withdrawal
+   * event for the account arrives.
+   *
+   * @param erc20Token - ERC20 token address. Omit for an ETH withdrawal.
+   * @param options - `address` (defaults to the configured signer) plus timeout, abort signal and
+   *   polling interval.
+   * @returns The unix timestamp in seconds from which `finalizeWithdrawal` succeeds.
+   * @throws {@link ContractError} if no withdrawal is pending, or it is cancelled while waiting.
+   * @throws {@link WaitTimeoutError} if `timeout` elapses first.
+   */
+  async waitForWithdrawalFinalizable(
+    erc20Token?: string,
+    options: WaitOptions & { address?: string } = {}
+  ): Promise<number> {
+    const user = normalizeAddress(options.address ?? this.client.signer.signer.address);
+    const asset = erc20Token === undefined ? ETH_ASSET : normalizeAddress(erc20Token);
+    return waitForCondition(
+      this.client,
+      `the ${asset} withdrawal of ${user} to become finalizable`,
+      { types: ['WithdrawalRequested', 'WithdrawalCanceled', 'CollateralWithdrawn'], user },
+      async () => {
+        const [finalizableAt, now] = await Promise.all([
+          this.getWithdrawalFinalizableAt(asset, user),
+          this.client.gateway.getBlockTimestamp(),
+        ]);
+        if (finalizableAt === null) {
+          throw new ContractError(`no withdrawal of ${asset} is pending for ${user}`);
+        }
+        return now >= finalizableAt ? finalizableAt : undefined;
+      },
+      options
+    );
+  }
+
+  /**
+   * How much more of an asset can currently be guaranteed against an account's collateral.
+   *
+   * @param erc20Token - ERC20 token address. Omit for ETH.
+   * @param address - Account to look up. Defaults to the configured signer (or watched address).
+   */
+  async getGuaranteeCapacity(erc20Token?: string, address?: string): Promise<bigint> {
+    return this.client.gateway.getGuaranteeCapacity(
+      normalizeAddress(address ?? this.client.signer.signer.address),
+      erc20Token === undefined ? ETH_ASSET : normalizeAddress(erc20Token)
     );
   }
 
@@ -84,6 +171,17 @@ export class UserClient {
     return tabStatusFromRpc(status);
   }
 
+  /**
+   * Query the on-chain payment status of many tabs in batched Multicall3 reads.
+   *
+   * @param tabIds - Tab identifiers.
+   * @returns One {@link getTabPaymentStatus} result per tab, in input order.
+   */
+  async getTabPaymentStatuses(tabIds: Array<number | bigint>): Promise<TabPaymentStatus[]> {
+    const statuses = await this.client.gateway.getPaymentStatuses(tabIds);
+    return statuses.map(tabStatusFromRpc);
+  }
+
   /**
    * Sign a payment guarantee request with the configured signer.
    *
@@ -100,6 +198,7 @@ export class UserClient {
     claims: PaymentGuaranteeRequestClaims | PaymentGuaranteeRequestClaimsV2,
     scheme: SigningScheme = SigningScheme.EIP712
   ): Promise<PaymentSignature> {
+    assertWritable(this.client, 'signPayment');
     return this.client.signer.signRequest(this.client.params, claims, scheme);
   }
 
@@ -123,6 +222,7 @@ export class UserClient {
     erc20Token?: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
+    assertWritable(this.client, 'payTab');
     if (erc20Token) {
       return this.client.gateway.payTabErc20(
         tabId,
@@ -148,6 +248,7 @@ export class UserClient {
     erc20Token?: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
+    assertWritable(this.client, 'requestWithdrawal');
     return this.client.gateway.requestWithdrawal(amount, erc20Token, waitOptions);
   }
 
@@ -158,6 +259,7 @@ export class UserClient {
    * @param waitOptions - Optional timeout/polling overrides.
    */
   async cancelWithdrawal(erc20Token?: string, waitOptions?: TxReceiptWaitOptions) {
+    assertWritable(this.client, 'cancelWithdrawal');
     return this.client.gateway.cancelWithdrawal(erc20Token, waitOptions);
   }
 
@@ -168,6 +270,7 @@ export class UserClient {
    * @param waitOptions - Optional timeout/polling overrides.
    */
   async finalizeWithdrawal(erc20Token?: string, waitOptions?: TxReceiptWaitOptions) {
+    assertWritable(this.client, 'finalizeWithdrawal');
     return this.client.gateway.finalizeWithdrawal(erc20Token, waitOptions);
   }
 }
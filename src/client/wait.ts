@@ -0,0 +1,123 @@
+import { ClientClosedError, WaitTimeoutError } from '../errors';
+import type { Core4MicaEvent, EventFilter } from '../events';
+import type { Client } from './index';
+
+/** Timeout, cancellation and polling settings for the `waitFor…` helpers. */
+export interface WaitOptions {
+  /**
+   * Milliseconds before the wait rejects with {@link WaitTimeoutError}. Without it the wait only
+   * ends on success or abort.
+   */
+  timeout?: number;
+  /** Rejects the wait with `signal.reason` when aborted. */
+  signal?: AbortSignal;
+  /** Milliseconds between event polls and state checks. Defaults to 4 000. */
+  pollingInterval?: number;
+}
+
+/**
+ * Resolve with the first defined result of `check`.
+ *
+ * `check` runs once up front, whenever an event matching `filter` arrives, and every
+ * `pollingInterval` for changes no event announces (core finalising a payment, a deadline
+ * passing). It receives the matching events seen so far, minus any a reorg dropped. An error
+ * thrown by `check` rejects the wait; closing the client rejects it with
+ * {@link ClientClosedError}, as does starting a wait on a closed client.
+ */
+export function waitForCondition<T>(
+  client: Client,
+  description: string,
+  filter: EventFilter,
+  check: (events: Core4MicaEvent[]) => Promise<T | undefined>,
+  options: WaitOptions = {}
+): Promise<T> {
+  const { signal, timeout } = options;
+  const pollingInterval = options.pollingInterval ?? 4_000;
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    if (client.events.closed) {
+      reject(new ClientClosedError(`cannot wait for ${description}: client is closed`));
+      return;
+    }
+    const events: Core4MicaEvent[] = [];
+    let settled = false;
+    let checking = false;
+    let recheck = false;
+
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      unwatch();
+      clearInterval(ticker);
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+    const run = async () => {
+      if (checking) {
+        recheck = true;
+        return;
+      }
+      checking = true;
+      try {
+        do {
+          recheck = false;
+          const result = await check([...events]);
+          if (result !== undefined) {
+            finish(() => resolve(result));
+            return;
+          }
+        } while (recheck && !settled);
+      } catch (error) {
+        finish(() => reject(error));
+      } finally {
+        checking = false;
+      }
+    };
+    const onAbort = () => finish(() => reject(signal?.reason));
+
+    const unwatch = client.events.watch(
+      filter,
+      (event) => {
+        if (event.removed) {
+          const i = events.findIndex(
+            (e) => e.blockHash === event.blockHash && e.logIndex === event.logIndex
+          );
+          if (i >= 0) events.splice(i, 1);
+        } else {
+          events.push(event);
+        }
+        void run();
+      },
+      {
+        pollingInterval,
+        // Failed polls are retried by the watcher; the state checks keep running meanwhile.
+        onError: () => {},
+        onClose: () =>
+          finish(() =>
+            reject(new ClientClosedError(`client closed while waiting for ${description}`))
+          ),
+      }
+    );
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer =
+      timeout !== undefined
+        ? setTimeout(
+            () =>
+              finish(() =>
+                reject(
+                  new WaitTimeoutError(`timed out after ${timeout}ms waiting for ${description}`)
+                )
+              ),
+            timeout
+          )
+        : undefined;
+    const ticker = setInterval(() => void run(), pollingInterval);
+    // Like the watcher's own timer, a pending wait does not keep the process alive.
+    ticker.unref?.();
+    void run();
+  });
+}
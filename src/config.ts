@@ -1,7 +1,37 @@
+import type { Address, JsonRpcAccount } from 'viem';
 import { Account, privateKeyToAccount } from 'viem/accounts';
 import { ConfigError } from './errors';
+import { resolveRetryPolicy, type RetryPolicy } from './http';
+import { resolveGasPolicy, type GasPolicy, type ResolvedGasPolicy } from './gas';
+import type { TransactionEvent } from './contract';
 import { ValidationError, normalizeAddress, normalizePrivateKey, validateUrl } from './utils';
-import { resolveNetworkRpcUrl } from './networks';
+import { NetworkInfo, resolveNetwork } from './networks';
+import {
+  ConfigFileOptions,
+  ConfigProfile,
+  ConfigProfileSigner,
+  loadConfigProfile,
+} from './profiles';
+import {
+  MnemonicSignerOptions,
+  RemoteSignerOptions,
+  keystoreFileSigner,
+  keystoreSigner,
+  mnemonicSigner,
+  remoteSigner,
+} from './signers';
+
+/**
+ * Expected on-chain deployment checked by {@link Client.new} when contract verification is
+ * enabled. Unset fields are not pinned; the contract must still have code and a guarantee
+ * domain separator matching the one reported by core.
+ */
+export interface ContractVerification {
+  /** Expected Core4Mica contract address. */
+  expectedAddress?: string;
+  /** Expected keccak256 hash of the Core4Mica runtime bytecode (`0x`-prefixed). */
+  expectedCodeHash?: string;
+}
 
 /** Validated configuration used to construct a {@link Client}. Produced by {@link ConfigBuilder.build}. */
 export interface Config {
@@ -9,6 +39,11 @@ export interface Config {
   rpcUrl: string;
   /** viem `Account` used to sign payments and authenticate requests. */
   signer: Account;
+  /**
+   * viem `Account` for recipient-side operations (tabs, guarantees, remuneration), when it
+   * differs from {@link signer}. Gets its own auth session and transaction queue.
+   */
+  recipientSigner?: Account;
   /** Override for the Ethereum HTTP RPC URL (defaults to the value returned by the core service). */
   ethereumHttpRpcUrl?: string;
   /** Override for the Core4Mica contract address (defaults to the value returned by the core service). */
@@ -21,6 +56,28 @@ export interface Config {
   authUrl?: string;
   /** Seconds before token expiry at which the auth session proactively refreshes. Defaults to 60. */
   authRefreshMarginSecs?: number;
+  /** When set, {@link Client.new} verifies the Core4Mica deployment before use. */
+  contractVerification?: ContractVerification;
+  /** Timeout and retry policy for core and auth requests. Defaults to {@link DEFAULT_RETRY_POLICY}. */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Watch-only mode: {@link signer} is an address without a key, and write operations throw
+   * {@link ReadOnlyClientError}. Set by {@link ConfigBuilder.watchOnly}.
+   */
+  readOnly?: boolean;
+  /**
+   * Simulate contract writes before broadcasting so reverts throw without spending gas.
+   * Defaults to `true`; see {@link ConfigBuilder.simulateWrites}.
+   */
+  simulateWrites?: boolean;
+  /** Default fee and gas limit policy for contract writes. Defaults to {@link DEFAULT_GAS_POLICY}. */
+  gasPolicy?: ResolvedGasPolicy;
+  /** Called when a pending transaction is fee-bumped, replaced or cancelled. */
+  onTransactionEvent?: (event: TransactionEvent) => void;
+  /** How transaction nonces are assigned; see {@link ConfigBuilder.nonceMode}. Defaults to `'serial'`. */
+  nonceMode?: 'local' | 'serial';
+  /** Pending transactions allowed per account with local nonces. Defaults to 16. */
+  maxInFlight?: number;
 }
 
 /**
@@ -37,8 +94,15 @@ export interface Config {
  */
 export class ConfigBuilder {
   private _rpcUrl: string | undefined = 'https://ethereum.sepolia.api.4mica.xyz/';
-  private _walletPrivateKey: string | undefined;
-  private _signer: Account | undefined;
+  private _signerSource: (() => Account) | undefined;
+  private _recipientSignerSource: (() => Account) | undefined;
+  private _readOnly = false;
+  private _retryPolicy?: RetryPolicy;
+  private _simulateWrites = true;
+  private _gasPolicy?: GasPolicy;
+  private _onTransactionEvent?: (event: TransactionEvent) => void;
+  private _nonceMode?: 'local' | 'serial';
+  private _maxInFlight?: number;
   private _ethereumHttpRpcUrl?: string;
   private _contractAddress?: string;
   private _adminApiKey?: string;
@@ -46,10 +110,15 @@ export class ConfigBuilder {
   private _authEnabled = true;
   private _authUrl?: string;
   private _authRefreshMarginSecs?: number;
+  private _network?: NetworkInfo;
+  private _verifyContract = false;
+  private _expectedContractAddress?: string;
+  private _expectedContractCodeHash?: string;
 
   /** Set the 4Mica core RPC URL directly. Use {@link network} to select a hosted network by name instead. Defaults to `https://ethereum.sepolia.api.4mica.xyz/`. */
   rpcUrl(value: string): ConfigBuilder {
     this._rpcUrl = value;
+    this._network = undefined;
     return this;
   }
 
@@ -59,7 +128,8 @@ export class ConfigBuilder {
    * Mutually exclusive with {@link rpcUrl} — last call wins.
    *
    * Supported values: `"base-sepolia"` / `"eip155:84532"`,
-   * `"ethereum-sepolia"` / `"eip155:11155111"`.
+   * `"ethereum-sepolia"` / `"eip155:11155111"`, and any network added with
+   * {@link registerNetwork}.
    *
    * @throws {@link ConfigError} if the network is not recognised.
    *
@@ -70,25 +140,123 @@ export class ConfigBuilder {
    * ```
    */
   network(value: string): ConfigBuilder {
-    const url = resolveNetworkRpcUrl(value);
-    if (!url) {
+    const network = resolveNetwork(value);
+    if (!network) {
       throw new ConfigError(
-        `unknown network "${value}". Use a known shorthand (e.g. "base-sepolia") or CAIP-2 id, or call rpcUrl() directly.`
+        `unknown network "${value}". Use a known shorthand (e.g. "base-sepolia") or CAIP-2 id, register it with registerNetwork(), or call rpcUrl() directly.`
       );
     }
-    this._rpcUrl = url;
+    this._rpcUrl = network.rpcUrl;
+    this._network = network;
     return this;
   }
 
-  /** Set the wallet private key (hex string). Mutually exclusive with {@link signer}. */
+  /**
+   * Set the wallet private key (hex string).
+   *
+   * Signer sources ({@link walletPrivateKey}, {@link signer}, {@link keystore},
+   * {@link keystoreFile}, {@link mnemonic}, {@link remoteSigner}, {@link watchOnly}) are mutually
+   * exclusive — last call wins.
+   */
   walletPrivateKey(value: string): ConfigBuilder {
-    this._walletPrivateKey = value;
+    this.useSigner(() => privateKeyToAccount(normalizePrivateKey(value) as `0x${string}`));
     return this;
   }
 
-  /** Set a pre-built viem `Account` directly. Mutually exclusive with {@link walletPrivateKey}. */
+  /** Set a pre-built viem `Account` directly. Replaces any other signer source. */
   signer(value: Account): ConfigBuilder {
-    this._signer = value;
+    this.useSigner(() => value);
+    return this;
+  }
+
+  /**
+   * Sign with the key in an encrypted Ethereum V3 keystore. Decrypted in {@link build}.
+   * Replaces any other signer source.
+   *
+   * @param keystore - Keystore JSON text or parsed object.
+   * @param password - Keystore password.
+   */
+  keystore(keystore: string | object, password: string): ConfigBuilder {
+    this.useSigner(() => keystoreSigner(keystore, password));
+    return this;
+  }
+
+  /**
+   * Sign with the key in an encrypted Ethereum V3 keystore file. Read and decrypted in
+   * {@link build}. Replaces any other signer source.
+   */
+  keystoreFile(path: string, password: string): ConfigBuilder {
+    this.useSigner(() => keystoreFileSigner(path, password));
+    return this;
+  }
+
+  /**
+   * Sign with a key derived from a BIP-39 mnemonic, by default at `m/44'/60'/0'/0/0`.
+   * Replaces any other signer source.
+   *
+   * @example
+   * ```ts
+   * new ConfigBuilder().mnemonic(process.env.MNEMONIC!, { addressIndex: 2 }).build();
+   * ```
+   */
+  mnemonic(phrase: string, options?: MnemonicSignerOptions): ConfigBuilder {
+    this.useSigner(() => mnemonicSigner(phrase, options));
+    return this;
+  }
+
+  /**
+   * Delegate signing to a JSON-RPC signing service (`eth_signTypedData_v4`, `personal_sign`,
+   * `eth_signTransaction`), so the key never enters this process. Replaces any other signer
+   * source.
+   *
+   * @example
+   * ```ts
+   * new ConfigBuilder()
+   *   .remoteSigner({ url: 'http://127.0.0.1:8550', address: '0x...' })
+   *   .build();
+   * ```
+   */
+  remoteSigner(options: RemoteSignerOptions): ConfigBuilder {
+    this.useSigner(() => remoteSigner(options));
+    return this;
+  }
+
+  /**
+   * Build a watch-only client for `address`, with no signing key. Replaces any other signer
+   * source.
+   *
+   * Reads (tabs, guarantees, balances, payment status) work as usual; payments, deposits,
+   * withdrawals, tab creation, guarantee issuance and remuneration throw
+   * {@link ReadOnlyClientError}. SIWE auth needs a key, so it is off unless configured
+   * explicitly (which {@link build} rejects) — use {@link bearerToken} for authenticated reads.
+   *
+   * @example
+   * ```ts
+   * const cfg = new ConfigBuilder().watchOnly('0x...').bearerToken(token).build();
+   * ```
+   */
+  watchOnly(address: string): ConfigBuilder {
+    this.useSigner(
+      (): JsonRpcAccount => ({ address: normalizeAddress(address) as Address, type: 'json-rpc' }),
+      true
+    );
+    return this;
+  }
+
+  /**
+   * Use a separate account for recipient-side operations (tabs, guarantees, remuneration).
+   * Payer-side operations keep using {@link signer}. Ignored when it is the same account as the
+   * payer signer. Replaces {@link recipientWalletPrivateKey}.
+   */
+  recipientSigner(value: Account): ConfigBuilder {
+    this._recipientSignerSource = () => value;
+    return this;
+  }
+
+  /** Set the recipient wallet private key (hex string). See {@link recipientSigner}. */
+  recipientWalletPrivateKey(value: string): ConfigBuilder {
+    this._recipientSignerSource = () =>
+      privateKeyToAccount(normalizePrivateKey(value) as `0x${string}`);
     return this;
   }
 
@@ -116,12 +284,76 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Set the timeout and retry policy for core and auth requests. Unset fields keep their
+   * defaults; pass `{ maxAttempts: 1 }` to disable retries.
+   *
+   * @example
+   * ```ts
+   * new ConfigBuilder().retryPolicy({ timeoutMs: 5_000, maxAttempts: 5 });
+   * ```
+   */
+  retryPolicy(policy: RetryPolicy): ConfigBuilder {
+    this._retryPolicy = { ...this._retryPolicy, ...policy };
+    return this;
+  }
+
+  /**
+   * Simulate each contract write before broadcasting it (the default). Pass `false` to skip the
+   * extra RPC round trip; individual calls can still opt back in with `{ simulate: true }`.
+   */
+  simulateWrites(enabled: boolean): ConfigBuilder {
+    this._simulateWrites = enabled;
+    return this;
+  }
+
+  /**
+   * Set the default fee and gas limit policy for contract writes. Unset fields keep their
+   * defaults; individual calls can override it through `TxReceiptWaitOptions.gasPolicy`.
+   *
+   * @example
+   * ```ts
+   * new ConfigBuilder().gasPolicy({ maxFeeCap: parseGwei('50'), gasLimitMultiplier: 1.5 });
+   * ```
+   */
+  gasPolicy(policy: GasPolicy): ConfigBuilder {
+    this._gasPolicy = { ...this._gasPolicy, ...policy };
+    return this;
+  }
+
+  /**
+   * Observe stuck-transaction handling: fee bumps sent by the SDK, and transactions that were
+   * replaced or cancelled. The listener is shared by the payer and recipient gateways.
+   */
+  onTransactionEvent(listener: (event: TransactionEvent) => void): ConfigBuilder {
+    this._onTransactionEvent = listener;
+    return this;
+  }
+
+  /**
+   * Choose how transactions are sequenced. `'serial'` (the default) sends one transaction at a
+   * time and lets the node assign nonces, which is safe when other software sends from the same
+   * account. `'local'` assigns nonces in the SDK and keeps up to `maxInFlight` transactions
+   * (default 16) pending per account, resyncing from the node after a failed submission.
+   */
+  nonceMode(mode: 'local' | 'serial', maxInFlight?: number): ConfigBuilder {
+    this._nonceMode = mode;
+    this._maxInFlight = maxInFlight;
+    return this;
+  }
+
   /** Enable SIWE authentication using the default RPC URL as the auth endpoint. Auth is enabled by default; this is a no-op unless you previously called a method that disabled it. */
   enableAuth(): ConfigBuilder {
     this._authEnabled = true;
     return this;
   }
 
+  /** Disable SIWE authentication. RPC calls are then unauthenticated unless a bearer token is set. */
+  disableAuth(): ConfigBuilder {
+    this._authEnabled = false;
+    return this;
+  }
+
   /** Set a custom SIWE authentication endpoint and enable auth. */
   authUrl(value: string): ConfigBuilder {
     this._authUrl = value;
@@ -136,6 +368,63 @@ export class ConfigBuilder {
     return this;
   }
 
+  /**
+   * Verify the Core4Mica contract when the client is created.
+   *
+   * {@link Client.new} then checks that the contract address and runtime bytecode hash match the
+   * expected values and that the on-chain guarantee domain separator matches the one reported by
+   * core, throwing {@link ClientInitializationError} on any mismatch. Expected values default to
+   * the ones pinned for the network selected via {@link network}, then to {@link contractAddress};
+   * explicit values take precedence. The hosted networks pin nothing yet, so without an explicit
+   * `expectedAddress` or `contractAddress` verification fails.
+   */
+  verifyContract(expected?: ContractVerification): ConfigBuilder {
+    this._verifyContract = true;
+    if (expected?.expectedAddress !== undefined) {
+      this._expectedContractAddress = expected.expectedAddress;
+    }
+    if (expected?.expectedCodeHash !== undefined) {
+      this._expectedContractCodeHash = expected.expectedCodeHash;
+    }
+    return this;
+  }
+
+  /**
+   * Create a builder from a named profile in a JSON or YAML config file.
+   *
+   * The file holds a `profiles` object keyed by profile name (plus an optional
+   * `defaultProfile`); each profile uses the keys of {@link ConfigProfile}. String values may
+   * reference environment variables as `${NAME}` or `${NAME:-default}`.
+   *
+   * Precedence is file, then `4MICA_*` environment variables (see {@link fromEnv}), then any
+   * builder method called on the returned builder.
+   *
+   * @example
+   * ```yaml
+   * defaultProfile: dev
+   * profiles:
+   *   dev:
+   *     network: base-sepolia
+   *     signer:
+   *       privateKey: ${PAYER_KEY}
+   *   prod:
+   *     rpcUrl: https://core.example.com/
+   *     auth:
+   *       refreshMarginSecs: 120
+   * ```
+   *
+   * ```ts
+   * const cfg = ConfigBuilder.fromFile('4mica.yaml', { profile: 'prod' }).build();
+   * ```
+   *
+   * @throws {@link ConfigError} naming the profile and key if the file or a value is invalid.
+   */
+  static fromFile(path: string, options: ConfigFileOptions = {}): ConfigBuilder {
+    const { profile } = loadConfigProfile(path, options.profile);
+    const builder = new ConfigBuilder().applyProfile(profile);
+    return options.env === false ? builder : builder.fromEnv();
+  }
+
   /**
    * Load configuration from environment variables.
    *
@@ -143,18 +432,34 @@ export class ConfigBuilder {
    * - `4MICA_NETWORK` — shorthand or CAIP-2 id (e.g. `base-sepolia`); takes precedence over `4MICA_RPC_URL`
    * - `4MICA_RPC_URL`
    * - `4MICA_WALLET_PRIVATE_KEY`
+   * - `4MICA_WATCH_ADDRESS` — watch-only client for this address (see {@link watchOnly}); ignored
+   *   when a signing key variable is set
+   * - `4MICA_KEYSTORE_PATH` / `4MICA_KEYSTORE_PASSWORD` — encrypted keystore signer; ignored when
+   *   `4MICA_WALLET_PRIVATE_KEY` is set
+   * - `4MICA_RECIPIENT_WALLET_PRIVATE_KEY` — separate recipient account
    * - `4MICA_ETHEREUM_HTTP_RPC_URL`
    * - `4MICA_CONTRACT_ADDRESS`
    * - `4MICA_ADMIN_API_KEY`
    * - `4MICA_BEARER_TOKEN`
    * - `4MICA_AUTH_URL`
    * - `4MICA_AUTH_REFRESH_MARGIN_SECS`
+   * - `4MICA_HTTP_TIMEOUT_MS` / `4MICA_HTTP_MAX_ATTEMPTS` — see {@link retryPolicy}
+   * - `4MICA_SIMULATE_WRITES` — `false` or `0` to skip pre-flight simulation of writes
+   * - `4MICA_VERIFY_CONTRACT` — `true` or `1` to enable contract verification
+   * - `4MICA_EXPECTED_CONTRACT_ADDRESS` — enables contract verification with a pinned address
+   * - `4MICA_EXPECTED_CONTRACT_CODE_HASH` — enables contract verification with a pinned code hash
    */
   fromEnv(): ConfigBuilder {
     const env = process.env;
     if (env['4MICA_NETWORK']) this.network(env['4MICA_NETWORK']);
     if (env['4MICA_RPC_URL']) this._rpcUrl = env['4MICA_RPC_URL'];
-    if (env['4MICA_WALLET_PRIVATE_KEY']) this._walletPrivateKey = env['4MICA_WALLET_PRIVATE_KEY'];
+    if (env['4MICA_WATCH_ADDRESS']) this.watchOnly(env['4MICA_WATCH_ADDRESS']);
+    if (env['4MICA_KEYSTORE_PATH']) {
+      this.keystoreFile(env['4MICA_KEYSTORE_PATH'], env['4MICA_KEYSTORE_PASSWORD'] ?? '');
+    }
+    if (env['4MICA_WALLET_PRIVATE_KEY']) this.walletPrivateKey(env['4MICA_WALLET_PRIVATE_KEY']);
+    if (env['4MICA_RECIPIENT_WALLET_PRIVATE_KEY'])
+      this.recipientWalletPrivateKey(env['4MICA_RECIPIENT_WALLET_PRIVATE_KEY']);
     if (env['4MICA_ETHEREUM_HTTP_RPC_URL'])
       this._ethereumHttpRpcUrl = env['4MICA_ETHEREUM_HTTP_RPC_URL'];
     if (env['4MICA_CONTRACT_ADDRESS']) this._contractAddress = env['4MICA_CONTRACT_ADDRESS'];
@@ -168,6 +473,24 @@ export class ConfigBuilder {
       this._authRefreshMarginSecs = Number(env['4MICA_AUTH_REFRESH_MARGIN_SECS']);
       this._authEnabled = true;
     }
+    if (env['4MICA_HTTP_TIMEOUT_MS']) {
+      this.retryPolicy({ timeoutMs: Number(env['4MICA_HTTP_TIMEOUT_MS']) });
+    }
+    if (env['4MICA_HTTP_MAX_ATTEMPTS']) {
+      this.retryPolicy({ maxAttempts: Number(env['4MICA_HTTP_MAX_ATTEMPTS']) });
+    }
+    const simulate = env['4MICA_SIMULATE_WRITES']?.toLowerCase();
+    if (simulate === 'false' || simulate === '0') this._simulateWrites = false;
+    const verify = env['4MICA_VERIFY_CONTRACT']?.toLowerCase();
+    if (verify === 'true' || verify === '1') this._verifyContract = true;
+    if (env['4MICA_EXPECTED_CONTRACT_ADDRESS']) {
+      this._expectedContractAddress = env['4MICA_EXPECTED_CONTRACT_ADDRESS'];
+      this._verifyContract = true;
+    }
+    if (env['4MICA_EXPECTED_CONTRACT_CODE_HASH']) {
+      this._expectedContractCodeHash = env['4MICA_EXPECTED_CONTRACT_CODE_HASH'];
+      this._verifyContract = true;
+    }
     return this;
   }
 
@@ -175,10 +498,11 @@ export class ConfigBuilder {
    * Validate all settings and return an immutable {@link Config}.
    *
    * @throws {@link ConfigError} if required fields are missing, URLs are invalid,
-   *   or the auth refresh margin is not a finite non-negative number.
+   *   the auth refresh margin is not a finite non-negative number, or the signer
+   *   cannot be loaded (e.g. wrong keystore password, invalid mnemonic).
    */
   build(): Config {
-    if (!this._signer && !this._walletPrivateKey) {
+    if (!this._signerSource) {
       throw new ConfigError('missing signer or wallet_private_key');
     }
     if (!this._rpcUrl) {
@@ -187,12 +511,8 @@ export class ConfigBuilder {
 
     try {
       const rpcUrl = validateUrl(this._rpcUrl);
-      const walletPrivateKey = this._walletPrivateKey
-        ? normalizePrivateKey(this._walletPrivateKey)
-        : undefined;
-
-      const signer: Account =
-        this._signer ?? privateKeyToAccount(walletPrivateKey! as `0x${string}`);
+      const signer = this._signerSource();
+      const recipientSigner = this._recipientSignerSource?.();
 
       const ethereumHttpRpcUrl = this._ethereumHttpRpcUrl
         ? validateUrl(this._ethereumHttpRpcUrl)
@@ -206,17 +526,48 @@ export class ConfigBuilder {
       if (!Number.isFinite(refreshMargin) || refreshMargin < 0) {
         throw new ValidationError('invalid auth refresh margin');
       }
-      const authEnabled = this._authEnabled;
+      const readOnly = this._readOnly;
+      if (readOnly && recipientSigner) {
+        throw new ValidationError('a recipient signer cannot be combined with watchOnly()');
+      }
+      const explicitAuth = this._authUrl !== undefined || this._authRefreshMarginSecs !== undefined;
+      if (readOnly && this._authEnabled && explicitAuth && !this._bearerToken) {
+        throw new ValidationError(
+          'SIWE auth needs a signing key; use bearerToken() or disableAuth() with watchOnly()'
+        );
+      }
+      const authEnabled = this._authEnabled && !readOnly;
+      const retryPolicy = this._retryPolicy && resolveRetryPolicy(this._retryPolicy);
+      const gasPolicy = this._gasPolicy && resolveGasPolicy(this._gasPolicy);
+      const maxInFlight = this._maxInFlight;
+      if (maxInFlight !== undefined && (!Number.isInteger(maxInFlight) || maxInFlight < 1)) {
+        throw new ValidationError('maxInFlight must be a positive integer');
+      }
+      const contractVerification = this._verifyContract
+        ? this.buildContractVerification()
+        : undefined;
 
       return {
         rpcUrl,
         signer,
+        recipientSigner:
+          recipientSigner && recipientSigner.address !== signer.address
+            ? recipientSigner
+            : undefined,
         ethereumHttpRpcUrl,
         contractAddress,
         adminApiKey: this._adminApiKey,
         bearerToken: this._bearerToken,
         authUrl: authEnabled ? (authUrl ?? rpcUrl) : undefined,
         authRefreshMarginSecs: authEnabled ? refreshMargin : undefined,
+        contractVerification,
+        readOnly: readOnly || undefined,
+        retryPolicy,
+        simulateWrites: this._simulateWrites ? undefined : false,
+        gasPolicy,
+        onTransactionEvent: this._onTransactionEvent,
+        nonceMode: this._nonceMode,
+        maxInFlight,
       };
     } catch (err) {
       if (err instanceof ValidationError) {
@@ -225,4 +576,60 @@ export class ConfigBuilder {
       throw err;
     }
   }
+
+  private useSigner(source: () => Account, readOnly = false): void {
+    this._signerSource = source;
+    this._readOnly = readOnly;
+  }
+
+  private applyProfile(profile: ConfigProfile): ConfigBuilder {
+    if (profile.network) this.network(profile.network);
+    if (profile.rpcUrl) this.rpcUrl(profile.rpcUrl);
+    if (profile.ethereumHttpRpcUrl) this.ethereumHttpRpcUrl(profile.ethereumHttpRpcUrl);
+    if (profile.contractAddress) this.contractAddress(profile.contractAddress);
+    if (profile.adminApiKey) this.adminApiKey(profile.adminApiKey);
+    if (profile.signer) {
+      const source = profileSignerSource(profile.signer);
+      if (source) this.useSigner(source);
+    }
+    if (profile.recipientSigner) {
+      this._recipientSignerSource =
+        profileSignerSource(profile.recipientSigner) ?? this._recipientSignerSource;
+    }
+
+    const auth = profile.auth;
+    if (auth?.url) this.authUrl(auth.url);
+    if (auth?.refreshMarginSecs !== undefined) this.authRefreshMarginSecs(auth.refreshMarginSecs);
+    if (auth?.bearerToken) this.bearerToken(auth.bearerToken);
+    if (auth?.enabled === false) this.disableAuth();
+
+    if (typeof profile.verifyContract === 'object') {
+      this.verifyContract(profile.verifyContract);
+    } else if (profile.verifyContract) {
+      this.verifyContract();
+    }
+    if (profile.gasPolicy) this.gasPolicy(profile.gasPolicy);
+    return this;
+  }
+
+  private buildContractVerification(): ContractVerification {
+    const expectedAddress = this._expectedContractAddress ?? this._network?.contractAddress;
+    const expectedCodeHash = this._expectedContractCodeHash ?? this._network?.contractCodeHash;
+    if (expectedCodeHash !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(expectedCodeHash)) {
+      throw new ValidationError('invalid contract code hash (expected 32 byte hex)');
+    }
+    return {
+      expectedAddress: expectedAddress ? normalizeAddress(expectedAddress) : undefined,
+      expectedCodeHash: expectedCodeHash?.toLowerCase(),
+    };
+  }
+}
+
+function profileSignerSource(signer: ConfigProfileSigner): (() => Account) | undefined {
+  const { privateKey, keystore, mnemonic, remote } = signer;
+  if (privateKey) return () => privateKeyToAccount(privateKey as `0x${string}`);
+  if (keystore) return () => keystoreFileSigner(keystore.path, keystore.password);
+  if (mnemonic) return () => mnemonicSigner(mnemonic.phrase, mnemonic);
+  if (remote) return () => remoteSigner(remote);
+  return undefined;
 }
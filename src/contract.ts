@@ -9,19 +9,92 @@ import {
   Account,
   GetContractReturnType,
   HttpTransport,
-  parseGwei,
+  formatUnits,
+  TransactionReceipt,
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
 } from 'viem';
 import { core4micaAbi } from './abi/core4mica';
-import { getChain } from './chain';
-import { ContractError } from './errors';
+import { explorerTxUrl, getChain } from './chain';
+import {
+  ClientClosedError,
+  ContractError,
+  ContractRevertError,
+  DoubleSpendingDetectedRevertError,
+  GracePeriodNotElapsedRevertError,
+  InsufficientAvailableRevertError,
+  InvalidSignatureRevertError,
+  NoWithdrawalRequestedRevertError,
+  TabAlreadyPaidRevertError,
+  TabExpiredRevertError,
+  TabNotYetOverdueRevertError,
+  TabPreviouslyRemuneratedRevertError,
+  UnsupportedAssetRevertError,
+  UnsupportedGuaranteeVersionRevertError,
+} from './errors';
+import { Core4MicaEventType, Core4MicaLog, core4micaEventAbi } from './events';
+import {
+  applyMultiplier,
+  bumpFees,
+  DEFAULT_GAS_POLICY,
+  estimateFees,
+  FeeValues,
+  GasPolicy,
+  ResolvedGasPolicy,
+  resolveGasPolicy,
+} from './gas';
+import type { ProtocolParameters } from './models';
+import { NonceLease, NonceManager } from './nonce';
 import { parseU256, hexFromBytes } from './utils';
 
+const REVERT_ERRORS: Record<string, typeof ContractRevertError> = {
+  InsufficientAvailable: InsufficientAvailableRevertError,
+  TabExpired: TabExpiredRevertError,
+  TabPreviouslyRemunerated: TabPreviouslyRemuneratedRevertError,
+  TabAlreadyPaid: TabAlreadyPaidRevertError,
+  TabNotYetOverdue: TabNotYetOverdueRevertError,
+  DoubleSpendingDetected: DoubleSpendingDetectedRevertError,
+  GracePeriodNotElapsed: GracePeriodNotElapsedRevertError,
+  NoWithdrawalRequested: NoWithdrawalRequestedRevertError,
+  InvalidSignature: InvalidSignatureRevertError,
+  UnsupportedGuaranteeVersion: UnsupportedGuaranteeVersionRevertError,
+  UnsupportedAsset: UnsupportedAssetRevertError,
+};
+
+/**
+ * Turn a viem error caused by a custom-error revert into the matching
+ * {@link ContractRevertError} subclass. Returns `undefined` for anything else.
+ */
+export function decodeContractRevert(
+  error: unknown,
+  context?: string
+): ContractRevertError | undefined {
+  if (error instanceof ContractRevertError) return error;
+  if (!(error instanceof BaseError)) return undefined;
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError) || !reverted.data) return undefined;
+
+  const { errorName, abiItem, args = [] } = reverted.data;
+  const inputs = 'inputs' in abiItem ? abiItem.inputs : [];
+  const named = Object.fromEntries(inputs.map((input, i) => [input.name || String(i), args[i]]));
+  const rendered = Object.entries(named)
+    .map(([name, value]) => `${name}=${String(value)}`)
+    .join(', ');
+  const message = `${context ? `${context}: ` : ''}reverted with ${errorName}(${rendered})`;
+  const ErrorClass = REVERT_ERRORS[errorName] ?? ContractRevertError;
+  return new ErrorClass(message, { errorName, args: named });
+}
+
 /**
  * Extract a human-readable message from a viem contract error, falling back
- * to the raw message if no structured reason is available.
+ * to the raw message if no structured reason is available. Custom-error reverts
+ * become {@link ContractRevertError} subclasses.
  */
 function wrapViemError(error: unknown, context: string): ContractError {
   if (error instanceof ContractError) return error;
+  const revert = decodeContractRevert(error, context);
+  if (revert) return revert;
   if (error instanceof Error) {
     const e = error as unknown as Record<string, unknown>;
     const reason =
@@ -33,6 +106,31 @@ function wrapViemError(error: unknown, context: string): ContractError {
   return new ContractError(`${context}: ${String(error)}`);
 }
 
+/** Whether `error` comes from calling Multicall3 on a chain where it is not deployed. */
+function isMissingMulticall(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk((e) => e instanceof ContractFunctionZeroDataError) instanceof
+      ContractFunctionZeroDataError
+  );
+}
+
+type UserAsset = {
+  asset: Hex;
+  collateral: bigint;
+  withdrawalRequestTimestamp: bigint;
+  withdrawalRequestAmount: bigint;
+};
+
+function toUserAsset(a: UserAsset): UserAsset {
+  return {
+    asset: a.asset,
+    collateral: a.collateral,
+    withdrawalRequestTimestamp: a.withdrawalRequestTimestamp,
+    withdrawalRequestAmount: a.withdrawalRequestAmount,
+  };
+}
+
 type TPublicClient = ReturnType<typeof createPublicClient>;
 type TWalletClient = ReturnType<typeof createWalletClient<HttpTransport, Chain, Account>>;
 
@@ -56,12 +154,80 @@ export type TxReceiptWaitOptions = {
   timeout?: number;
   pollingInterval?: number;
   gas?: bigint;
+  /**
+   * Dry-run the call before broadcasting it (defaults to the gateway setting, normally `true`).
+   * Set `false` to save the extra RPC round trip. Plain ETH transfers are never simulated.
+   */
+  simulate?: boolean;
+  /** Overrides for this call, merged over the gateway's {@link GasPolicy}. Ignored fields keep theirs. */
+  gasPolicy?: GasPolicy;
+};
+
+/** Options for {@link ContractGateway.create}. */
+export type ContractGatewayOptions = {
+  /** Skip the RPC chain ID check (used for offline construction, where no round trip is wanted). */
+  skipChainIdCheck?: boolean;
+  /** Simulate every write before broadcasting it. Defaults to `true`. */
+  simulateWrites?: boolean;
+  /** Fee and gas limit policy for writes. Defaults to {@link DEFAULT_GAS_POLICY}. */
+  gasPolicy?: GasPolicy;
+  /** Called when a pending transaction is re-broadcast, replaced or cancelled. */
+  onTransactionEvent?: (event: TransactionEvent) => void;
+  /**
+   * `'serial'` (default) submits one transaction at a time and lets the node pick nonces.
+   * `'local'` allocates nonces in the SDK so up to {@link maxInFlight} transactions can be pending
+   * at once.
+   */
+  nonceMode?: 'local' | 'serial';
+  /** Transactions sent but not yet mined at once with local nonces. Defaults to 16. */
+  maxInFlight?: number;
+};
+
+/**
+ * Lifecycle of a transaction that did not confirm as first sent.
+ *
+ * - `bumped`: the gateway re-broadcast it with the same nonce and higher fees.
+ * - `replaced`: another transaction with the same nonce was mined instead; `repriced` is `true`
+ *   when it is a fee bump of the same call (usually one the gateway sent).
+ * - `cancelled`: a zero-value self-transfer with the same nonce was mined instead.
+ */
+export type TransactionEvent =
+  | { type: 'bumped'; hash: Hex; replacement: Hex; nonce: number; fees: FeeValues }
+  | {
+      type: 'replaced';
+      hash: Hex;
+      replacement: Hex;
+      repriced: boolean;
+      receipt: TransactionReceipt;
+    }
+  | { type: 'cancelled'; hash: Hex; replacement: Hex; receipt: TransactionReceipt };
+
+/** A write the gateway is waiting on, as reported by {@link ContractGateway.pendingTransactions}. */
+export interface PendingTransaction {
+  /** Hash the caller's write was first sent with. */
+  hash: Hex;
+  /** Hash of the latest broadcast, which differs from `hash` after a fee bump. */
+  latestHash: Hex;
+  /** Account nonce, once known. */
+  nonce?: number;
+  /** When the transaction was first sent (ms since epoch). */
+  submittedAt: number;
+  /** Fee bumps sent so far. */
+  replacements: number;
+}
+
+/** Transaction receipt returned by {@link ContractGateway} writes. */
+export type TxReceipt = TransactionReceipt & {
+  /** Block explorer link for the transaction, when the chain has an explorer. */
+  explorerUrl?: string;
 };
 
+const DEFAULT_MAX_IN_FLIGHT = 16;
+const PROTOCOL_PARAMETERS_MAX_AGE_MS = 60_000;
+/** Multicall3 is deployed at this address on nearly every EVM chain. */
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
 const DEFAULT_REMUNERATE_GAS_LIMIT = 8_000_000n;
 const DEFAULT_PAY_TAB_ERC20_GAS_LIMIT = 300_000n;
-const DEFAULT_MAX_FEE_PER_GAS = parseGwei('0.1');
-const DEFAULT_MAX_PRIORITY_FEE_PER_GAS = parseGwei('0.1');
 
 export class ContractGateway {
   readonly publicClient: TPublicClient;
@@ -69,27 +235,57 @@ export class ContractGateway {
   readonly contract: CoreContract;
   private erc20Cache = new Map<string, Erc20Contract>();
   private txQueue: Promise<void> = Promise.resolve();
+  private readonly nonces?: NonceManager;
+  private leases = new Map<Hex, NonceLease>();
+  private protocolParameters?: { value: Promise<ProtocolParameters>; fetchedAt: number };
+  private pendingWrites = new Set<Promise<unknown>>();
+  private closing = false;
+  private readonly simulateWrites: boolean;
+  private readonly gasPolicy: ResolvedGasPolicy;
+  private readonly onTransactionEvent?: (event: TransactionEvent) => void;
+  private pendingTxs = new Map<Hex, PendingTransaction>();
 
   private constructor(
     publicClient: TPublicClient,
     walletClient: TWalletClient,
-    contract: CoreContract
+    contract: CoreContract,
+    options: ContractGatewayOptions = {}
   ) {
     this.publicClient = publicClient;
     this.walletClient = walletClient;
     this.contract = contract;
+    this.simulateWrites = options.simulateWrites ?? true;
+    this.gasPolicy = options.gasPolicy ? resolveGasPolicy(options.gasPolicy) : DEFAULT_GAS_POLICY;
+    this.onTransactionEvent = options.onTransactionEvent;
+    if (options.nonceMode === 'local') {
+      this.nonces = new NonceManager(
+        () => this.getNonce(),
+        options.maxInFlight ?? DEFAULT_MAX_IN_FLIGHT
+      );
+    }
   }
 
-  static async create(rpcUrl: string, signer: Account, contractAddress: Hex, chainId: number) {
+  /**
+   * Connect to the Core4Mica contract.
+   *
+   * Verifies that the Ethereum RPC reports `chainId` unless `options.skipChainIdCheck`
+   * is set. Writes are simulated before broadcast unless `options.simulateWrites` is `false`.
+   */
+  static async create(
+    rpcUrl: string,
+    signer: Account,
+    contractAddress: Hex,
+    chainId: number,
+    options?: ContractGatewayOptions
+  ) {
     const chain = getChain(chainId, rpcUrl);
 
     const publicClient = createPublicClient({
       transport: http(rpcUrl),
     });
 
-    const rpcChainId = await publicClient.getChainId();
-    if (rpcChainId !== Number(chainId)) {
-      throw new ContractError(`Connected to chain ${rpcChainId}, expected ${chainId}`);
+    if (!options?.skipChainIdCheck) {
+      await ContractGateway.checkChainId(publicClient, chainId);
     }
 
     const walletClient = createWalletClient({
@@ -107,7 +303,14 @@ export class ContractGateway {
       },
     });
 
-    return new ContractGateway(publicClient, walletClient, contract);
+    return new ContractGateway(publicClient, walletClient, contract, options);
+  }
+
+  private static async checkChainId(publicClient: TPublicClient, chainId: number): Promise<void> {
+    const rpcChainId = await publicClient.getChainId();
+    if (rpcChainId !== Number(chainId)) {
+      throw new ContractError(`Connected to chain ${rpcChainId}, expected ${chainId}`);
+    }
   }
 
   private erc20(token: string): Erc20Contract {
@@ -124,33 +327,142 @@ export class ContractGateway {
     return this.erc20Cache.get(token)!;
   }
 
-  private enqueueTx<T>(fn: () => Promise<T>): Promise<T> {
-    // Serialize transaction submissions to avoid nonce collisions.
-    const run = this.txQueue.then(fn, fn);
-    this.txQueue = run.then(
-      () => undefined,
-      () => undefined
-    );
+  /**
+   * Stop accepting writes and wait for in-flight ones (submission and receipt) to settle.
+   *
+   * @returns `true` if every write settled within `timeoutMs`, `false` if some were abandoned.
+   */
+  async drain(timeoutMs: number): Promise<boolean> {
+    this.closing = true;
+    if (this.pendingWrites.size === 0) {
+      return true;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+      return await Promise.race([
+        Promise.allSettled([...this.pendingWrites]).then(() => true),
+        timedOut,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private trackWrite<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.closing) {
+      return Promise.reject(
+        new ClientClosedError('client is closed; no new transactions accepted')
+      );
+    }
+    const run = fn().catch((error: unknown) => {
+      throw decodeContractRevert(error) ?? error;
+    });
+    this.pendingWrites.add(run);
+    const untrack = () => {
+      this.pendingWrites.delete(run);
+    };
+    run.then(untrack, untrack);
     return run;
   }
 
-  private defaultFeeParams() {
+  /**
+   * Submit a transaction. With local nonces, `fn` gets an allocated nonce and runs as soon as an
+   * in-flight slot is free; the slot is held until the receipt wait ends. In serial mode
+   * submissions run one at a time and the node picks the nonce.
+   */
+  private async enqueueTx(fn: (nonce?: number) => Promise<Hex>): Promise<Hex> {
+    if (!this.nonces) {
+      // Serialize transaction submissions to avoid nonce collisions.
+      const run = this.txQueue.then(
+        () => fn(),
+        () => fn()
+      );
+      this.txQueue = run.then(
+        () => undefined,
+        () => undefined
+      );
+      return run;
+    }
+    const lease = await this.nonces.acquire();
+    try {
+      const hash = await fn(lease.nonce);
+      this.leases.set(hash, lease);
+      return hash;
+    } catch (error) {
+      lease.release();
+      this.nonces.resync();
+      throw error;
+    }
+  }
+
+  /**
+   * Run `fn` (a `simulate.*` call) so a revert surfaces as a typed error before any gas is
+   * spent. No-op when simulation is disabled for this call or the gateway.
+   */
+  private async simulate(
+    enabled: boolean | undefined,
+    context: string,
+    fn: () => Promise<unknown>
+  ): Promise<void> {
+    if (!(enabled ?? this.simulateWrites)) {
+      return;
+    }
+    try {
+      await fn();
+    } catch (error) {
+      throw wrapViemError(error, `${context} simulation failed`);
+    }
+  }
+
+  /**
+   * Gas limit and EIP-1559 fees for a write under the gateway's {@link GasPolicy} and any
+   * per-call overrides. An explicit `gas` wins over `estimate`; `fallbackGas` is used when
+   * estimation is disabled.
+   */
+  private async txParams(
+    options: { gas?: bigint; gasPolicy?: GasPolicy; nonce?: number },
+    estimate: () => Promise<bigint>,
+    fallbackGas?: bigint
+  ): Promise<FeeValues & { gas?: bigint; nonce?: number }> {
+    const policy = this.resolveGasPolicy(options.gasPolicy);
+    let gas = options.gas;
+    if (gas === undefined && policy.estimateGas) {
+      try {
+        gas = applyMultiplier(await estimate(), policy.gasLimitMultiplier);
+      } catch (error) {
+        throw wrapViemError(error, 'gas estimation failed');
+      }
+    }
+    gas ??= fallbackGas;
+    const fees = await estimateFees(this.publicClient, policy);
     return {
-      maxFeePerGas: DEFAULT_MAX_FEE_PER_GAS,
-      maxPriorityFeePerGas: DEFAULT_MAX_PRIORITY_FEE_PER_GAS,
-    } as const;
+      ...(gas !== undefined ? { gas } : {}),
+      ...fees,
+      ...(options.nonce !== undefined ? { nonce: options.nonce } : {}),
+    };
+  }
+
+  private resolveGasPolicy(override?: GasPolicy): ResolvedGasPolicy {
+    return override ? resolveGasPolicy({ ...this.gasPolicy, ...override }) : this.gasPolicy;
   }
 
   private splitWaitOptions(waitOptions?: TxReceiptWaitOptions): {
     receipt: { timeout?: number; pollingInterval?: number };
     gas?: bigint;
+    simulate?: boolean;
+    gasPolicy?: GasPolicy;
   } {
     if (!waitOptions) {
       return { receipt: {} };
     }
-    const { gas, timeout, pollingInterval } = waitOptions;
+    const { gas, timeout, pollingInterval, simulate, gasPolicy } = waitOptions;
     return {
       gas,
+      simulate,
+      gasPolicy,
       receipt: {
         ...(timeout !== undefined ? { timeout } : {}),
         ...(pollingInterval !== undefined ? { pollingInterval } : {}),
@@ -158,10 +470,311 @@ export class ContractGateway {
     };
   }
 
+  /** Writes sent by this gateway that have not been mined yet. */
+  pendingTransactions(): PendingTransaction[] {
+    return [...this.pendingTxs.values()].map((tx) => ({ ...tx }));
+  }
+
+  /**
+   * Wait for `hash` to be mined, re-broadcasting it with bumped fees whenever it stays pending
+   * for `replaceAfterMs`, if the policy sets it. Resolves with the receipt of whichever transaction took its nonce.
+   */
+  private async waitForReceipt(
+    hash: Hex,
+    receipt: { timeout?: number; pollingInterval?: number },
+    gasPolicy?: GasPolicy
+  ): Promise<TxReceipt> {
+    const pending: PendingTransaction = {
+      hash,
+      latestHash: hash,
+      submittedAt: Date.now(),
+      replacements: 0,
+    };
+    this.pendingTxs.set(hash, pending);
+    const stopBumping = this.scheduleFeeBumps(pending, this.resolveGasPolicy(gasPolicy));
+    let minedHash = hash;
+    try {
+      const txReceipt = await this.publicClient.waitForTransactionReceipt({
+        hash,
+        ...receipt,
+        onReplaced: ({ reason, transaction, transactionReceipt }) => {
+          minedHash = transaction.hash;
+          this.emitTransactionEvent(
+            reason === 'cancelled'
+              ? {
+                  type: 'cancelled',
+                  hash,
+                  replacement: transaction.hash,
+                  receipt: transactionReceipt,
+                }
+              : {
+                  type: 'replaced',
+                  hash,
+                  replacement: transaction.hash,
+                  repriced: reason === 'repriced',
+                  receipt: transactionReceipt,
+                }
+          );
+        },
+      });
+      const explorerUrl = this.explorerTxUrl(minedHash);
+      return explorerUrl ? { ...txReceipt, explorerUrl } : txReceipt;
+    } finally {
+      stopBumping();
+      this.pendingTxs.delete(hash);
+      this.leases.get(hash)?.release();
+      this.leases.delete(hash);
+    }
+  }
+
+  private scheduleFeeBumps(pending: PendingTransaction, policy: ResolvedGasPolicy): () => void {
+    const { replaceAfterMs } = policy;
+    if (!replaceAfterMs || policy.maxReplacements === 0) {
+      return () => {};
+    }
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let original: Awaited<ReturnType<TPublicClient['getTransaction']>> | undefined;
+    let fees: FeeValues | undefined;
+
+    const bump = async (): Promise<boolean> => {
+      original ??= await this.publicClient.getTransaction({ hash: pending.hash });
+      if (original.blockNumber !== null) {
+        return false;
+      }
+      pending.nonce = original.nonce;
+      fees ??= {
+        maxFeePerGas: original.maxFeePerGas ?? original.gasPrice ?? 0n,
+        maxPriorityFeePerGas: original.maxPriorityFeePerGas ?? original.gasPrice ?? 0n,
+      };
+      const next = bumpFees(fees, await estimateFees(this.publicClient, policy), policy);
+      if (!next || stopped) {
+        return false;
+      }
+      const replacement = await this.walletClient.sendTransaction({
+        to: original.to,
+        data: original.input,
+        value: original.value,
+        gas: original.gas,
+        nonce: original.nonce,
+        ...next,
+      });
+      fees = next;
+      pending.latestHash = replacement;
+      pending.replacements += 1;
+      this.emitTransactionEvent({
+        type: 'bumped',
+        hash: pending.hash,
+        replacement,
+        nonce: original.nonce,
+        fees: next,
+      });
+      return pending.replacements < policy.maxReplacements;
+    };
+
+    const schedule = () => {
+      timer = setTimeout(() => {
+        // A failed bump (e.g. "nonce too low" because the original just got mined) is retried
+        // on the next tick; the receipt wait decides when we are done.
+        bump().then(
+          (again) => {
+            if (again && !stopped) schedule();
+          },
+          () => {
+            if (!stopped) schedule();
+          }
+        );
+      }, replaceAfterMs);
+    };
+    schedule();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  private emitTransactionEvent(event: TransactionEvent): void {
+    try {
+      this.onTransactionEvent?.(event);
+    } catch {
+      // A throwing listener must not break the write it observes.
+    }
+  }
+
+  private describeTx(hash: Hex): string {
+    const url = this.explorerTxUrl(hash);
+    return url ? `${hash} (${url})` : hash;
+  }
+
+  private formatNative(amount: bigint): string {
+    const currency = this.chain?.nativeCurrency;
+    return currency
+      ? `${formatUnits(amount, currency.decimals)} ${currency.symbol}`
+      : `${amount} wei`;
+  }
+
+  /** Chain the gateway sends transactions on, including native currency and explorer metadata. */
+  get chain(): Chain | undefined {
+    return this.walletClient.chain;
+  }
+
+  /** Block explorer link for `hash`, or `undefined` if the chain has no explorer. */
+  explorerTxUrl(hash: string): string | undefined {
+    return explorerTxUrl(this.chain, hash);
+  }
+
+  /** Chain ID reported by the Ethereum RPC. */
+  async getChainId(): Promise<number> {
+    return this.publicClient.getChainId();
+  }
+
+  /** Next nonce (pending transaction count) of `address`, defaulting to the signer. */
+  async getNonce(address?: string): Promise<number> {
+    return this.publicClient.getTransactionCount({
+      address: (address ?? this.signerAddress()) as Hex,
+      blockTag: 'pending',
+    });
+  }
+
+  /** Native currency balance of `address` in wei, defaulting to the signer. */
+  async getNativeBalance(address?: string): Promise<bigint> {
+    return this.publicClient.getBalance({ address: (address ?? this.signerAddress()) as Hex });
+  }
+
+  /** Latest block number, bypassing viem's block number cache. */
+  async getBlockNumber(): Promise<bigint> {
+    return this.publicClient.getBlockNumber({ cacheTime: 0 });
+  }
+
+  /** Hash of the canonical block at `blockNumber`. */
+  async getBlockHash(blockNumber: bigint): Promise<Hex> {
+    try {
+      const block = await this.publicClient.getBlock({ blockNumber });
+      return block.hash;
+    } catch (error) {
+      throw wrapViemError(error, `fetching block ${blockNumber} failed`);
+    }
+  }
+
+  /**
+   * Timestamp of a block (the latest by default) in unix seconds; the clock the contract's
+   * deadlines use.
+   */
+  async getBlockTimestamp(blockNumber?: bigint): Promise<number> {
+    const block = await this.publicClient.getBlock(
+      blockNumber === undefined ? { blockTag: 'latest' } : { blockNumber }
+    );
+    return Number(block.timestamp);
+  }
+
+  /**
+   * First block with a timestamp at or after `timestamp` (unix seconds), found by binary search
+   * over block timestamps. Returns the latest block number + 1 if no block is that recent.
+   */
+  async getBlockNumberAt(timestamp: number): Promise<bigint> {
+    let low = 0n;
+    let high = (await this.getBlockNumber()) + 1n;
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      if ((await this.getBlockTimestamp(mid)) < timestamp) {
+        low = mid + 1n;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /** Core4Mica logs of the given event types between two blocks (inclusive), oldest first. */
+  async getEventLogs(
+    types: readonly Core4MicaEventType[],
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<Core4MicaLog[]> {
+    try {
+      return await this.publicClient.getLogs({
+        address: this.contract.address,
+        events: core4micaEventAbi(types),
+        fromBlock,
+        toBlock,
+        strict: true,
+      });
+    } catch (error) {
+      throw wrapViemError(error, 'fetching Core4Mica logs failed');
+    }
+  }
+
+  private signerAddress(): Hex {
+    const account = this.walletClient.account;
+    if (!account) {
+      throw new ContractError('wallet client has no account configured');
+    }
+    return account.address;
+  }
+
+  /** Fetch the runtime bytecode deployed at the Core4Mica address (`undefined` if none). */
+  async getContractCode(): Promise<Hex | undefined> {
+    return this.publicClient.getCode({ address: this.contract.address });
+  }
+
   async getGuaranteeDomain(): Promise<string> {
     return this.contract.read.guaranteeDomainSeparator();
   }
 
+  /**
+   * Core4Mica timing and policy parameters. The snapshot is cached for `maxAgeMs` (default 60 s)
+   * and concurrent callers share one fetch; pass `maxAgeMs: 0` to force a refresh.
+   */
+  async getProtocolParameters(options: { maxAgeMs?: number } = {}): Promise<ProtocolParameters> {
+    const maxAgeMs = options.maxAgeMs ?? PROTOCOL_PARAMETERS_MAX_AGE_MS;
+    const cached = this.protocolParameters;
+    if (cached && Date.now() - cached.fetchedAt < maxAgeMs) {
+      return cached.value;
+    }
+    const value = this.fetchProtocolParameters();
+    this.protocolParameters = { value, fetchedAt: Date.now() };
+    value.catch(() => {
+      if (this.protocolParameters?.value === value) this.protocolParameters = undefined;
+    });
+    return value;
+  }
+
+  private async fetchProtocolParameters(): Promise<ProtocolParameters> {
+    const read = this.contract.read;
+    try {
+      const [
+        tabExpirationTime,
+        remunerationGracePeriod,
+        withdrawalGracePeriod,
+        synchronizationDelay,
+        yieldFeeBps,
+        paused,
+      ] = await Promise.all([
+        read.tabExpirationTime(),
+        read.remunerationGracePeriod(),
+        read.withdrawalGracePeriod(),
+        read.synchronizationDelay(),
+        read.yieldFeeBps(),
+        read.paused(),
+      ]);
+      return {
+        tabExpirationTime: Number(tabExpirationTime),
+        remunerationGracePeriod: Number(remunerationGracePeriod),
+        withdrawalGracePeriod: Number(withdrawalGracePeriod),
+        synchronizationDelay: Number(synchronizationDelay),
+        yieldFeeBps: Number(yieldFeeBps),
+        paused,
+      };
+    } catch (error) {
+      throw wrapViemError(error, 'reading protocol parameters failed');
+    }
+  }
+
+  /** Amount of `asset` that `user` can still have guaranteed, in base units. Not cached. */
+  async getGuaranteeCapacity(user: string, asset: string): Promise<bigint> {
+    return this.contract.read.guaranteeCapacity([user as Hex, asset as Hex]);
+  }
+
   async getGuaranteeVersionConfig(
     version: number
   ): Promise<{ domainSeparator: string; decoder: string; enabled: boolean }> {
@@ -175,53 +788,59 @@ export class ContractGateway {
     amount: number | bigint | string,
     waitOptions?: TxReceiptWaitOptions
   ) {
-    const { receipt } = this.splitWaitOptions(waitOptions);
-    const erc20 = this.erc20(token);
-    const spender = this.contract.address;
-    const targetAllowance = parseU256(amount);
-
-    const sendApprove = async (value: bigint) => {
-      const hash = await this.enqueueTx(() =>
-        erc20.write.approve([spender, value], this.defaultFeeParams())
-      );
-      const txReceipt = await this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
-      if (txReceipt.status !== 'success') {
-        throw new ContractError(`approve transaction reverted: ${hash}`);
-      }
-      return txReceipt;
-    };
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      const erc20 = this.erc20(token);
+      const spender = this.contract.address;
+      const targetAllowance = parseU256(amount);
 
-    let txReceipt;
-    try {
-      txReceipt = await sendApprove(targetAllowance);
-    } catch (error) {
-      // Some ERC20s (e.g. USDT) require resetting allowance to zero before
-      // setting a new non-zero value.
-      if (targetAllowance === 0n) {
-        throw wrapViemError(error, 'ERC20 approve failed');
-      }
+      const sendApprove = async (value: bigint) => {
+        await this.simulate(simulate, 'approve', () => erc20.simulate.approve([spender, value]));
+        const hash = await this.enqueueTx(async (nonce) =>
+          erc20.write.approve(
+            [spender, value],
+            await this.txParams({ ...tx, nonce }, () => erc20.estimateGas.approve([spender, value]))
+          )
+        );
+        const txReceipt = await this.waitForReceipt(hash, receipt, tx.gasPolicy);
+        if (txReceipt.status !== 'success') {
+          throw new ContractError(`approve transaction reverted: ${this.describeTx(hash)}`);
+        }
+        return txReceipt;
+      };
+
+      let txReceipt;
       try {
-        await sendApprove(0n);
         txReceipt = await sendApprove(targetAllowance);
-      } catch (retryError) {
-        throw wrapViemError(retryError, 'ERC20 approve failed after allowance reset');
+      } catch (error) {
+        // Some ERC20s (e.g. USDT) require resetting allowance to zero before
+        // setting a new non-zero value.
+        if (targetAllowance === 0n) {
+          throw wrapViemError(error, 'ERC20 approve failed');
+        }
+        try {
+          await sendApprove(0n);
+          txReceipt = await sendApprove(targetAllowance);
+        } catch (retryError) {
+          throw wrapViemError(retryError, 'ERC20 approve failed after allowance reset');
+        }
       }
-    }
 
-    // Verify the allowance was actually set on-chain. The catch path above can
-    // leave allowance at 0 if the re-approve transaction fails silently.
-    const account = this.walletClient.account;
-    if (account) {
-      const actual = await (erc20 as Erc20Contract).read.allowance([account.address, spender]);
-      if ((actual as bigint) < targetAllowance) {
-        throw new ContractError(
-          `ERC20 allowance verification failed: on-chain allowance is ${actual} but expected ${targetAllowance}. ` +
-            `Try calling approveErc20 again.`
-        );
+      // Verify the allowance was actually set on-chain. The catch path above can
+      // leave allowance at 0 if the re-approve transaction fails silently.
+      const account = this.walletClient.account;
+      if (account) {
+        const actual = await (erc20 as Erc20Contract).read.allowance([account.address, spender]);
+        if ((actual as bigint) < targetAllowance) {
+          throw new ContractError(
+            `ERC20 allowance verification failed: on-chain allowance is ${actual} but expected ${targetAllowance}. ` +
+              `Try calling approveErc20 again.`
+          );
+        }
       }
-    }
 
-    return txReceipt;
+      return txReceipt;
+    });
   }
 
   async deposit(
@@ -229,63 +848,152 @@ export class ContractGateway {
     erc20Token?: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
-    const { receipt } = this.splitWaitOptions(waitOptions);
-    const parsedAmount = parseU256(amount);
-    let hash: Hex;
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      const parsedAmount = parseU256(amount);
+      let hash: Hex;
 
-    if (erc20Token) {
-      // Pre-check allowance to surface a clear error before hitting the contract.
-      const account = this.walletClient.account;
-      if (account) {
-        const erc20 = this.erc20(erc20Token);
-        const allowance = await (erc20 as Erc20Contract).read.allowance([
-          account.address,
-          this.contract.address,
-        ]);
-        if ((allowance as bigint) < parsedAmount) {
-          throw new ContractError(
-            `Insufficient ERC20 allowance: ${allowance} approved but ${parsedAmount} required. ` +
-              `Call approveErc20("${erc20Token}", ${parsedAmount}) before depositing.`
-          );
+      if (erc20Token) {
+        // Pre-check allowance to surface a clear error before hitting the contract.
+        const account = this.walletClient.account;
+        if (account) {
+          const erc20 = this.erc20(erc20Token);
+          const allowance = await (erc20 as Erc20Contract).read.allowance([
+            account.address,
+            this.contract.address,
+          ]);
+          if ((allowance as bigint) < parsedAmount) {
+            throw new ContractError(
+              `Insufficient ERC20 allowance: ${allowance} approved but ${parsedAmount} required. ` +
+                `Call approveErc20("${erc20Token}", ${parsedAmount}) before depositing.`
+            );
+          }
         }
-      }
 
-      try {
-        hash = await this.enqueueTx(() =>
-          this.contract.write.depositStablecoin(
-            [erc20Token as Hex, parsedAmount],
-            this.defaultFeeParams()
-          )
+        await this.simulate(simulate, 'depositStablecoin', () =>
+          this.contract.simulate.depositStablecoin([erc20Token as Hex, parsedAmount])
         );
-      } catch (error) {
-        throw wrapViemError(error, 'depositStablecoin failed');
-      }
-    } else {
-      try {
-        hash = await this.enqueueTx(() =>
-          this.contract.write.deposit({ value: parsedAmount, ...this.defaultFeeParams() })
+        try {
+          const args = [erc20Token as Hex, parsedAmount] as const;
+          hash = await this.enqueueTx(async (nonce) =>
+            this.contract.write.depositStablecoin(
+              args,
+              await this.txParams({ ...tx, nonce }, () =>
+                this.contract.estimateGas.depositStablecoin(args)
+              )
+            )
+          );
+        } catch (error) {
+          throw wrapViemError(error, 'depositStablecoin failed');
+        }
+      } else {
+        await this.simulate(simulate, 'deposit', () =>
+          this.contract.simulate.deposit({ value: parsedAmount })
         );
-      } catch (error) {
-        throw wrapViemError(error, 'deposit failed');
+        try {
+          hash = await this.enqueueTx(async (nonce) =>
+            this.contract.write.deposit({
+              value: parsedAmount,
+              ...(await this.txParams({ ...tx, nonce }, () =>
+                this.contract.estimateGas.deposit({ value: parsedAmount })
+              )),
+            })
+          );
+        } catch (error) {
+          throw wrapViemError(error, `deposit of ${this.formatNative(parsedAmount)} failed`);
+        }
       }
-    }
 
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+      return this.waitForReceipt(hash, receipt, tx.gasPolicy);
+    });
   }
 
-  async getUserAssets() {
-    const account = this.walletClient.account;
-    if (!account) {
+  async getUserAssets(address?: string) {
+    const addr = (address as Hex | undefined) ?? this.walletClient.account?.address;
+    if (!addr) {
       throw new ContractError('wallet client has no account configured');
     }
-    const addr = account.address;
     const result = await this.contract.read.getUserAllAssets([addr]);
-    return result.map((a) => ({
-      asset: a.asset,
-      collateral: a.collateral,
-      withdrawalRequestTimestamp: a.withdrawalRequestTimestamp,
-      withdrawalRequestAmount: a.withdrawalRequestAmount,
-    }));
+    return result.map(toUserAsset);
+  }
+
+  /**
+   * {@link getUserAssets} for many accounts, batched into Multicall3 calls.
+   *
+   * @returns One asset list per address, in input order.
+   */
+  async getUsersAssets(addresses: string[]) {
+    if (addresses.length === 0) return [];
+    const calls = addresses.map((address) => [address as Hex] as const);
+    const results = await this.batchRead(
+      'getUserAllAssets',
+      (multicallAddress) =>
+        this.publicClient.multicall({
+          contracts: calls.map(
+            (args) =>
+              ({
+                address: this.contract.address,
+                abi: core4micaAbi,
+                functionName: 'getUserAllAssets',
+                args,
+              }) as const
+          ),
+          allowFailure: false,
+          multicallAddress,
+        }),
+      () => Promise.all(calls.map((args) => this.contract.read.getUserAllAssets(args)))
+    );
+    return results.map((assets) => assets.map(toUserAsset));
+  }
+
+  /**
+   * {@link getPaymentStatus} for many tabs, batched into Multicall3 calls.
+   *
+   * @returns One status per tab, in input order.
+   */
+  async getPaymentStatuses(
+    tabIds: Array<number | bigint>
+  ): Promise<Array<{ paid: bigint; remunerated: boolean; asset: Hex }>> {
+    if (tabIds.length === 0) return [];
+    const calls = tabIds.map((tabId) => [parseU256(tabId)] as const);
+    const results = await this.batchRead(
+      'getPaymentStatus',
+      (multicallAddress) =>
+        this.publicClient.multicall({
+          contracts: calls.map(
+            (args) =>
+              ({
+                address: this.contract.address,
+                abi: core4micaAbi,
+                functionName: 'getPaymentStatus',
+                args,
+              }) as const
+          ),
+          allowFailure: false,
+          multicallAddress,
+        }),
+      () => Promise.all(calls.map((args) => this.contract.read.getPaymentStatus(args)))
+    );
+    return results.map(([paid, remunerated, asset]) => ({ paid, remunerated, asset }));
+  }
+
+  /**
+   * Run a batched read through Multicall3, falling back to parallel single calls when the chain
+   * has no Multicall3 deployment (e.g. a local devnet).
+   */
+  private async batchRead<T>(
+    functionName: string,
+    multicall: (multicallAddress: Hex) => Promise<T[]>,
+    single: () => Promise<T[]>
+  ): Promise<T[]> {
+    try {
+      return await multicall(this.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS);
+    } catch (error) {
+      if (!isMissingMulticall(error)) {
+        throw wrapViemError(error, `batched ${functionName} failed`);
+      }
+    }
+    return single();
   }
 
   async getPaymentStatus(tabId: number | bigint): Promise<{
@@ -311,19 +1019,26 @@ export class ContractGateway {
     recipient: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
-    const { receipt } = this.splitWaitOptions(waitOptions);
-    const data = new TextEncoder().encode(
-      `tab_id:${tabId.toString(16)};req_id:${reqId.toString(16)}`
-    );
-    const hash = await this.enqueueTx(() =>
-      this.walletClient.sendTransaction({
+    return this.trackWrite(async () => {
+      const { receipt, gas, gasPolicy } = this.splitWaitOptions(waitOptions);
+      const data = new TextEncoder().encode(
+        `tab_id:${tabId.toString(16)};req_id:${reqId.toString(16)}`
+      );
+      const transfer = {
         to: recipient as Hex,
         value: parseU256(amount),
         data: hexFromBytes(data),
-        ...this.defaultFeeParams(),
-      })
-    );
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+      };
+      const hash = await this.enqueueTx(async (nonce) =>
+        this.walletClient.sendTransaction({
+          ...transfer,
+          ...(await this.txParams({ gas, gasPolicy, nonce }, () =>
+            this.publicClient.estimateGas({ ...transfer, account: this.walletClient.account })
+          )),
+        })
+      );
+      return this.waitForReceipt(hash, receipt, gasPolicy);
+    });
   }
 
   async payTabErc20(
@@ -333,18 +1048,30 @@ export class ContractGateway {
     recipient: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
-    const { gas, receipt } = this.splitWaitOptions(waitOptions);
-    const hash = await this.enqueueTx(() =>
-      this.contract.write.payTabInERC20Token(
-        [parseU256(tabId), erc20Token as Hex, parseU256(amount), recipient as Hex],
-        {
-          gas: gas ?? DEFAULT_PAY_TAB_ERC20_GAS_LIMIT,
-          ...this.defaultFeeParams(),
-        }
-      )
-    );
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      const args = [
+        parseU256(tabId),
+        erc20Token as Hex,
+        parseU256(amount),
+        recipient as Hex,
+      ] as const;
+      await this.simulate(simulate, 'payTabInERC20Token', () =>
+        this.contract.simulate.payTabInERC20Token(args)
+      );
+      const hash = await this.enqueueTx(async (nonce) =>
+        this.contract.write.payTabInERC20Token(
+          args,
+          await this.txParams(
+            { ...tx, nonce },
+            () => this.contract.estimateGas.payTabInERC20Token(args),
+            DEFAULT_PAY_TAB_ERC20_GAS_LIMIT
+          )
+        )
+      );
 
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+      return this.waitForReceipt(hash, receipt, tx.gasPolicy);
+    });
   }
 
   async requestWithdrawal(
@@ -352,53 +1079,109 @@ export class ContractGateway {
     erc20Token?: string,
     waitOptions?: TxReceiptWaitOptions
   ) {
-    const { receipt } = this.splitWaitOptions(waitOptions);
-    const value = parseU256(amount);
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      const value = parseU256(amount);
 
-    let hash: Hex;
-    if (erc20Token) {
-      hash = await this.enqueueTx(() =>
-        this.contract.write.requestWithdrawal([erc20Token as Hex, value], this.defaultFeeParams())
-      );
-    } else {
-      hash = await this.enqueueTx(() =>
-        this.contract.write.requestWithdrawal([value], this.defaultFeeParams())
-      );
-    }
+      let hash: Hex;
+      if (erc20Token) {
+        await this.simulate(simulate, 'requestWithdrawal', () =>
+          this.contract.simulate.requestWithdrawal([erc20Token as Hex, value])
+        );
+        hash = await this.enqueueTx(async (nonce) =>
+          this.contract.write.requestWithdrawal(
+            [erc20Token as Hex, value],
+            await this.txParams({ ...tx, nonce }, () =>
+              this.contract.estimateGas.requestWithdrawal([erc20Token as Hex, value], {
+                account: this.walletClient.account,
+              })
+            )
+          )
+        );
+      } else {
+        await this.simulate(simulate, 'requestWithdrawal', () =>
+          this.contract.simulate.requestWithdrawal([value])
+        );
+        hash = await this.enqueueTx(async (nonce) =>
+          this.contract.write.requestWithdrawal(
+            [value],
+            await this.txParams({ ...tx, nonce }, () =>
+              this.contract.estimateGas.requestWithdrawal([value], {
+                account: this.walletClient.account,
+              })
+            )
+          )
+        );
+      }
 
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+      return this.waitForReceipt(hash, receipt, tx.gasPolicy);
+    });
   }
 
   async cancelWithdrawal(erc20Token?: string, waitOptions?: TxReceiptWaitOptions) {
-    const { receipt } = this.splitWaitOptions(waitOptions);
-    let hash: Hex;
-    if (erc20Token) {
-      hash = await this.enqueueTx(() =>
-        this.contract.write.cancelWithdrawal([erc20Token as Hex], this.defaultFeeParams())
-      );
-    } else {
-      hash = await this.enqueueTx(() =>
-        this.contract.write.cancelWithdrawal(this.defaultFeeParams())
-      );
-    }
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      let hash: Hex;
+      if (erc20Token) {
+        await this.simulate(simulate, 'cancelWithdrawal', () =>
+          this.contract.simulate.cancelWithdrawal([erc20Token as Hex])
+        );
+        hash = await this.enqueueTx(async (nonce) =>
+          this.contract.write.cancelWithdrawal(
+            [erc20Token as Hex],
+            await this.txParams({ ...tx, nonce }, () =>
+              this.contract.estimateGas.cancelWithdrawal([erc20Token as Hex])
+            )
+          )
+        );
+      } else {
+        await this.simulate(simulate, 'cancelWithdrawal', () =>
+          this.contract.simulate.cancelWithdrawal()
+        );
+        hash = await this.enqueueTx(async (nonce) =>
+          this.contract.write.cancelWithdrawal(
+            await this.txParams({ ...tx, nonce }, () =>
+              this.contract.estimateGas.cancelWithdrawal()
+            )
+          )
+        );
+      }
 
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+      return this.waitForReceipt(hash, receipt, tx.gasPolicy);
+    });
   }
 
   async finalizeWithdrawal(erc20Token?: string, waitOptions?: TxReceiptWaitOptions) {
-    const { receipt } = this.splitWaitOptions(waitOptions);
-    let hash: Hex;
-    if (erc20Token) {
-      hash = await this.enqueueTx(() =>
-        this.contract.write.finalizeWithdrawal([erc20Token as Hex], this.defaultFeeParams())
-      );
-    } else {
-      hash = await this.enqueueTx(() =>
-        this.contract.write.finalizeWithdrawal(this.defaultFeeParams())
-      );
-    }
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      let hash: Hex;
+      if (erc20Token) {
+        await this.simulate(simulate, 'finalizeWithdrawal', () =>
+          this.contract.simulate.finalizeWithdrawal([erc20Token as Hex])
+        );
+        hash = await this.enqueueTx(async (nonce) =>
+          this.contract.write.finalizeWithdrawal(
+            [erc20Token as Hex],
+            await this.txParams({ ...tx, nonce }, () =>
+              this.contract.estimateGas.finalizeWithdrawal([erc20Token as Hex])
+            )
+          )
+        );
+      } else {
+        await this.simulate(simulate, 'finalizeWithdrawal', () =>
+          this.contract.simulate.finalizeWithdrawal()
+        );
+        hash = await this.enqueueTx(async (nonce) =>
+          this.contract.write.finalizeWithdrawal(
+            await this.txParams({ ...tx, nonce }, () =>
+              this.contract.estimateGas.finalizeWithdrawal()
+            )
+          )
+        );
+      }
 
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+      return this.waitForReceipt(hash, receipt, tx.gasPolicy);
+    });
   }
 
   async remunerate(
@@ -406,23 +1189,31 @@ export class ContractGateway {
     signatureWords: Uint8Array[],
     waitOptions?: TxReceiptWaitOptions
   ) {
-    const { gas, receipt } = this.splitWaitOptions(waitOptions);
-    const sigStruct = {
-      x_c0_a: hexFromBytes(signatureWords[0]),
-      x_c0_b: hexFromBytes(signatureWords[1]),
-      x_c1_a: hexFromBytes(signatureWords[2]),
-      x_c1_b: hexFromBytes(signatureWords[3]),
-      y_c0_a: hexFromBytes(signatureWords[4]),
-      y_c0_b: hexFromBytes(signatureWords[5]),
-      y_c1_a: hexFromBytes(signatureWords[6]),
-      y_c1_b: hexFromBytes(signatureWords[7]),
-    };
-    const hash = await this.enqueueTx(() =>
-      this.contract.write.remunerate([hexFromBytes(claimsBlob), sigStruct], {
-        gas: gas ?? DEFAULT_REMUNERATE_GAS_LIMIT,
-        ...this.defaultFeeParams(),
-      })
-    );
-    return this.publicClient.waitForTransactionReceipt({ hash, ...receipt });
+    return this.trackWrite(async () => {
+      const { receipt, simulate, ...tx } = this.splitWaitOptions(waitOptions);
+      const sigStruct = {
+        x_c0_a: hexFromBytes(signatureWords[0]),
+        x_c0_b: hexFromBytes(signatureWords[1]),
+        x_c1_a: hexFromBytes(signatureWords[2]),
+        x_c1_b: hexFromBytes(signatureWords[3]),
+        y_c0_a: hexFromBytes(signatureWords[4]),
+        y_c0_b: hexFromBytes(signatureWords[5]),
+        y_c1_a: hexFromBytes(signatureWords[6]),
+        y_c1_b: hexFromBytes(signatureWords[7]),
+      };
+      const args = [hexFromBytes(claimsBlob), sigStruct] as const;
+      await this.simulate(simulate, 'remunerate', () => this.contract.simulate.remunerate(args));
+      const hash = await this.enqueueTx(async (nonce) =>
+        this.contract.write.remunerate(
+          args,
+          await this.txParams(
+            { ...tx, nonce },
+            () => this.contract.estimateGas.remunerate(args),
+            DEFAULT_REMUNERATE_GAS_LIMIT
+          )
+        )
+      );
+      return this.waitForReceipt(hash, receipt, tx.gasPolicy);
+    });
   }
 }
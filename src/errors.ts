@@ -9,27 +9,212 @@ export class FourMicaError extends Error {
 /** Thrown when the SDK configuration is invalid (e.g. missing required fields or bad URL). */
 export class ConfigError extends FourMicaError {}
 
-/** Thrown when a 4Mica core RPC call fails. Includes the HTTP status and raw response body. */
+/** Fields shared by {@link RpcError} and its subclasses. */
+export interface RpcErrorOptions {
+  status?: number;
+  body?: unknown;
+  attempts?: number;
+  /** Machine-readable error code from core's payload, e.g. `TAB_NOT_FOUND`. */
+  code?: string;
+}
+
+/**
+ * Thrown when a 4Mica core RPC call fails. Includes the HTTP status, raw response body and the
+ * number of attempts made under the retry policy.
+ *
+ * Errors core reports with a known code are raised as a subclass with structured fields
+ * (e.g. {@link InsufficientCollateralError}); branch on the class rather than the message.
+ */
 export class RpcError extends FourMicaError {
   readonly status?: number;
   readonly body?: unknown;
+  readonly attempts?: number;
+  readonly code?: string;
 
-  constructor(message: string, options?: { status?: number; body?: unknown }) {
+  constructor(message: string, options?: RpcErrorOptions) {
     super(message);
     this.status = options?.status;
     this.body = options?.body;
+    this.attempts = options?.attempts;
+    this.code = options?.code;
+  }
+}
+
+/** Core rejected a guarantee because the payer's free collateral does not cover it. */
+export class InsufficientCollateralError extends RpcError {
+  /** Collateral the guarantee needs, in base units. */
+  readonly required?: bigint;
+  /** Collateral currently available, in base units. */
+  readonly available?: bigint;
+  readonly asset?: string;
+
+  constructor(
+    message: string,
+    options?: RpcErrorOptions & { required?: bigint; available?: bigint; asset?: string }
+  ) {
+    super(message, options);
+    this.required = options?.required;
+    this.available = options?.available;
+    this.asset = options?.asset;
+  }
+}
+
+/** The referenced tab does not exist. */
+export class TabNotFoundError extends RpcError {
+  readonly tabId?: bigint;
+
+  constructor(message: string, options?: RpcErrorOptions & { tabId?: bigint }) {
+    super(message, options);
+    this.tabId = options?.tabId;
+  }
+}
+
+/** The referenced tab has passed its TTL and no longer accepts guarantees. */
+export class TabExpiredError extends RpcError {
+  readonly tabId?: bigint;
+  /** Expiry as Unix seconds. */
+  readonly expiredAt?: number;
+
+  constructor(message: string, options?: RpcErrorOptions & { tabId?: bigint; expiredAt?: number }) {
+    super(message, options);
+    this.tabId = options?.tabId;
+    this.expiredAt = options?.expiredAt;
+  }
+}
+
+/** The request ID was already used for different claims, or is not the next one expected. */
+export class ReqIdConflictError extends RpcError {
+  readonly tabId?: bigint;
+  readonly reqId?: bigint;
+  /** Request ID core expected next, when reported. */
+  readonly expectedReqId?: bigint;
+
+  constructor(
+    message: string,
+    options?: RpcErrorOptions & { tabId?: bigint; reqId?: bigint; expectedReqId?: bigint }
+  ) {
+    super(message, options);
+    this.tabId = options?.tabId;
+    this.reqId = options?.reqId;
+    this.expectedReqId = options?.expectedReqId;
   }
 }
 
+/** The payer has been suspended by an operator. */
+export class UserSuspendedError extends RpcError {
+  readonly userAddress?: string;
+
+  constructor(message: string, options?: RpcErrorOptions & { userAddress?: string }) {
+    super(message, options);
+    this.userAddress = options?.userAddress;
+  }
+}
+
+/** Core does not accept the requested guarantee version. */
+export class UnsupportedGuaranteeVersionError extends RpcError {
+  readonly version?: number;
+  readonly supportedVersions?: number[];
+
+  constructor(
+    message: string,
+    options?: RpcErrorOptions & { version?: number; supportedVersions?: number[] }
+  ) {
+    super(message, options);
+    this.version = options?.version;
+    this.supportedVersions = options?.supportedVersions;
+  }
+}
+
+/** Core is rate limiting this client (HTTP 429). */
+export class RateLimitedError extends RpcError {
+  /** Delay requested through `Retry-After` or the payload, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options?: RpcErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+/** Thrown when a request or transaction is started after, or aborted by, `Client.aclose()`. */
+export class ClientClosedError extends FourMicaError {}
+
+/** Thrown when a write operation is called on a watch-only client (see `ConfigBuilder.watchOnly`). */
+export class ReadOnlyClientError extends FourMicaError {}
+
 /** Thrown when the SDK client fails to initialise (e.g. chain ID mismatch). */
 export class ClientInitializationError extends FourMicaError {}
 
 /** Thrown when signing a payment claim fails (e.g. unsupported scheme, address mismatch). */
 export class SigningError extends FourMicaError {}
 
+/** Thrown when a `waitFor…` helper does not see its condition within the `timeout`. */
+export class WaitTimeoutError extends FourMicaError {}
+
+/** Thrown when a checkpoint store cannot read or write an event indexer checkpoint. */
+export class CheckpointError extends FourMicaError {}
+
 /** Thrown when an on-chain contract call fails or returns an unexpected result. */
 export class ContractError extends FourMicaError {}
 
+/**
+ * A Core4Mica call reverted with a custom error declared in the contract ABI. Known errors are
+ * raised as a subclass (e.g. {@link TabExpiredRevertError}); others as this class.
+ */
+export class ContractRevertError extends ContractError {
+  /** Solidity error name, e.g. `TabExpired`. */
+  readonly errorName: string;
+  /** Decoded error arguments keyed by ABI parameter name. */
+  readonly args: Record<string, unknown>;
+
+  constructor(message: string, options: { errorName: string; args?: Record<string, unknown> }) {
+    super(message);
+    this.errorName = options.errorName;
+    this.args = options.args ?? {};
+  }
+}
+
+/** `InsufficientAvailable()`: the payer's unlocked collateral does not cover the operation. */
+export class InsufficientAvailableRevertError extends ContractRevertError {}
+
+/** `TabExpired()`: the tab is past its expiry. */
+export class TabExpiredRevertError extends ContractRevertError {}
+
+/** `TabPreviouslyRemunerated()`: the tab was already remunerated. */
+export class TabPreviouslyRemuneratedRevertError extends ContractRevertError {}
+
+/** `TabAlreadyPaid()`: the tab was already paid in full. */
+export class TabAlreadyPaidRevertError extends ContractRevertError {}
+
+/** `TabNotYetOverdue()`: remuneration was attempted before the tab became overdue. */
+export class TabNotYetOverdueRevertError extends ContractRevertError {}
+
+/** `DoubleSpendingDetected()`: the guarantee would spend collateral that is already committed. */
+export class DoubleSpendingDetectedRevertError extends ContractRevertError {}
+
+/** `GracePeriodNotElapsed()`: the withdrawal timelock has not elapsed yet. */
+export class GracePeriodNotElapsedRevertError extends ContractRevertError {}
+
+/** `NoWithdrawalRequested()`: there is no pending withdrawal to cancel or finalise. */
+export class NoWithdrawalRequestedRevertError extends ContractRevertError {}
+
+/** `InvalidSignature()`: the BLS guarantee signature did not verify on-chain. */
+export class InvalidSignatureRevertError extends ContractRevertError {}
+
+/** `UnsupportedGuaranteeVersion(uint64 version)`: the contract has no decoder for the version. */
+export class UnsupportedGuaranteeVersionRevertError extends ContractRevertError {
+  get version(): bigint | undefined {
+    return this.args.version as bigint | undefined;
+  }
+}
+
+/** `UnsupportedAsset(address asset)`: the asset is not accepted as collateral. */
+export class UnsupportedAssetRevertError extends ContractRevertError {
+  get asset(): string | undefined {
+    return this.args.asset as string | undefined;
+  }
+}
+
 /** Thrown when BLS certificate verification fails (e.g. domain mismatch, invalid encoding). */
 export class VerificationError extends FourMicaError {}
 
@@ -0,0 +1,157 @@
+import type { GetLogsReturnType, Hex } from 'viem';
+import { core4micaAbi } from './abi/core4mica';
+import { normalizeAddress, parseU256, ValidationError } from './utils';
+
+/** Core4Mica events the SDK decodes. */
+export const CORE4MICA_EVENT_TYPES = [
+  'CollateralDeposited',
+  'WithdrawalRequested',
+  'WithdrawalCanceled',
+  'CollateralWithdrawn',
+  'PaymentRecorded',
+  'TabPaid',
+  'RecipientRemunerated',
+  'Paused',
+  'GuaranteeVersionUpdated',
+] as const;
+
+export type Core4MicaEventType = (typeof CORE4MICA_EVENT_TYPES)[number];
+
+type Core4MicaEventAbi = Extract<
+  (typeof core4micaAbi)[number],
+  { type: 'event'; name: Core4MicaEventType }
+>;
+
+/** Raw log returned by `eth_getLogs` for the Core4Mica events, decoded by viem. */
+export type Core4MicaLog = GetLogsReturnType<undefined, Core4MicaEventAbi[], true>[number];
+
+/** Where an event was emitted. */
+export interface EventMetadata {
+  blockNumber: bigint;
+  blockHash: Hex;
+  transactionHash: Hex;
+  logIndex: number;
+  /**
+   * `true` when a chain reorganisation dropped an event that was delivered earlier. Only
+   * {@link EventsClient.watch} emits removed events; historical queries always return `false`.
+   */
+  removed: boolean;
+}
+
+/** A decoded Core4Mica event. Switch on `type` to narrow the payload. */
+export type Core4MicaEvent = EventMetadata &
+  (
+    | { type: 'CollateralDeposited'; user: Hex; asset: Hex; amount: bigint }
+    | { type: 'WithdrawalRequested'; user: Hex; asset: Hex; when: number; amount: bigint }
+    | { type: 'WithdrawalCanceled'; user: Hex; asset: Hex }
+    | { type: 'CollateralWithdrawn'; user: Hex; asset: Hex; amount: bigint }
+    | { type: 'PaymentRecorded'; tabId: bigint; asset: Hex; amount: bigint }
+    | { type: 'TabPaid'; tabId: bigint; asset: Hex; user: Hex; recipient: Hex; amount: bigint }
+    | { type: 'RecipientRemunerated'; tabId: bigint; asset: Hex; amount: bigint }
+    | { type: 'Paused'; account: Hex }
+    | {
+        type: 'GuaranteeVersionUpdated';
+        version: number;
+        verificationKey: { x_a: Hex; x_b: Hex; y_a: Hex; y_b: Hex };
+        domainSeparator: Hex;
+        decoder: Hex;
+        enabled: boolean;
+      }
+  );
+
+/**
+ * Selects events by type and participant. Every field that is set must match, so an event
+ * without the field (e.g. `PaymentRecorded` has no `user`) is excluded by it.
+ */
+export interface EventFilter {
+  /** Event types to include. Defaults to all of {@link CORE4MICA_EVENT_TYPES}. */
+  types?: Core4MicaEventType[];
+  /** Payer address. */
+  user?: string;
+  /** Recipient address; only `TabPaid` carries one. */
+  recipient?: string;
+  tabId?: number | bigint | string;
+}
+
+/** A validated {@link EventFilter}, see {@link resolveEventFilter}. */
+export interface ResolvedEventFilter {
+  types: readonly Core4MicaEventType[];
+  user?: string;
+  recipient?: string;
+  tabId?: bigint;
+}
+
+/**
+ * Normalize the addresses and tab id of an {@link EventFilter}.
+ *
+ * @throws {@link ValidationError} for unknown event types or malformed values.
+ */
+export function resolveEventFilter(filter: EventFilter = {}): ResolvedEventFilter {
+  const types = filter.types ?? CORE4MICA_EVENT_TYPES;
+  const unknown = types.filter((t) => !CORE4MICA_EVENT_TYPES.includes(t));
+  if (unknown.length > 0) {
+    throw new ValidationError(`unknown event types: ${unknown.join(', ')}`);
+  }
+  return {
+    types,
+    user: filter.user !== undefined ? normalizeAddress(filter.user) : undefined,
+    recipient: filter.recipient !== undefined ? normalizeAddress(filter.recipient) : undefined,
+    tabId: filter.tabId !== undefined ? parseU256(filter.tabId) : undefined,
+  };
+}
+
+/** ABI items of the given Core4Mica events, for `eth_getLogs`. */
+export function core4micaEventAbi(types: readonly Core4MicaEventType[]): Core4MicaEventAbi[] {
+  return core4micaAbi.filter(
+    (item): item is Core4MicaEventAbi =>
+      item.type === 'event' && (types as readonly string[]).includes(item.name)
+  );
+}
+
+/** Turn a viem-decoded Core4Mica log into a {@link Core4MicaEvent}. */
+export function decodeCore4MicaLog(log: Core4MicaLog): Core4MicaEvent {
+  const meta: EventMetadata = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    removed: false,
+  };
+  switch (log.eventName) {
+    case 'WithdrawalRequested':
+      return { ...meta, type: log.eventName, ...log.args, when: Number(log.args.when) };
+    case 'GuaranteeVersionUpdated':
+      return { ...meta, type: log.eventName, ...log.args, version: Number(log.args.version) };
+    case 'CollateralDeposited':
+    case 'CollateralWithdrawn':
+      return { ...meta, type: log.eventName, ...log.args };
+    case 'WithdrawalCanceled':
+      return { ...meta, type: log.eventName, ...log.args };
+    case 'PaymentRecorded':
+    case 'RecipientRemunerated':
+      return { ...meta, type: log.eventName, ...log.args };
+    case 'TabPaid':
+      return { ...meta, type: log.eventName, ...log.args };
+    case 'Paused':
+      return { ...meta, type: log.eventName, ...log.args };
+  }
+}
+
+/** Whether `event` passes `filter`. */
+export function matchesEventFilter(event: Core4MicaEvent, filter: ResolvedEventFilter): boolean {
+  if (!filter.types.includes(event.type)) return false;
+  const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  if (filter.user !== undefined && !('user' in event && sameAddress(event.user, filter.user))) {
+    return false;
+  }
+  if (
+    filter.recipient !== undefined &&
+    !('recipient' in event && sameAddress(event.recipient, filter.recipient))
+  ) {
+    return false;
+  }
+  if (filter.tabId !== undefined && !('tabId' in event && event.tabId === filter.tabId)) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,187 @@
+import type { FeeHistory } from 'viem';
+import { ValidationError } from './utils';
+
+/** EIP-1559 fee fields sent with a transaction, in wei. */
+export interface FeeValues {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/** Custom fee source, e.g. a gas station API. Called once per transaction. */
+export type FeeEstimator = () => Promise<FeeValues>;
+
+/**
+ * How {@link ContractGateway} prices and sizes transactions.
+ *
+ * Fees come from `eth_feeHistory` by default: the priority fee is the average reward at
+ * `priorityFeePercentile` over the last `feeHistoryBlocks` blocks, and the max fee is the next
+ * base fee times `baseFeeMultiplier` plus that priority fee.
+ */
+export interface GasPolicy {
+  /** `'feeHistory'` (default), fixed fee values, or a custom {@link FeeEstimator}. */
+  fees?: 'feeHistory' | FeeValues | FeeEstimator;
+  /** Blocks sampled from `eth_feeHistory`. Defaults to 10. */
+  feeHistoryBlocks?: number;
+  /** Reward percentile (0–100) used for the priority fee. Defaults to 50. */
+  priorityFeePercentile?: number;
+  /** Headroom on the next base fee, so the transaction survives base fee increases. Defaults to 2. */
+  baseFeeMultiplier?: number;
+  /**
+   * Estimate each write's gas limit with `eth_estimateGas` (default). When `false`, the SDK's
+   * fixed limits are used for `remunerate` and `payTabInERC20Token` and the node picks the rest.
+   */
+  estimateGas?: boolean;
+  /** Safety multiplier applied to gas estimates. Defaults to 1.2. */
+  gasLimitMultiplier?: number;
+  /** Upper bound for `maxFeePerGas` in wei; higher estimates and fee bumps are clamped to it. */
+  maxFeeCap?: bigint;
+  /**
+   * Milliseconds a transaction may stay unconfirmed before it is re-broadcast with the same
+   * nonce and bumped fees. Unset (the default) or `0` disables replacement; set it to opt in.
+   */
+  replaceAfterMs?: number;
+  /** Fee increase per replacement in percent. Nodes require at least 10. Defaults to 20. */
+  feeBumpPercent?: number;
+  /** Replacements sent per transaction before waiting it out. Defaults to 3. */
+  maxReplacements?: number;
+}
+
+export type ResolvedGasPolicy = Required<Omit<GasPolicy, 'maxFeeCap' | 'replaceAfterMs'>> &
+  Pick<GasPolicy, 'maxFeeCap' | 'replaceAfterMs'>;
+
+export const DEFAULT_GAS_POLICY: ResolvedGasPolicy = {
+  fees: 'feeHistory',
+  feeHistoryBlocks: 10,
+  priorityFeePercentile: 50,
+  baseFeeMultiplier: 2,
+  estimateGas: true,
+  gasLimitMultiplier: 1.2,
+  feeBumpPercent: 20,
+  maxReplacements: 3,
+};
+
+/** Smallest fee increase (in percent) nodes accept for a same-nonce replacement. */
+export const MIN_FEE_BUMP_PERCENT = 10;
+
+/**
+ * Fill in defaults and validate a {@link GasPolicy}.
+ *
+ * @throws {@link ValidationError} if a field is out of range.
+ */
+export function resolveGasPolicy(policy: GasPolicy = {}): ResolvedGasPolicy {
+  const defined = Object.fromEntries(Object.entries(policy).filter(([, v]) => v !== undefined));
+  const resolved: ResolvedGasPolicy = { ...DEFAULT_GAS_POLICY, ...defined };
+  const { feeHistoryBlocks, priorityFeePercentile, baseFeeMultiplier, gasLimitMultiplier } =
+    resolved;
+  if (!Number.isInteger(feeHistoryBlocks) || feeHistoryBlocks < 1 || feeHistoryBlocks > 1024) {
+    throw new ValidationError('invalid gas policy: feeHistoryBlocks must be between 1 and 1024');
+  }
+  if (!(priorityFeePercentile >= 0 && priorityFeePercentile <= 100)) {
+    throw new ValidationError('invalid gas policy: priorityFeePercentile must be 0–100');
+  }
+  if (!(baseFeeMultiplier >= 1) || !(gasLimitMultiplier >= 1)) {
+    throw new ValidationError('invalid gas policy: multipliers must be at least 1');
+  }
+  if (resolved.replaceAfterMs !== undefined && !(resolved.replaceAfterMs >= 0)) {
+    throw new ValidationError('invalid gas policy: replaceAfterMs must be non-negative');
+  }
+  if (!Number.isInteger(resolved.maxReplacements) || resolved.maxReplacements < 0) {
+    throw new ValidationError('invalid gas policy: maxReplacements must be a non-negative integer');
+  }
+  if (!(resolved.feeBumpPercent >= MIN_FEE_BUMP_PERCENT)) {
+    throw new ValidationError(
+      `invalid gas policy: feeBumpPercent must be at least ${MIN_FEE_BUMP_PERCENT}`
+    );
+  }
+  if (resolved.maxFeeCap !== undefined && resolved.maxFeeCap <= 0n) {
+    throw new ValidationError('invalid gas policy: maxFeeCap must be positive');
+  }
+  return resolved;
+}
+
+/** Scale `value` by a decimal multiplier, rounding up. */
+export function applyMultiplier(value: bigint, multiplier: number): bigint {
+  const scaled = BigInt(Math.round(multiplier * 1_000));
+  return (value * scaled + 999n) / 1_000n;
+}
+
+/** Fee values for the next transaction under `policy`, clamped to `maxFeeCap`. */
+export async function estimateFees(
+  client: {
+    getFeeHistory(args: {
+      blockCount: number;
+      rewardPercentiles: number[];
+      blockTag: 'latest';
+    }): Promise<FeeHistory>;
+  },
+  policy: ResolvedGasPolicy
+): Promise<FeeValues> {
+  let fees: FeeValues;
+  if (policy.fees === 'feeHistory') {
+    const history = await client.getFeeHistory({
+      blockCount: policy.feeHistoryBlocks,
+      rewardPercentiles: [policy.priorityFeePercentile],
+      blockTag: 'latest',
+    });
+    fees = feesFromHistory(history, policy.baseFeeMultiplier);
+  } else if (typeof policy.fees === 'function') {
+    fees = await policy.fees();
+  } else {
+    fees = policy.fees;
+  }
+  return clampFees(fees, policy.maxFeeCap);
+}
+
+/**
+ * Fees for replacing a transaction that paid `previous`: each fee is raised by
+ * `feeBumpPercent`, or to the current market estimate when that is higher, then clamped to
+ * `maxFeeCap`. Returns `undefined` when the cap leaves no room for a valid replacement.
+ */
+export function bumpFees(
+  previous: FeeValues,
+  market: FeeValues,
+  policy: ResolvedGasPolicy
+): FeeValues | undefined {
+  const multiplier = 1 + policy.feeBumpPercent / 100;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+  const bumped = clampFees(
+    {
+      maxFeePerGas: max(applyMultiplier(previous.maxFeePerGas, multiplier), market.maxFeePerGas),
+      maxPriorityFeePerGas: max(
+        applyMultiplier(previous.maxPriorityFeePerGas, multiplier),
+        market.maxPriorityFeePerGas
+      ),
+    },
+    policy.maxFeeCap
+  );
+  const minimum = 1 + MIN_FEE_BUMP_PERCENT / 100;
+  if (
+    bumped.maxFeePerGas < applyMultiplier(previous.maxFeePerGas, minimum) ||
+    bumped.maxPriorityFeePerGas < applyMultiplier(previous.maxPriorityFeePerGas, minimum)
+  ) {
+    return undefined;
+  }
+  return bumped;
+}
+
+function feesFromHistory(history: FeeHistory, baseFeeMultiplier: number): FeeValues {
+  // baseFeePerGas has one more entry than the sampled blocks: the next block's base fee.
+  const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+  const rewards = (history.reward ?? []).map((r) => r[0] ?? 0n);
+  const maxPriorityFeePerGas =
+    rewards.length > 0 ? rewards.reduce((a, b) => a + b, 0n) / BigInt(rewards.length) : 0n;
+  return {
+    maxFeePerGas: applyMultiplier(nextBaseFee, baseFeeMultiplier) + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+function clampFees(fees: FeeValues, cap: bigint | undefined): FeeValues {
+  if (cap === undefined || fees.maxFeePerGas <= cap) {
+    return fees;
+  }
+  return {
+    maxFeePerGas: cap,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas < cap ? fees.maxPriorityFeePerGas : cap,
+  };
+}
@@ -1,7 +1,66 @@
+import { ValidationError } from './utils';
+
 export type FetchFn = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 
-type DecodeErrorFactory = (message: string, response: Response) => Error;
-type HttpErrorFactory = (message: string, response: Response, body: unknown) => Error;
+type DecodeErrorFactory = (message: string, response: Response, attempts: number) => Error;
+type HttpErrorFactory = (
+  message: string,
+  response: Response,
+  body: unknown,
+  attempts: number
+) => Error;
+type TransportErrorFactory = (message: string, cause: unknown, attempts: number) => Error;
+
+/**
+ * Timeout and retry behaviour for HTTP calls to core and the auth service.
+ *
+ * Only idempotent requests are retried: GETs, and POSTs the caller marks as safe to repeat
+ * (e.g. requesting a SIWE nonce).
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first. Defaults to 3; `1` disables retries. */
+  maxAttempts?: number;
+  /** Per-attempt timeout in milliseconds, covering the response body. Defaults to 30 000. */
+  timeoutMs?: number;
+  /** First backoff delay in milliseconds; doubles per retry with full jitter. Defaults to 250. */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a backoff delay in milliseconds. A `Retry-After` longer than this ends the
+   * retries instead of waiting. Defaults to 5 000.
+   */
+  maxDelayMs?: number;
+  /** HTTP statuses worth retrying. Defaults to 408, 425, 429, 500, 502, 503 and 504. */
+  retryStatuses?: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  timeoutMs: 30_000,
+  baseDelayMs: 250,
+  maxDelayMs: 5_000,
+  retryStatuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Fill in defaults and validate a {@link RetryPolicy}.
+ *
+ * @throws {@link ValidationError} if a field is out of range.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...stripUndefined(policy) };
+  const { maxAttempts, timeoutMs, baseDelayMs, maxDelayMs } = resolved;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new ValidationError('invalid retry policy: maxAttempts must be a positive integer');
+  }
+  if (![timeoutMs, baseDelayMs, maxDelayMs].every((v) => Number.isFinite(v) && v >= 0)) {
+    throw new ValidationError('invalid retry policy: delays and timeout must be non-negative');
+  }
+  return resolved;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
 
 export function normalizeBaseUrl(endpoint: string): string {
   return endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
@@ -12,6 +71,10 @@ export function extractErrorMessage(payload: unknown): string {
     const record = payload as Record<string, unknown>;
     const error = record.error;
     const msg = record.message;
+    if (error && typeof error === 'object' && !Array.isArray(error)) {
+      const nested = (error as Record<string, unknown>).message;
+      if (typeof nested === 'string' && nested) return nested;
+    }
     return (
       (typeof error === 'string' && error) ||
       (typeof msg === 'string' && msg) ||
@@ -24,6 +87,52 @@ export function extractErrorMessage(payload: unknown): string {
   return 'unknown error';
 }
 
+/**
+ * Parse a `Retry-After` header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function backoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+class AttemptTimeoutError extends Error {}
+
+/** Carries a failed attempt's error to the retry loop in {@link requestJson}. */
+class RetryableError extends Error {
+  constructor(
+    readonly error: Error,
+    readonly retryAfterMs?: number
+  ) {
+    super(error.message);
+  }
+}
+
 export async function requestJson<T>(
   fetchFn: FetchFn,
   url: string,
@@ -31,47 +140,143 @@ export async function requestJson<T>(
   options: {
     decodeError: DecodeErrorFactory;
     httpError: HttpErrorFactory;
+    /** Wraps network failures and timeouts. Without it the underlying error is rethrown. */
+    transportError?: TransportErrorFactory;
     allowEmptyOk?: boolean;
+    /** Aborts the request, e.g. when the owning client is closed. */
+    signal?: AbortSignal;
+    /** Timeout and retry settings. Without it a single attempt is made with no timeout. */
+    retry?: Required<RetryPolicy>;
+    /** Whether a POST may be repeated. GET, HEAD and OPTIONS are always idempotent. */
+    idempotent?: boolean;
   }
 ): Promise<T> {
-  const response = await fetchFn(url, init);
+  const method = (init.method ?? 'GET').toUpperCase();
+  const idempotent = options.idempotent ?? ['GET', 'HEAD', 'OPTIONS'].includes(method);
+  const policy = options.retry;
+  const maxAttempts = policy && idempotent ? policy.maxAttempts : 1;
 
-  let text = '';
-  try {
-    text = await response.text();
-  } catch (err) {
-    throw options.decodeError(`invalid response from ${response.url}: ${String(err)}`, response);
+  for (let attempt = 1; ; attempt++) {
+    let retryAfterMs: number | undefined;
+    let failure: Error;
+    try {
+      return await attemptRequest<T>(fetchFn, url, init, options, attempt);
+    } catch (err) {
+      if (!(err instanceof RetryableError)) throw err;
+      failure = err.error;
+      retryAfterMs = err.retryAfterMs;
+    }
+    if (attempt >= maxAttempts || !policy) throw failure;
+    if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) throw failure;
+    const delay = Math.max(retryAfterMs ?? 0, backoffDelay(policy, attempt));
+    try {
+      await sleep(delay, options.signal);
+    } catch {
+      throw failure;
+    }
   }
+}
 
-  let payload: unknown = null;
-  let parsed = false;
-  let parseError: unknown;
-  if (text) {
+async function attemptRequest<T>(
+  fetchFn: FetchFn,
+  url: string,
+  init: RequestInit,
+  options: Parameters<typeof requestJson>[3],
+  attempt: number
+): Promise<T> {
+  const policy = options.retry;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  if (options.signal?.aborted) controller.abort(options.signal.reason);
+  const timer =
+    policy && policy.timeoutMs > 0
+      ? setTimeout(
+          () => controller.abort(new AttemptTimeoutError(`timed out after ${policy.timeoutMs}ms`)),
+          policy.timeoutMs
+        )
+      : undefined;
+  const signal = policy || options.signal ? controller.signal : undefined;
+
+  const transportFailure = (err: unknown): never => {
+    if (options.signal?.aborted) throw err;
+    const reason = controller.signal.reason;
+    const detail =
+      reason instanceof AttemptTimeoutError
+        ? reason.message
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    const error = options.transportError
+      ? options.transportError(`request to ${url} failed: ${detail}`, err, attempt)
+      : err instanceof Error
+        ? err
+        : new Error(String(err));
+    throw new RetryableError(error);
+  };
+
+  try {
+    let response: Response;
     try {
-      payload = JSON.parse(text) as unknown;
-      parsed = true;
+      response = await fetchFn(url, signal ? { ...init, signal } : init);
     } catch (err) {
-      payload = text;
-      parseError = err;
+      return transportFailure(err);
     }
-  }
 
-  if (!response.ok) {
-    const message = `${response.status}: ${extractErrorMessage(payload)}`;
-    throw options.httpError(message, response, payload);
-  }
+    let text = '';
+    try {
+      text = await response.text();
+    } catch (err) {
+      if (controller.signal.aborted) return transportFailure(err);
+      throw options.decodeError(
+        `invalid response from ${response.url}: ${String(err)}`,
+        response,
+        attempt
+      );
+    }
 
-  if (!text && !options.allowEmptyOk) {
-    throw options.decodeError(
-      `invalid JSON response from ${response.url}: empty response body`,
-      response
-    );
-  }
+    let payload: unknown = null;
+    let parsed = false;
+    let parseError: unknown;
+    if (text) {
+      try {
+        payload = JSON.parse(text) as unknown;
+        parsed = true;
+      } catch (err) {
+        payload = text;
+        parseError = err;
+      }
+    }
 
-  if (text && !parsed) {
-    const detail = parseError instanceof Error ? parseError.message : String(parseError);
-    throw options.decodeError(`invalid JSON response from ${response.url}: ${detail}`, response);
-  }
+    if (!response.ok) {
+      const message = `${response.status}: ${extractErrorMessage(payload)}`;
+      const error = options.httpError(message, response, payload, attempt);
+      if (policy?.retryStatuses.includes(response.status)) {
+        throw new RetryableError(error, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      throw error;
+    }
+
+    if (!text && !options.allowEmptyOk) {
+      throw options.decodeError(
+        `invalid JSON response from ${response.url}: empty response body`,
+        response,
+        attempt
+      );
+    }
 
-  return payload as T;
+    if (text && !parsed) {
+      const detail = parseError instanceof Error ? parseError.message : String(parseError);
+      throw options.decodeError(
+        `invalid JSON response from ${response.url}: ${detail}`,
+        response,
+        attempt
+      );
+    }
+
+    return payload as T;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
 }
@@ -1,7 +1,10 @@
 export * from './errors';
 export * from './constants';
 export * from './networks';
+export * from './chain';
 export * from './config';
+export * from './profiles';
+export * from './signers';
 export * from './utils';
 export * from './models';
 export * from './payment';
@@ -9,6 +12,10 @@ export * from './validation';
 export * from './signing';
 export * from './rpc';
 export * from './auth';
+export * from './gas';
+export * from './nonce';
+export * from './events';
+export * from './checkpoint';
 export * from './contract';
 export * from './guarantee';
 export * from './bls';
@@ -1,6 +1,12 @@
 import { toBytes } from 'viem';
 import { getAny } from './serde';
-import { ValidationError, ensureHexPrefix, normalizeAddress, parseU256 } from './utils';
+import {
+  ValidationError,
+  ensureHexPrefix,
+  hexFromBytes,
+  normalizeAddress,
+  parseU256,
+} from './utils';
 
 export {
   ADMIN_API_KEY_HEADER,
@@ -201,6 +207,75 @@ export interface UserInfo {
   withdrawalRequestTimestamp: number;
 }
 
+/** Core4Mica timing and policy settings, returned by `getProtocolParameters`. */
+export interface ProtocolParameters {
+  /** Seconds after a tab's start after which it can no longer be remunerated. */
+  tabExpirationTime: number;
+  /** Seconds after a tab's start before an unpaid tab can be remunerated. */
+  remunerationGracePeriod: number;
+  /** Seconds between a withdrawal request and when it can be finalised. */
+  withdrawalGracePeriod: number;
+  /** Seconds the core service may lag the chain when accounting for collateral changes. */
+  synchronizationDelay: number;
+  /** Protocol fee on collateral yield, in basis points. */
+  yieldFeeBps: number;
+  /** Whether the contract is paused. */
+  paused: boolean;
+}
+
+/** When a tab can be remunerated on-chain, as unix timestamps in seconds. */
+export interface RemunerationWindow {
+  /** Earliest time `remunerate` is accepted (start + `remunerationGracePeriod`). */
+  remunerableAfter: number;
+  /** Latest time `remunerate` is accepted (start + `tabExpirationTime`). */
+  expiresAt: number;
+}
+
+/** Returned by `waitForTabPaid` once the chain and core agree that a tab is paid. */
+export interface TabPaidResult {
+  /** On-chain status when the wait ended. */
+  status: TabPaymentStatus;
+  /**
+   * Core's records of the tab's payments, each finalized or failed. When no payment event arrives
+   * while waiting, these are the payments since the tab started.
+   */
+  payments: RecipientPaymentInfo[];
+}
+
+/** One step in a tab's history, as returned by `getTabTimeline`. */
+export type TabTimelineEntry = {
+  /** Unix timestamp in seconds (block time for chain entries). */
+  timestamp: number;
+  /** Where the entry comes from: the 4Mica core service or a Core4Mica contract event. */
+  source: 'core' | 'chain';
+  /** Disagreements with the other source, in plain words. Empty when both agree. */
+  discrepancies: string[];
+} & (
+  | { type: 'created'; tab: TabInfo }
+  | { type: 'guaranteeIssued'; reqId: bigint; amount: bigint; guarantee: GuaranteeInfo }
+  | { type: 'collateralLocked'; amount: bigint; event: CollateralEventInfo }
+  | { type: 'collateralUnlocked'; amount: bigint; event: CollateralEventInfo }
+  | {
+      type: 'paid';
+      amount: bigint;
+      txHash: string;
+      blockNumber: bigint;
+      /** Core's record of the payment transaction, if it has one. */
+      corePayment?: RecipientPaymentInfo;
+    }
+  | { type: 'remunerated'; amount: bigint; txHash: string; blockNumber: bigint }
+  | { type: 'expired' }
+);
+
+/** A tab's merged core and on-chain history, returned by `getTabTimeline`. */
+export interface TabTimeline {
+  tabId: bigint;
+  /** Entries in chronological order. */
+  entries: TabTimelineEntry[];
+  /** Disagreements that concern the tab as a whole rather than a single entry. */
+  discrepancies: string[];
+}
+
 export class UserSuspensionStatus {
   constructor(
     public userAddress: string,
@@ -390,10 +465,13 @@ export class RecipientPaymentInfo {
     public verified: boolean,
     public finalized: boolean,
     public failed: boolean,
-    public createdAt: number
+    public createdAt: number,
+    /** Tab the payment was made for, when core reports it. */
+    public tabId?: bigint | null
   ) {}
 
   static fromRpc(raw: Record<string, unknown>): RecipientPaymentInfo {
+    const tabId = getAny(raw, 'tab_id', 'tabId');
     return new RecipientPaymentInfo(
       (getAny(raw, 'user_address', 'userAddress') ?? '') as string,
       (getAny(raw, 'recipient_address', 'recipientAddress') ?? '') as string,
@@ -402,7 +480,8 @@ export class RecipientPaymentInfo {
       Boolean(getAny(raw, 'verified')),
       Boolean(getAny(raw, 'finalized')),
       Boolean(getAny(raw, 'failed')),
-      Number(getAny(raw, 'created_at', 'createdAt') ?? 0)
+      Number(getAny(raw, 'created_at', 'createdAt') ?? 0),
+      tabId !== undefined && tabId !== null ? parseU256(tabId as number | bigint | string) : null
     );
   }
 }
@@ -454,6 +533,26 @@ export class CorePublicParameters {
     public validationHashCanonicalizationVersion: string = '4MICA_VALIDATION_REQUEST_V1'
   ) {}
 
+  /**
+   * Serialize to the snake_case wire format accepted by {@link CorePublicParameters.fromRpc}.
+   * The result is JSON-safe, so it can be persisted and restored later.
+   */
+  toRpc(): Record<string, unknown> {
+    return {
+      public_key: hexFromBytes(this.publicKey),
+      contract_address: this.contractAddress,
+      ethereum_http_rpc_url: this.ethereumHttpRpcUrl,
+      eip712_name: this.eip712Name,
+      eip712_version: this.eip712Version,
+      chain_id: this.chainId,
+      max_accepted_guarantee_version: this.maxAcceptedGuaranteeVersion,
+      accepted_guarantee_versions: [...this.acceptedGuaranteeVersions],
+      active_guarantee_domain_separator: this.activeGuaranteeDomainSeparator,
+      trusted_validation_registries: [...this.trustedValidationRegistries],
+      validation_hash_canonicalization_version: this.validationHashCanonicalizationVersion,
+    };
+  }
+
   static fromRpc(payload: Record<string, unknown>): CorePublicParameters {
     const pkRaw = payload.public_key ?? payload.publicKey;
     const pk =
@@ -1,16 +1,48 @@
-/** Metadata for a hosted 4Mica network deployment. */
+import type { Chain } from 'viem';
+import { ConfigError } from './errors';
+import { ValidationError, normalizeAddress, validateUrl } from './utils';
+
+/** Metadata for a hosted or registered 4Mica network deployment. */
 export interface NetworkInfo {
   /** CAIP-2 network identifier (e.g. `eip155:84532`). */
   caip2: string;
   /** Hosted 4Mica core API URL for this network. */
   rpcUrl: string;
+  /** Expected Core4Mica contract address, checked when contract verification is enabled. */
+  contractAddress?: string;
+  /** Expected keccak256 hash of the Core4Mica runtime bytecode, checked when contract verification is enabled. */
+  contractCodeHash?: string;
+  /** viem chain definition (native currency, explorer) used for on-chain calls. */
+  chain?: Chain;
+  /** Block explorer base URL, e.g. `https://sepolia.basescan.org`. */
+  explorerUrl?: string;
+}
+
+/** A self-hosted deployment passed to {@link registerNetwork}. */
+export interface NetworkRegistration {
+  /** Human-readable name accepted by {@link ConfigBuilder.network}, e.g. `"anvil"`. */
+  shorthand: string;
+  /** CAIP-2 identifier, e.g. `eip155:31337`. */
+  caip2: string;
+  /** 4Mica core API URL of the deployment. */
+  rpcUrl: string;
+  /** viem chain definition. Its id must match `caip2`. Defaults to a synthetic chain. */
+  chain?: Chain;
+  /** Core4Mica contract address, pinned for contract verification. */
+  contractAddress?: string;
+  /** Expected keccak256 hash of the Core4Mica runtime bytecode. */
+  contractCodeHash?: string;
+  /** Block explorer base URL. Defaults to the chain's default block explorer. */
+  explorerUrl?: string;
 }
 
 /**
- * Hosted 4Mica network deployments, keyed by human-readable shorthand.
+ * Hosted 4Mica network deployments, keyed by human-readable shorthand. Read-only; networks added
+ * with {@link registerNetwork} are listed by {@link listNetworks} instead.
  *
  * Pass the shorthand (or the CAIP-2 string) to {@link ConfigBuilder.network}
- * to select a network without writing a URL.
+ * to select a network without writing a URL. The hosted entries pin no contract
+ * address or code hash; pass them to {@link ConfigBuilder.verifyContract}.
  *
  * @example
  * ```ts
@@ -26,24 +58,127 @@ export interface NetworkInfo {
  * console.log(NETWORKS["base-sepolia"].caip2); // "eip155:84532"
  * ```
  */
-export const NETWORKS: Record<string, NetworkInfo> = {
+export const NETWORKS: Readonly<Record<string, NetworkInfo>> = {
   'base-sepolia': {
     caip2: 'eip155:84532',
     rpcUrl: 'https://base.sepolia.api.4mica.xyz/',
+    explorerUrl: 'https://sepolia.basescan.org',
   },
   'ethereum-sepolia': {
     caip2: 'eip155:11155111',
     rpcUrl: 'https://ethereum.sepolia.api.4mica.xyz/',
+    explorerUrl: 'https://sepolia.etherscan.io',
   },
 } as const;
 
-const NETWORKS_BY_CAIP2: Record<string, NetworkInfo> = Object.fromEntries(
-  Object.values(NETWORKS).map((n) => [n.caip2, n])
-);
+/** Hosted and registered networks by shorthand, and the same entries by CAIP-2 id. */
+const networksByShorthand = new Map(Object.entries(NETWORKS));
+const networksByCaip2 = new Map(Object.values(NETWORKS).map((n) => [n.caip2, n]));
+
+const isHosted = (shorthand: string) => Object.hasOwn(NETWORKS, shorthand);
+
+/**
+ * Register a self-hosted 4Mica deployment (e.g. a local core in front of Anvil or Hardhat).
+ *
+ * Once registered, the shorthand and CAIP-2 id are accepted by {@link ConfigBuilder.network},
+ * {@link resolveNetwork} and {@link resolveNetworkRpcUrl}, and the chain definition is used for
+ * on-chain calls on that chain ID. Re-registering a shorthand replaces its entry.
+ *
+ * @example
+ * ```ts
+ * import { foundry } from 'viem/chains';
+ *
+ * registerNetwork({
+ *   shorthand: 'anvil',
+ *   caip2: 'eip155:31337',
+ *   rpcUrl: 'http://localhost:3000/',
+ *   chain: foundry,
+ *   contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+ * });
+ * const cfg = new ConfigBuilder().network('anvil').walletPrivateKey('0x...').build();
+ * ```
+ *
+ * @throws {@link ConfigError} if a field is invalid or the shorthand or CAIP-2 id is already
+ *   taken by a different network.
+ */
+export function registerNetwork(registration: NetworkRegistration): NetworkInfo {
+  const { shorthand, caip2, chain } = registration;
+  if (!shorthand || shorthand.startsWith('eip155:')) {
+    throw new ConfigError(`invalid network shorthand "${shorthand}"`);
+  }
+  const match = /^eip155:(\d+)$/.exec(caip2);
+  if (!match) {
+    throw new ConfigError(`invalid CAIP-2 network id "${caip2}" (expected eip155:<chainId>)`);
+  }
+  if (chain && chain.id !== Number(match[1])) {
+    throw new ConfigError(`chain id ${chain.id} does not match ${caip2}`);
+  }
+  if (isHosted(shorthand)) {
+    throw new ConfigError(`cannot replace hosted network "${shorthand}"`);
+  }
+  const existing = networksByCaip2.get(caip2);
+  const previous = networksByShorthand.get(shorthand);
+  if (existing && existing !== previous) {
+    throw new ConfigError(`network ${caip2} is already registered`);
+  }
+  if (previous && previous.caip2 !== caip2) {
+    unregisterNetwork(shorthand);
+  }
+
+  let info: NetworkInfo;
+  try {
+    info = {
+      caip2,
+      rpcUrl: validateUrl(registration.rpcUrl),
+      contractAddress: registration.contractAddress
+        ? normalizeAddress(registration.contractAddress)
+        : undefined,
+      contractCodeHash: registration.contractCodeHash,
+      chain,
+      explorerUrl: registration.explorerUrl
+        ? validateUrl(registration.explorerUrl)
+        : chain?.blockExplorers?.default.url,
+    };
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      throw new ConfigError(`network "${shorthand}": ${err.message}`);
+    }
+    throw err;
+  }
+  networksByShorthand.set(shorthand, info);
+  networksByCaip2.set(caip2, info);
+  return info;
+}
+
+/**
+ * Remove a network added with {@link registerNetwork}. Hosted networks cannot be removed.
+ *
+ * @returns `true` if a network was removed.
+ */
+export function unregisterNetwork(shorthand: string): boolean {
+  const info = networksByShorthand.get(shorthand);
+  if (!info || isHosted(shorthand)) return false;
+  networksByShorthand.delete(shorthand);
+  if (networksByCaip2.get(info.caip2) === info) networksByCaip2.delete(info.caip2);
+  return true;
+}
+
+/** Shorthands of every hosted and registered network, hosted ones first. */
+export function listNetworks(): string[] {
+  return [...networksByShorthand.keys()];
+}
+
+/**
+ * Resolve a network shorthand or CAIP-2 identifier to its {@link NetworkInfo}.
+ * Returns `undefined` if the identifier is not a known hosted or registered network.
+ */
+export function resolveNetwork(network: string): NetworkInfo | undefined {
+  return networksByShorthand.get(network) ?? networksByCaip2.get(network);
+}
 
 /**
  * Resolve a network shorthand or CAIP-2 identifier to a core API URL.
- * Returns `undefined` if the identifier is not a known hosted network.
+ * Returns `undefined` if the identifier is not a known hosted or registered network.
  *
  * @example
  * ```ts
@@ -53,5 +188,5 @@ const NETWORKS_BY_CAIP2: Record<string, NetworkInfo> = Object.fromEntries(
  * ```
  */
 export function resolveNetworkRpcUrl(network: string): string | undefined {
-  return NETWORKS[network]?.rpcUrl ?? NETWORKS_BY_CAIP2[network]?.rpcUrl;
+  return resolveNetwork(network)?.rpcUrl;
 }
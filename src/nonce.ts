@@ -0,0 +1,98 @@
+import { ValidationError } from './utils';
+
+/** A nonce handed out by {@link NonceManager.acquire}, holding one in-flight slot. */
+export interface NonceLease {
+  nonce: number;
+  /** Free the slot once the transaction is mined or failed to send. Idempotent. */
+  release(): void;
+}
+
+/**
+ * Allocates account nonces locally so several transactions can be pending at once.
+ *
+ * The first allocation (and the first after {@link resync}) reads the pending transaction count
+ * from the node; later ones count up from there, skipping nonces still held by a lease. At most
+ * `maxInFlight` leases are outstanding; further callers wait for a slot in FIFO order.
+ */
+export class NonceManager {
+  private next?: number;
+  private syncing?: Promise<number>;
+  private active = 0;
+  private held = new Set<number>();
+  private waiters: Array<() => void> = [];
+
+  constructor(
+    private readonly fetchNonce: () => Promise<number>,
+    readonly maxInFlight: number
+  ) {
+    if (!Number.isInteger(maxInFlight) || maxInFlight < 1) {
+      throw new ValidationError('maxInFlight must be a positive integer');
+    }
+  }
+
+  /** Leases currently held. */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /** Wait for a free slot and allocate the next nonce. */
+  async acquire(): Promise<NonceLease> {
+    await this.waitForSlot();
+    try {
+      const nonce = await this.allocate();
+      return { nonce, release: this.releaser(nonce) };
+    } catch (error) {
+      this.releaser()();
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the local counter; the next allocation re-reads the pending count. Call after a
+   * submission fails so a skipped nonce is reused instead of leaving a gap.
+   *
+   * Other leases may still be mid-submission, so the pending count can miss their nonces; those
+   * stay reserved and are skipped when counting up from it.
+   */
+  resync(): void {
+    this.next = undefined;
+  }
+
+  private async allocate(): Promise<number> {
+    while (this.next === undefined) {
+      this.syncing ??= this.fetchNonce().finally(() => {
+        this.syncing = undefined;
+      });
+      const fetched = await this.syncing;
+      this.next ??= fetched;
+    }
+    while (this.held.has(this.next)) this.next += 1;
+    const nonce = this.next++;
+    this.held.add(nonce);
+    return nonce;
+  }
+
+  private waitForSlot(): Promise<void> {
+    if (this.active < this.maxInFlight) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by the releasing lease, so `active` stays unchanged.
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private releaser(nonce?: number): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      if (nonce !== undefined) this.held.delete(nonce);
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter();
+      } else {
+        this.active -= 1;
+      }
+    };
+  }
+}
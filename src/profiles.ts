@@ -0,0 +1,401 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { ContractVerification } from './config';
+import { ConfigError } from './errors';
+import { type GasPolicy, resolveGasPolicy } from './gas';
+import { resolveNetwork } from './networks';
+import { isRecord, type RecordValue } from './serde';
+import type { MnemonicSignerOptions } from './signers';
+import { ValidationError, normalizeAddress, normalizePrivateKey, validateUrl } from './utils';
+
+/** Auth settings of a {@link ConfigProfile}. */
+export interface ConfigProfileAuth {
+  /** Set to `false` to disable SIWE auth. */
+  enabled?: boolean;
+  /** SIWE authentication endpoint. */
+  url?: string;
+  /** Seconds before token expiry at which the session refreshes. */
+  refreshMarginSecs?: number;
+  /** Static bearer token. Disables SIWE auth. */
+  bearerToken?: string;
+}
+
+/** Signer settings of a {@link ConfigProfile}. At most one source may be set. */
+export interface ConfigProfileSigner {
+  /** Wallet private key (hex). */
+  privateKey?: string;
+  /** Encrypted V3 keystore file. */
+  keystore?: { path: string; password: string };
+  /** BIP-39 mnemonic and derivation options. */
+  mnemonic?: MnemonicSignerOptions & { phrase: string };
+  /** JSON-RPC remote signer. */
+  remote?: { url: string; address: string; headers?: Record<string, string> };
+}
+
+/**
+ * One named profile of a config file loaded by {@link ConfigBuilder.fromFile}.
+ * Keys mirror the {@link ConfigBuilder} methods.
+ */
+export interface ConfigProfile {
+  network?: string;
+  rpcUrl?: string;
+  ethereumHttpRpcUrl?: string;
+  contractAddress?: string;
+  adminApiKey?: string;
+  auth?: ConfigProfileAuth;
+  verifyContract?: boolean | ContractVerification;
+  /** Amounts (`maxFeeCap`, fixed `fees`) are wei as decimal or hex strings. */
+  gasPolicy?: GasPolicy;
+  signer?: ConfigProfileSigner;
+  /** Separate recipient account; same keys as {@link signer}. */
+  recipientSigner?: ConfigProfileSigner;
+}
+
+/** Options for {@link ConfigBuilder.fromFile}. */
+export interface ConfigFileOptions {
+  /**
+   * Profile to load. Defaults to `4MICA_PROFILE`, then the file's `defaultProfile`,
+   * then `default`.
+   */
+  profile?: string;
+  /** Apply `4MICA_*` environment variables on top of the profile. Defaults to `true`. */
+  env?: boolean;
+}
+
+const INTERPOLATION = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+class ProfileReader {
+  constructor(
+    private profileName: string,
+    private env: NodeJS.ProcessEnv
+  ) {}
+
+  error(key: string, message: string): ConfigError {
+    return new ConfigError(`profile "${this.profileName}": ${key}: ${message}`);
+  }
+
+  section(raw: unknown, key: string, allowed: string[]): RecordValue {
+    if (!isRecord(raw)) {
+      throw this.error(key, 'expected an object');
+    }
+    for (const field of Object.keys(raw)) {
+      if (!allowed.includes(field)) {
+        throw this.error(key ? `${key}.${field}` : field, 'unknown key');
+      }
+    }
+    return raw;
+  }
+
+  string(raw: unknown, key: string): string | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw !== 'string' && typeof raw !== 'number') {
+      throw this.error(key, 'expected a string');
+    }
+    return String(raw).replace(INTERPOLATION, (_match, name: string, fallback?: string) => {
+      const value = this.env[name] ?? fallback;
+      if (value === undefined) {
+        throw this.error(key, `environment variable ${name} is not set`);
+      }
+      return value;
+    });
+  }
+
+  required(raw: unknown, key: string): string {
+    const value = this.string(raw, key);
+    if (value === undefined) {
+      throw this.error(key, 'required');
+    }
+    return value;
+  }
+
+  number(raw: unknown, key: string): number | undefined {
+    const text = typeof raw === 'number' ? String(raw) : this.string(raw, key);
+    if (text === undefined) return undefined;
+    const value = Number(text);
+    if (!text.trim() || !Number.isFinite(value)) {
+      throw this.error(key, `expected a number, got "${text}"`);
+    }
+    return value;
+  }
+
+  bigint(raw: unknown, key: string): bigint | undefined {
+    const text = this.string(raw, key)?.trim();
+    if (text === undefined) return undefined;
+    if (!/^(0x[0-9a-fA-F]+|[0-9]+)$/.test(text)) {
+      throw this.error(key, `expected a non-negative integer, got "${text}"`);
+    }
+    return BigInt(text);
+  }
+
+  boolean(raw: unknown, key: string): boolean | undefined {
+    if (typeof raw === 'boolean') return raw;
+    const text = this.string(raw, key)?.toLowerCase();
+    if (text === undefined) return undefined;
+    if (text === 'true' || text === '1') return true;
+    if (text === 'false' || text === '0') return false;
+    throw this.error(key, `expected a boolean, got "${text}"`);
+  }
+
+  validated<T>(raw: unknown, key: string, validate: (value: string) => T): T | undefined {
+    const value = this.string(raw, key);
+    if (value === undefined) return undefined;
+    try {
+      return validate(value);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        throw this.error(key, err.message);
+      }
+      throw err;
+    }
+  }
+}
+
+function readProfile(reader: ProfileReader, raw: unknown): ConfigProfile {
+  const root = reader.section(raw, '', [
+    'network',
+    'rpcUrl',
+    'ethereumHttpRpcUrl',
+    'contractAddress',
+    'adminApiKey',
+    'auth',
+    'verifyContract',
+    'gasPolicy',
+    'signer',
+    'recipientSigner',
+  ]);
+
+  const network = reader.string(root.network, 'network');
+  if (network !== undefined && !resolveNetwork(network)) {
+    throw reader.error('network', `unknown network "${network}"`);
+  }
+
+  const profile: ConfigProfile = {
+    network,
+    rpcUrl: reader.validated(root.rpcUrl, 'rpcUrl', validateUrl),
+    ethereumHttpRpcUrl: reader.validated(
+      root.ethereumHttpRpcUrl,
+      'ethereumHttpRpcUrl',
+      validateUrl
+    ),
+    contractAddress: reader.validated(root.contractAddress, 'contractAddress', normalizeAddress),
+    adminApiKey: reader.string(root.adminApiKey, 'adminApiKey'),
+  };
+
+  if (root.auth !== undefined) {
+    const auth = reader.section(root.auth, 'auth', [
+      'enabled',
+      'url',
+      'refreshMarginSecs',
+      'bearerToken',
+    ]);
+    const refreshMarginSecs = reader.number(auth.refreshMarginSecs, 'auth.refreshMarginSecs');
+    if (refreshMarginSecs !== undefined && refreshMarginSecs < 0) {
+      throw reader.error('auth.refreshMarginSecs', 'must be non-negative');
+    }
+    profile.auth = {
+      enabled: reader.boolean(auth.enabled, 'auth.enabled'),
+      url: reader.validated(auth.url, 'auth.url', validateUrl),
+      refreshMarginSecs,
+      bearerToken: reader.string(auth.bearerToken, 'auth.bearerToken'),
+    };
+  }
+
+  if (isRecord(root.verifyContract)) {
+    const verify = reader.section(root.verifyContract, 'verifyContract', [
+      'expectedAddress',
+      'expectedCodeHash',
+    ]);
+    const expectedCodeHash = reader.string(
+      verify.expectedCodeHash,
+      'verifyContract.expectedCodeHash'
+    );
+    if (expectedCodeHash !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(expectedCodeHash)) {
+      throw reader.error('verifyContract.expectedCodeHash', 'expected 32 byte hex');
+    }
+    profile.verifyContract = {
+      expectedAddress: reader.validated(
+        verify.expectedAddress,
+        'verifyContract.expectedAddress',
+        normalizeAddress
+      ),
+      expectedCodeHash,
+    };
+  } else {
+    profile.verifyContract = reader.boolean(root.verifyContract, 'verifyContract');
+  }
+
+  if (root.gasPolicy !== undefined) {
+    profile.gasPolicy = readGasPolicy(reader, root.gasPolicy);
+  }
+  if (root.signer !== undefined) {
+    profile.signer = readSigner(reader, root.signer, 'signer');
+  }
+  if (root.recipientSigner !== undefined) {
+    profile.recipientSigner = readSigner(reader, root.recipientSigner, 'recipientSigner');
+  }
+
+  return profile;
+}
+
+function readGasPolicy(reader: ProfileReader, raw: unknown): GasPolicy {
+  const root = reader.section(raw, 'gasPolicy', [
+    'fees',
+    'feeHistoryBlocks',
+    'priorityFeePercentile',
+    'baseFeeMultiplier',
+    'estimateGas',
+    'gasLimitMultiplier',
+    'maxFeeCap',
+    'replaceAfterMs',
+    'feeBumpPercent',
+    'maxReplacements',
+  ]);
+  const policy: GasPolicy = {
+    feeHistoryBlocks: reader.number(root.feeHistoryBlocks, 'gasPolicy.feeHistoryBlocks'),
+    priorityFeePercentile: reader.number(
+      root.priorityFeePercentile,
+      'gasPolicy.priorityFeePercentile'
+    ),
+    baseFeeMultiplier: reader.number(root.baseFeeMultiplier, 'gasPolicy.baseFeeMultiplier'),
+    estimateGas: reader.boolean(root.estimateGas, 'gasPolicy.estimateGas'),
+    gasLimitMultiplier: reader.number(root.gasLimitMultiplier, 'gasPolicy.gasLimitMultiplier'),
+    maxFeeCap: reader.bigint(root.maxFeeCap, 'gasPolicy.maxFeeCap'),
+    replaceAfterMs: reader.number(root.replaceAfterMs, 'gasPolicy.replaceAfterMs'),
+    feeBumpPercent: reader.number(root.feeBumpPercent, 'gasPolicy.feeBumpPercent'),
+    maxReplacements: reader.number(root.maxReplacements, 'gasPolicy.maxReplacements'),
+  };
+  if (isRecord(root.fees)) {
+    const fees = reader.section(root.fees, 'gasPolicy.fees', [
+      'maxFeePerGas',
+      'maxPriorityFeePerGas',
+    ]);
+    const maxFeePerGas = reader.bigint(fees.maxFeePerGas, 'gasPolicy.fees.maxFeePerGas');
+    const maxPriorityFeePerGas = reader.bigint(
+      fees.maxPriorityFeePerGas,
+      'gasPolicy.fees.maxPriorityFeePerGas'
+    );
+    if (maxFeePerGas === undefined) throw reader.error('gasPolicy.fees.maxFeePerGas', 'required');
+    if (maxPriorityFeePerGas === undefined) {
+      throw reader.error('gasPolicy.fees.maxPriorityFeePerGas', 'required');
+    }
+    policy.fees = { maxFeePerGas, maxPriorityFeePerGas };
+  } else {
+    const fees = reader.string(root.fees, 'gasPolicy.fees');
+    if (fees !== undefined && fees !== 'feeHistory') {
+      throw reader.error('gasPolicy.fees', `expected "feeHistory" or fee values, got "${fees}"`);
+    }
+    policy.fees = fees;
+  }
+  try {
+    resolveGasPolicy(policy);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      throw reader.error('gasPolicy', err.message.replace(/^invalid gas policy: /, ''));
+    }
+    throw err;
+  }
+  return policy;
+}
+
+function readSigner(reader: ProfileReader, raw: unknown, key: string): ConfigProfileSigner {
+  const root = reader.section(raw, key, ['privateKey', 'keystore', 'mnemonic', 'remote']);
+  const sources = Object.keys(root).filter((key) => root[key] !== undefined && root[key] !== null);
+  if (sources.length > 1) {
+    throw reader.error(key, `expected one signer source, got ${sources.join(', ')}`);
+  }
+
+  const signer: ConfigProfileSigner = {
+    privateKey: reader.validated(root.privateKey, `${key}.privateKey`, normalizePrivateKey),
+  };
+  if (root.keystore !== undefined) {
+    const keystore = reader.section(root.keystore, `${key}.keystore`, ['path', 'password']);
+    signer.keystore = {
+      path: reader.required(keystore.path, `${key}.keystore.path`),
+      password: reader.string(keystore.password, `${key}.keystore.password`) ?? '',
+    };
+  }
+  if (root.mnemonic !== undefined) {
+    const mnemonic = reader.section(root.mnemonic, `${key}.mnemonic`, [
+      'phrase',
+      'path',
+      'accountIndex',
+      'addressIndex',
+      'passphrase',
+    ]);
+    signer.mnemonic = {
+      phrase: reader.required(mnemonic.phrase, `${key}.mnemonic.phrase`),
+      path: reader.string(mnemonic.path, `${key}.mnemonic.path`),
+      accountIndex: reader.number(mnemonic.accountIndex, `${key}.mnemonic.accountIndex`),
+      addressIndex: reader.number(mnemonic.addressIndex, `${key}.mnemonic.addressIndex`),
+      passphrase: reader.string(mnemonic.passphrase, `${key}.mnemonic.passphrase`),
+    };
+  }
+  if (root.remote !== undefined) {
+    const remote = reader.section(root.remote, `${key}.remote`, ['url', 'address', 'headers']);
+    const url = reader.validated(remote.url, `${key}.remote.url`, validateUrl);
+    const address = reader.validated(remote.address, `${key}.remote.address`, normalizeAddress);
+    if (url === undefined) throw reader.error(`${key}.remote.url`, 'required');
+    if (address === undefined) throw reader.error(`${key}.remote.address`, 'required');
+    signer.remote = { url, address };
+    if (remote.headers !== undefined) {
+      const headers = remote.headers;
+      if (!isRecord(headers)) {
+        throw reader.error(`${key}.remote.headers`, 'expected an object');
+      }
+      signer.remote.headers = Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name,
+          reader.required(value, `${key}.remote.headers.${name}`),
+        ])
+      );
+    }
+  }
+  return signer;
+}
+
+function parseConfigFile(path: string): RecordValue {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new ConfigError(`cannot read config file ${path}: ${String(err)}`);
+  }
+  let parsed: unknown;
+  try {
+    // YAML scalars are read as strings so that hex values such as private keys keep their form.
+    parsed =
+      extname(path).toLowerCase() === '.json'
+        ? JSON.parse(text)
+        : parseYaml(text, { schema: 'failsafe' });
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new ConfigError(`invalid config file ${path}: ${detail}`);
+  }
+  if (!isRecord(parsed) || !isRecord(parsed.profiles)) {
+    throw new ConfigError(`invalid config file ${path}: missing "profiles" object`);
+  }
+  return parsed;
+}
+
+/**
+ * Load and validate one profile from a JSON or YAML config file.
+ *
+ * String values may reference environment variables as `${NAME}` or `${NAME:-default}`.
+ *
+ * @throws {@link ConfigError} naming the profile and key when the file or a value is invalid.
+ */
+export function loadConfigProfile(
+  path: string,
+  profile?: string,
+  env: NodeJS.ProcessEnv = process.env
+): { name: string; profile: ConfigProfile } {
+  const file = parseConfigFile(path);
+  const profiles = file.profiles as RecordValue;
+  const defaultProfile = typeof file.defaultProfile === 'string' ? file.defaultProfile : undefined;
+  const name = profile ?? env['4MICA_PROFILE'] ?? defaultProfile ?? 'default';
+  if (!Object.hasOwn(profiles, name)) {
+    throw new ConfigError(`profile "${name}" not found in ${path}`);
+  }
+  return { name, profile: readProfile(new ProfileReader(name, env), profiles[name]) };
+}
@@ -1,4 +1,5 @@
 import { ADMIN_API_KEY_HEADER } from './constants';
+import { getAny, isRecord, type RecordValue } from './serde';
 import {
   AdminApiKeyInfo,
   AdminApiKeySecret,
@@ -6,22 +7,161 @@ import {
   SupportedTokensResponse,
   UserSuspensionStatus,
 } from './models';
-import { RpcError } from './errors';
-import { normalizeBaseUrl, requestJson, type FetchFn as HttpFetchFn } from './http';
+import {
+  ClientClosedError,
+  InsufficientCollateralError,
+  RateLimitedError,
+  ReqIdConflictError,
+  RpcError,
+  RpcErrorOptions,
+  TabExpiredError,
+  TabNotFoundError,
+  UnsupportedGuaranteeVersionError,
+  UserSuspendedError,
+} from './errors';
+import {
+  normalizeBaseUrl,
+  parseRetryAfter,
+  requestJson,
+  resolveRetryPolicy,
+  type FetchFn as HttpFetchFn,
+  type RetryPolicy,
+} from './http';
 
 export type FetchFn = HttpFetchFn;
+export { DEFAULT_RETRY_POLICY, type RetryPolicy } from './http';
 export type BearerTokenProvider = () => string | Promise<string>;
+/** Called with a provider token that core rejected with 401, before the request is retried. */
+export type UnauthorizedHandler = (token: string) => void;
 
 function serializeTabId(tabId: number | bigint): string {
   return `0x${BigInt(tabId).toString(16)}`;
 }
 
+type RpcErrorFactory = (
+  message: string,
+  options: RpcErrorOptions,
+  details: RecordValue,
+  response: Response
+) => RpcError;
+
+const optionalBigInt = (value: unknown): bigint | undefined => {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^(0x[0-9a-fA-F]+|\d+)$/.test(value.trim())) {
+    return BigInt(value.trim());
+  }
+  return undefined;
+};
+
+const optionalNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const tabIdOf = (details: RecordValue) => optionalBigInt(getAny(details, 'tab_id', 'tabId'));
+
+/** Core error codes (normalised to upper snake case) and the error each one raises. */
+const RPC_ERROR_CODES: Record<string, RpcErrorFactory> = {
+  INSUFFICIENT_COLLATERAL: (message, options, details) =>
+    new InsufficientCollateralError(message, {
+      ...options,
+      required: optionalBigInt(
+        getAny(details, 'required', 'required_collateral', 'requiredCollateral')
+      ),
+      available: optionalBigInt(
+        getAny(details, 'available', 'available_collateral', 'availableCollateral')
+      ),
+      asset: optionalString(getAny(details, 'asset', 'asset_address', 'assetAddress')),
+    }),
+  TAB_NOT_FOUND: (message, options, details) =>
+    new TabNotFoundError(message, { ...options, tabId: tabIdOf(details) }),
+  TAB_EXPIRED: (message, options, details) =>
+    new TabExpiredError(message, {
+      ...options,
+      tabId: tabIdOf(details),
+      expiredAt: optionalNumber(getAny(details, 'expired_at', 'expiredAt', 'expires_at')),
+    }),
+  REQ_ID_CONFLICT: (message, options, details) =>
+    new ReqIdConflictError(message, {
+      ...options,
+      tabId: tabIdOf(details),
+      reqId: optionalBigInt(getAny(details, 'req_id', 'reqId')),
+      expectedReqId: optionalBigInt(getAny(details, 'expected_req_id', 'expectedReqId')),
+    }),
+  USER_SUSPENDED: (message, options, details) =>
+    new UserSuspendedError(message, {
+      ...options,
+      userAddress: optionalString(getAny(details, 'user_address', 'userAddress')),
+    }),
+  UNSUPPORTED_GUARANTEE_VERSION: (message, options, details) => {
+    const supported = getAny<unknown>(details, 'supported_versions', 'supportedVersions');
+    return new UnsupportedGuaranteeVersionError(message, {
+      ...options,
+      version: optionalNumber(getAny(details, 'version', 'guarantee_version', 'guaranteeVersion')),
+      supportedVersions: Array.isArray(supported)
+        ? supported.map(optionalNumber).filter((v): v is number => v !== undefined)
+        : undefined,
+    });
+  },
+  RATE_LIMITED: (message, options, details, response) => {
+    const secs = optionalNumber(getAny(details, 'retry_after', 'retryAfter', 'retry_after_secs'));
+    return new RateLimitedError(message, {
+      ...options,
+      retryAfterMs:
+        parseRetryAfter(response.headers.get('retry-after')) ??
+        (secs === undefined ? undefined : secs * 1000),
+    });
+  },
+};
+
+/**
+ * Build the most specific {@link RpcError} for a failed core response.
+ *
+ * Core reports `{ "error": "...", "code": "TAB_NOT_FOUND", ...fields }`, or nests the code and
+ * fields in an `error` object; fields may also sit under `details`. HTTP 429 always maps to
+ * {@link RateLimitedError}, preferring the `Retry-After` header.
+ */
+function rpcErrorFromResponse(
+  message: string,
+  response: Response,
+  body: unknown,
+  attempts: number
+): RpcError {
+  const payload = isRecord(body) ? body : {};
+  const nested = isRecord(payload.error) ? payload.error : {};
+  const details = {
+    ...payload,
+    ...nested,
+    ...(isRecord(payload.details) ? payload.details : {}),
+    ...(isRecord(nested.details) ? nested.details : {}),
+  };
+  const rawCode = optionalString(getAny(details, 'code', 'error_code', 'errorCode'));
+  const code = rawCode?.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  const options: RpcErrorOptions = { status: response.status, body, attempts, code: rawCode };
+
+  const factory =
+    response.status === 429 ? RPC_ERROR_CODES.RATE_LIMITED : code && RPC_ERROR_CODES[code];
+  return factory ? factory(message, options, details, response) : new RpcError(message, options);
+}
+
+function formatBearerToken(token: string): string {
+  const trimmed = token.trim();
+  return /^bearer\s+/i.test(trimmed) ? trimmed : `Bearer ${trimmed}`;
+}
+
 export class RpcProxy {
   private baseUrl: string;
   private adminApiKey?: string;
   private bearerToken?: string;
   private bearerTokenProvider?: BearerTokenProvider;
+  private onUnauthorized?: UnauthorizedHandler;
   private fetchFn: FetchFn;
+  private abortController = new AbortController();
+  private retryPolicy = resolveRetryPolicy();
 
   constructor(endpoint: string, adminApiKey?: string, fetchFn: FetchFn = fetch) {
     this.baseUrl = normalizeBaseUrl(endpoint);
@@ -29,8 +169,9 @@ export class RpcProxy {
     this.fetchFn = fetchFn;
   }
 
+  /** Abort outstanding requests and reject new ones with {@link ClientClosedError}. */
   async aclose(): Promise<void> {
-    // no-op for symmetry with Python SDK
+    this.abortController.abort();
   }
 
   withBearerToken(token: string): RpcProxy {
@@ -38,77 +179,96 @@ export class RpcProxy {
     return this;
   }
 
-  withTokenProvider(provider: BearerTokenProvider): RpcProxy {
+  /**
+   * Authenticate with tokens from `provider`. When `onUnauthorized` is given, a 401 from core
+   * passes the rejected token to it and the request is retried once with a fresh token.
+   */
+  withTokenProvider(provider: BearerTokenProvider, onUnauthorized?: UnauthorizedHandler): RpcProxy {
     this.bearerTokenProvider = provider;
+    this.onUnauthorized = onUnauthorized;
     return this;
   }
 
-  private async headers(): Promise<Record<string, string>> {
+  /** Replace the default timeout and retry policy. Pass `{ maxAttempts: 1 }` to disable retries. */
+  withRetryPolicy(policy: RetryPolicy): RpcProxy {
+    this.retryPolicy = resolveRetryPolicy(policy);
+    return this;
+  }
+
+  private headers(token?: string): Record<string, string> {
     const headers: Record<string, string> = {};
     if (this.adminApiKey) {
       headers[ADMIN_API_KEY_HEADER] = this.adminApiKey;
     }
-    const token = await this.resolveBearerToken();
     if (token) {
-      headers['Authorization'] = token;
+      headers['Authorization'] = formatBearerToken(token);
     }
     return headers;
   }
 
-  private async resolveBearerToken(): Promise<string | undefined> {
-    let token = this.bearerToken;
-    if (!token && this.bearerTokenProvider) {
-      token = await this.bearerTokenProvider();
-    }
-    if (!token) {
-      return undefined;
-    }
-    const trimmed = token.trim();
-    if (/^bearer\s+/i.test(trimmed)) {
-      return trimmed;
-    }
-    return `Bearer ${trimmed}`;
-  }
-
   private async get<T>(path: string): Promise<T> {
-    return requestJson<T>(
-      this.fetchFn,
-      `${this.baseUrl}${path}`,
-      {
-        headers: await this.headers(),
-        method: 'GET',
-      },
-      {
-        decodeError: (message) => new RpcError(message),
-        httpError: (message, response, body) =>
-          new RpcError(message, {
-            status: response.status,
-            body,
-          }),
-      }
-    );
+    return this.request<T>(path, { method: 'GET' });
   }
 
-  private async post<T>(path: string, body: unknown): Promise<T> {
-    return requestJson<T>(
-      this.fetchFn,
-      `${this.baseUrl}${path}`,
+  /** @param idempotent - Whether core treats a repeat of this POST as a no-op, so it may be retried. */
+  private async post<T>(path: string, body: unknown, idempotent = false): Promise<T> {
+    return this.request<T>(
+      path,
       {
-        headers: { 'content-type': 'application/json', ...(await this.headers()) },
+        headers: { 'content-type': 'application/json' },
         method: 'POST',
         body: JSON.stringify(body),
       },
-      {
-        decodeError: (message) => new RpcError(message),
-        httpError: (message, response, body) =>
-          new RpcError(message, {
-            status: response.status,
-            body,
-          }),
-      }
+      idempotent
     );
   }
 
+  private async request<T>(
+    path: string,
+    init: RequestInit & { headers?: Record<string, string> },
+    idempotent?: boolean,
+    retryUnauthorized = true
+  ): Promise<T> {
+    const { signal } = this.abortController;
+    if (signal.aborted) {
+      throw new ClientClosedError(`request to ${path} rejected: client is closed`);
+    }
+    const providedToken =
+      !this.bearerToken && this.bearerTokenProvider ? await this.bearerTokenProvider() : undefined;
+    const headers = { ...init.headers, ...this.headers(this.bearerToken ?? providedToken) };
+    try {
+      return await requestJson<T>(
+        this.fetchFn,
+        `${this.baseUrl}${path}`,
+        { ...init, headers },
+        {
+          decodeError: (message, _response, attempts) => new RpcError(message, { attempts }),
+          httpError: rpcErrorFromResponse,
+          transportError: (message, _cause, attempts) => new RpcError(message, { attempts }),
+          signal,
+          retry: this.retryPolicy,
+          idempotent,
+        }
+      );
+    } catch (err) {
+      if (signal.aborted) {
+        throw new ClientClosedError(`request to ${path} aborted: client is closed`);
+      }
+      if (
+        retryUnauthorized &&
+        providedToken &&
+        this.onUnauthorized &&
+        err instanceof RpcError &&
+        err.status === 401
+      ) {
+        // The token was revoked early; let the provider discard it and try once more.
+        this.onUnauthorized(providedToken);
+        return this.request<T>(path, init, idempotent, false);
+      }
+      throw err;
+    }
+  }
+
   async getPublicParams(): Promise<CorePublicParameters> {
     const data = await this.get<Record<string, unknown>>('/core/public-params');
     return CorePublicParameters.fromRpc(data);
@@ -119,6 +279,10 @@ export class RpcProxy {
     return SupportedTokensResponse.fromRpc(data);
   }
 
+  /**
+   * Never retried: if core accepted a request whose response was lost, a repeat is rejected as a
+   * `req_id` conflict even though the guarantee was issued.
+   */
   async issueGuarantee(body: unknown): Promise<Record<string, unknown>> {
     return this.post<Record<string, unknown>>('/core/guarantees', body);
   }
@@ -195,9 +359,11 @@ export class RpcProxy {
     userAddress: string,
     suspended: boolean
   ): Promise<UserSuspensionStatus> {
-    const data = await this.post<Record<string, unknown>>(`/core/users/${userAddress}/suspension`, {
-      suspended,
-    });
+    const data = await this.post<Record<string, unknown>>(
+      `/core/users/${userAddress}/suspension`,
+      { suspended },
+      true
+    );
     return UserSuspensionStatus.fromRpc(data);
   }
 
@@ -214,7 +380,8 @@ export class RpcProxy {
   async revokeAdminApiKey(keyId: string): Promise<AdminApiKeyInfo> {
     const data = await this.post<Record<string, unknown>>(
       `/core/admin/api-keys/${keyId}/revoke`,
-      {}
+      {},
+      true
     );
     return AdminApiKeyInfo.fromRpc(data);
   }
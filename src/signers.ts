@@ -0,0 +1,284 @@
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import {
+  bytesToHex,
+  concat,
+  formatTransactionRequest,
+  getTypesForEIP712Domain,
+  hexToBytes,
+  keccak256,
+  serializeTypedData,
+  toHex,
+  validateTypedData,
+  type Hex,
+  type LocalAccount,
+  type SignableMessage,
+  type TransactionRequest,
+  type TypedDataDomain,
+} from 'viem';
+import {
+  mnemonicToAccount,
+  privateKeyToAccount,
+  toAccount,
+  type HDAccount,
+  type PrivateKeyAccount,
+} from 'viem/accounts';
+import { ConfigError, SigningError } from './errors';
+import { extractErrorMessage } from './http';
+import type { FetchFn } from './rpc';
+import { isRecord, type RecordValue } from './serde';
+import { ValidationError, normalizeAddress, validateUrl } from './utils';
+
+/** Options for {@link mnemonicSigner}. */
+export interface MnemonicSignerOptions {
+  /** Full derivation path, e.g. `m/44'/60'/0'/0/3`. Overrides the index options. */
+  path?: string;
+  /** Account index in `m/44'/60'/{accountIndex}'/0/{addressIndex}`. Defaults to 0. */
+  accountIndex?: number;
+  /** Address index in `m/44'/60'/{accountIndex}'/0/{addressIndex}`. Defaults to 0. */
+  addressIndex?: number;
+  /** Optional BIP-39 passphrase. */
+  passphrase?: string;
+}
+
+/** Options for {@link remoteSigner}. */
+export interface RemoteSignerOptions {
+  /** JSON-RPC endpoint serving `eth_signTypedData_v4`, `personal_sign` and `eth_signTransaction`. */
+  url: string;
+  /** Address of the key held by the remote signer. */
+  address: string;
+  /** Extra HTTP headers, e.g. an `Authorization` header. */
+  headers?: Record<string, string>;
+  /** HTTP fetch implementation. Defaults to global `fetch`. */
+  fetchFn?: FetchFn;
+}
+
+const HD_PATH = /^m\/44'\/60'\/\d+'\/\d+\/\d+$/;
+
+/** Highest pbkdf2 iteration count accepted; wallets write 262 144. Each one blocks the event loop. */
+const MAX_PBKDF2_ITERATIONS = 2_000_000;
+
+/**
+ * Decrypt an Ethereum V3 keystore (as written by geth, clef or ethers) into a signer.
+ *
+ * Supports the `scrypt` and `pbkdf2` (`hmac-sha256`) KDFs with `aes-128-ctr`.
+ *
+ * @param keystore - Keystore JSON text or parsed object.
+ * @param password - Keystore password.
+ * @throws {@link ConfigError} if the keystore is malformed or the password is wrong.
+ * @throws {@link ValidationError} if the pbkdf2 iteration count is not a positive integer up to
+ *   2 000 000.
+ */
+export function keystoreSigner(keystore: string | object, password: string): PrivateKeyAccount {
+  let parsed: unknown = keystore;
+  if (typeof keystore === 'string') {
+    try {
+      parsed = JSON.parse(keystore);
+    } catch {
+      throw new ConfigError('invalid keystore: not valid JSON');
+    }
+  }
+  if (!isRecord(parsed) || Number(parsed.version) !== 3) {
+    throw new ConfigError('invalid keystore: expected a version 3 keystore');
+  }
+  const crypto = parsed.crypto ?? parsed.Crypto;
+  if (!isRecord(crypto) || !isRecord(crypto.kdfparams) || !isRecord(crypto.cipherparams)) {
+    throw new ConfigError('invalid keystore: missing crypto section');
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new ConfigError(`unsupported keystore cipher: ${String(crypto.cipher)}`);
+  }
+
+  const derivedKey = deriveKeystoreKey(String(crypto.kdf), crypto.kdfparams, password);
+  const ciphertext = keystoreBytes(crypto.ciphertext, 'ciphertext');
+  const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== String(crypto.mac).toLowerCase().replace(/^0x/, '')) {
+    throw new ConfigError('invalid keystore password');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    keystoreBytes(crypto.cipherparams.iv, 'cipherparams.iv')
+  );
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  const account = privateKeyToAccount(bytesToHex(privateKey));
+  if (typeof parsed.address === 'string' && parsed.address) {
+    const expected = normalizeAddress(parsed.address.replace(/^(0x)?/, '0x'));
+    if (expected !== account.address) {
+      throw new ConfigError(
+        `keystore address mismatch: file says ${expected}, key is ${account.address}`
+      );
+    }
+  }
+  return account;
+}
+
+/**
+ * Read and decrypt a V3 keystore file. See {@link keystoreSigner}.
+ *
+ * @throws {@link ConfigError} if the file cannot be read or decrypted.
+ */
+export function keystoreFileSigner(path: string, password: string): PrivateKeyAccount {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new ConfigError(`cannot read keystore file ${path}: ${String(err)}`);
+  }
+  return keystoreSigner(text, password);
+}
+
+/**
+ * Derive a signer from a BIP-39 mnemonic. Defaults to the first account at
+ * `m/44'/60'/0'/0/0`.
+ *
+ * @throws {@link ConfigError} if the mnemonic or derivation path is invalid.
+ */
+export function mnemonicSigner(phrase: string, options: MnemonicSignerOptions = {}): HDAccount {
+  const mnemonic = phrase.trim().split(/\s+/).join(' ');
+  if (!validateMnemonic(mnemonic, wordlist)) {
+    throw new ConfigError('invalid mnemonic');
+  }
+  if (options.path !== undefined && !HD_PATH.test(options.path)) {
+    throw new ConfigError(`invalid derivation path: ${options.path}`);
+  }
+  for (const key of ['accountIndex', 'addressIndex'] as const) {
+    const value = options[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new ConfigError(`invalid ${key}: ${value}`);
+    }
+  }
+  const { passphrase } = options;
+  if (options.path !== undefined) {
+    return mnemonicToAccount(mnemonic, { path: options.path as `m/44'/60'/${string}`, passphrase });
+  }
+  return mnemonicToAccount(mnemonic, {
+    accountIndex: options.accountIndex,
+    addressIndex: options.addressIndex,
+    passphrase,
+  });
+}
+
+/**
+ * Signer backed by an external JSON-RPC signing service (clef, a KMS bridge, a wallet
+ * daemon, ...). Typed data is sent via `eth_signTypedData_v4`, messages via `personal_sign` and
+ * transactions via `eth_signTransaction`; the key never enters this process.
+ *
+ * @throws {@link ConfigError} if the URL or address is invalid.
+ */
+export function remoteSigner(options: RemoteSignerOptions): LocalAccount {
+  let url: string;
+  let address: Hex;
+  try {
+    url = validateUrl(options.url);
+    address = normalizeAddress(options.address) as Hex;
+  } catch (err) {
+    if (err instanceof ValidationError) throw new ConfigError(err.message);
+    throw err;
+  }
+  const fetchFn = options.fetchFn ?? fetch;
+  let nextId = 1;
+
+  const call = async (method: string, params: unknown[]): Promise<Hex> => {
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...options.headers },
+        body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+      });
+    } catch (err) {
+      throw new SigningError(`remote signer ${method} failed: ${String(err)}`);
+    }
+    let payload: RecordValue | undefined;
+    try {
+      const parsed: unknown = await response.json();
+      if (isRecord(parsed)) payload = parsed;
+    } catch {
+      // Reported below.
+    }
+    if (!response.ok || !payload) {
+      throw new SigningError(
+        `remote signer ${method} failed: ${response.status}: ${extractErrorMessage(payload)}`
+      );
+    }
+    if (payload.error !== undefined) {
+      throw new SigningError(
+        `remote signer ${method} failed: ${extractErrorMessage(payload.error)}`
+      );
+    }
+    if (typeof payload.result !== 'string' || !payload.result.startsWith('0x')) {
+      throw new SigningError(`remote signer ${method} returned no result`);
+    }
+    return payload.result as Hex;
+  };
+
+  return toAccount({
+    address,
+    signMessage: ({ message }) => call('personal_sign', [encodeMessage(message), address]),
+    signTypedData: (typedData) => {
+      const types = {
+        EIP712Domain: getTypesForEIP712Domain({
+          domain: typedData.domain as TypedDataDomain | undefined,
+        }),
+        ...typedData.types,
+      };
+      const definition = { ...typedData, types } as Parameters<typeof serializeTypedData>[0];
+      validateTypedData(definition);
+      return call('eth_signTypedData_v4', [address, serializeTypedData(definition)]);
+    },
+    signTransaction: (transaction) =>
+      call('eth_signTransaction', [
+        formatTransactionRequest({ ...transaction, from: address } as TransactionRequest),
+      ]),
+  });
+}
+
+function encodeMessage(message: SignableMessage): Hex {
+  if (typeof message === 'string') return toHex(message);
+  return typeof message.raw === 'string' ? message.raw : toHex(message.raw);
+}
+
+function keystoreBytes(value: unknown, label: string): Uint8Array {
+  if (typeof value !== 'string' || !/^(0x)?([0-9a-fA-F]{2})+$/.test(value)) {
+    throw new ConfigError(`invalid keystore: bad ${label}`);
+  }
+  return hexToBytes(value.replace(/^(0x)?/, '0x') as Hex);
+}
+
+function deriveKeystoreKey(kdf: string, params: RecordValue, password: string): Buffer {
+  const salt = keystoreBytes(params.salt, 'kdfparams.salt');
+  const dklen = Number(params.dklen);
+  if (!Number.isInteger(dklen) || dklen < 32) {
+    throw new ConfigError('invalid keystore: bad kdfparams.dklen');
+  }
+  if (kdf === 'scrypt') {
+    const N = Number(params.n);
+    const r = Number(params.r);
+    const p = Number(params.p);
+    try {
+      return scryptSync(password, salt, dklen, { N, r, p, maxmem: 256 * N * r });
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      throw new ConfigError(
+        `unsupported keystore scrypt parameters (n=${N}, r=${r}, p=${p}): ${detail}`
+      );
+    }
+  }
+  if (kdf === 'pbkdf2') {
+    if (params.prf !== 'hmac-sha256') {
+      throw new ConfigError(`unsupported keystore prf: ${String(params.prf)}`);
+    }
+    const c = Number(params.c);
+    if (!Number.isInteger(c) || c < 1 || c > MAX_PBKDF2_ITERATIONS) {
+      throw new ValidationError(
+        `invalid keystore: kdfparams.c must be an integer from 1 to ${MAX_PBKDF2_ITERATIONS}, got ${String(params.c)}`
+      );
+    }
+    return pbkdf2Sync(password, salt, c, dklen, 'sha256');
+  }
+  throw new ConfigError(`unsupported keystore kdf: ${kdf}`);
+}
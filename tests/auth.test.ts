@@ -3,7 +3,7 @@ import { privateKeyToAccount } from 'viem/accounts';
 import { describe, expect, it, vi } from 'vitest';
 import { AuthClient, AuthSession, buildSiweMessage } from '../src/auth';
 import { AuthApiError, AuthConfigError, AuthDecodeError, AuthTransportError } from '../src/errors';
-import type { FetchFn } from '../src/rpc';
+import { RpcProxy, type FetchFn } from '../src/rpc';
 
 const PRIVATE_KEY = '0x59c6995e998f97a5a0044976f7be35d5ad91c0cfa55b5cfb20b07a1c60f4c5bc';
 
@@ -272,6 +272,65 @@ describe('AuthSession', () => {
     expect(calls.verify).toBe(1);
   });
 
+  it('refreshes once when parallel core calls hit a revoked token', async () => {
+    const calls = { verify: 0, refresh: 0 };
+    const authFetch: FetchFn = async (input) => {
+      const path = new URL(input.toString()).pathname;
+      if (path === '/auth/nonce') {
+        return new Response(JSON.stringify(noncePayload), { status: 200 });
+      }
+      if (path === '/auth/verify') {
+        calls.verify += 1;
+        return new Response(
+          JSON.stringify({ access_token: 'access-1', refresh_token: 'r1', expires_in: 3600 })
+        );
+      }
+      calls.refresh += 1;
+      return new Response(
+        JSON.stringify({ access_token: 'access-2', refresh_token: 'r2', expires_in: 3600 })
+      );
+    };
+    const coreFetch = vi.fn<FetchFn>(async (_input, init) => {
+      const auth = (init?.headers as Record<string, string>)['Authorization'];
+      return auth === 'Bearer access-1'
+        ? new Response('token revoked', { status: 401 })
+        : new Response('{}', { status: 200 });
+    });
+    const session = new AuthSession({
+      authUrl: 'https://auth.example.com',
+      signer: privateKeyToAccount(PRIVATE_KEY as Hex),
+      fetchFn: authFetch,
+    });
+    const proxy = new RpcProxy('https://core.example.com', undefined, coreFetch).withTokenProvider(
+      () => session.accessToken(),
+      (token) => session.invalidate(token)
+    );
+
+    await session.login();
+    await Promise.all(Array.from({ length: 5 }, (_, i) => proxy.getTab(i)));
+    expect(calls).toEqual({ verify: 1, refresh: 1 });
+    expect(coreFetch).toHaveBeenCalledTimes(10);
+
+    session.invalidate('access-1');
+    expect(session.state().expiringSoon).toBe(false);
+  });
+
+  it('retries a 401 only once', async () => {
+    const coreFetch = vi.fn<FetchFn>(async () => new Response('nope', { status: 401 }));
+    const invalidate = vi.fn();
+    const proxy = new RpcProxy('https://core.example.com', undefined, coreFetch).withTokenProvider(
+      () => 'token',
+      invalidate
+    );
+    await expect(proxy.getTab(1)).rejects.toMatchObject({ status: 401 });
+    expect(invalidate).toHaveBeenCalledExactlyOnceWith('token');
+    expect(coreFetch).toHaveBeenCalledTimes(2);
+
+    const static401 = new RpcProxy('https://core.example.com', undefined, coreFetch);
+    await expect(static401.withBearerToken('t').getTab(1)).rejects.toMatchObject({ status: 401 });
+    expect(coreFetch).toHaveBeenCalledTimes(3);
+  });
+
   it('rejects negative refresh margins', () => {
     expect(
       () =>
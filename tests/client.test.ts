@@ -0,0 +1,864 @@
+import { keccak256 } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '../src/client';
+import { ConfigBuilder, type Config } from '../src/config';
+import { ContractGateway } from '../src/contract';
+import {
+  ClientClosedError,
+  ClientInitializationError,
+  ContractError,
+  ReadOnlyClientError,
+  WaitTimeoutError,
+} from '../src/errors';
+import { TabInfo } from '../src/models';
+
+const CONTRACT = '0x1234567890AbcdEF1234567890aBcdef12345678';
+const DOMAIN = '0x' + '11'.repeat(32);
+const CODE = '0x6080604052';
+
+const publicParams = {
+  public_key: [1, 2, 3],
+  contract_address: CONTRACT,
+  ethereum_http_rpc_url: 'http://localhost:8545',
+  eip712_name: '4mica',
+  eip712_version: '1',
+  chain_id: 1337,
+  active_guarantee_domain_separator: DOMAIN,
+};
+
+function stubCore(params: Record<string, unknown> = publicParams) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(JSON.stringify(params), { status: 200 }))
+  );
+}
+
+function stubGateway(opts: { code?: string; domain?: string; address?: string } = {}) {
+  const gateway = {
+    contract: { address: opts.address ?? CONTRACT },
+    getContractCode: vi.fn(async () => ('code' in opts ? opts.code : CODE)),
+    getGuaranteeDomain: vi.fn(async () => opts.domain ?? DOMAIN),
+    drain: vi.fn(async () => true),
+  };
+  vi.spyOn(ContractGateway, 'create').mockResolvedValue(gateway as unknown as ContractGateway);
+  return gateway;
+}
+
+function buildConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    rpcUrl: 'http://core.example.com',
+    signer: privateKeyToAccount(('0x' + '11'.repeat(32)) as `0x${string}`),
+    ...overrides,
+  };
+}
+
+describe('Client contract verification', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('skips verification unless configured', async () => {
+    stubCore();
+    const gateway = stubGateway({ code: undefined });
+    const client = await Client.new(buildConfig());
+    expect(client.guaranteeDomain).toBe(DOMAIN);
+    expect(gateway.getContractCode).not.toHaveBeenCalled();
+  });
+
+  it('accepts a matching deployment', async () => {
+    stubCore();
+    stubGateway();
+    const client = await Client.new(
+      buildConfig({
+        contractVerification: { expectedAddress: CONTRACT, expectedCodeHash: keccak256(CODE) },
+      })
+    );
+    expect(client.guaranteeDomain).toBe(DOMAIN);
+  });
+
+  it('rejects an unexpected contract address', async () => {
+    stubCore();
+    stubGateway();
+    await expect(
+      Client.new(
+        buildConfig({
+          contractVerification: {
+            expectedAddress: '0x0000000000000000000000000000000000000001',
+          },
+        })
+      )
+    ).rejects.toThrow(ClientInitializationError);
+  });
+
+  it('rejects a missing or mismatched bytecode', async () => {
+    stubCore();
+    stubGateway({ code: undefined });
+    await expect(
+      Client.new(buildConfig({ contractVerification: { expectedAddress: CONTRACT } }))
+    ).rejects.toThrow(/no contract code/);
+
+    stubGateway({ code: '0x6080' });
+    await expect(
+      Client.new(
+        buildConfig({
+          contractVerification: { expectedAddress: CONTRACT, expectedCodeHash: keccak256(CODE) },
+        })
+      )
+    ).rejects.toThrow(/code hash mismatch/);
+  });
+
+  it('rejects a guarantee domain that differs from core', async () => {
+    stubCore();
+    stubGateway({ domain: '0x' + '22'.repeat(32) });
+    await expect(
+      Client.new(buildConfig({ contractAddress: CONTRACT, contractVerification: {} }))
+    ).rejects.toThrow(/guarantee domain separator mismatch/);
+  });
+
+  it('requires an expected address when the network pins none', async () => {
+    stubCore();
+    const gateway = stubGateway();
+    await expect(
+      Client.new(buildConfig({ contractVerification: { expectedCodeHash: keccak256(CODE) } }))
+    ).rejects.toThrow(/needs an expected address/);
+    expect(gateway.getContractCode).not.toHaveBeenCalled();
+  });
+});
+
+describe('Client snapshots', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('round trips a snapshot through JSON without contacting core', async () => {
+    stubCore();
+    stubGateway();
+    const client = await Client.new(buildConfig());
+    const json = JSON.stringify(client.snapshot());
+
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const restored = await Client.fromSnapshot(buildConfig(), JSON.parse(json));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(vi.mocked(ContractGateway.create).mock.calls.at(-1)?.[4]).toEqual({
+      skipChainIdCheck: true,
+    });
+    expect(restored.guaranteeDomain).toBe(DOMAIN);
+    expect(restored.params.chainId).toBe(1337);
+    expect(restored.params.contractAddress).toBe(CONTRACT);
+    expect(restored.params.publicKey).toEqual(new Uint8Array([1, 2, 3]));
+    expect(restored.params.activeGuaranteeDomainSeparator).toBe(DOMAIN);
+  });
+
+  it('rejects malformed snapshots', async () => {
+    stubGateway();
+    await expect(
+      Client.fromSnapshot(buildConfig(), { guaranteeDomain: DOMAIN } as never)
+    ).rejects.toThrow(ClientInitializationError);
+  });
+
+  it('reports drift from background refreshes until closed', async () => {
+    vi.useFakeTimers();
+    stubCore({ ...publicParams, chain_id: 1337 });
+    stubGateway({ domain: '0x' + '22'.repeat(32) });
+    const onDrift = vi.fn();
+    const snapshot = {
+      params: { ...publicParams, chain_id: 1337 },
+      guaranteeDomain: DOMAIN,
+    };
+    const client = await Client.fromSnapshot(buildConfig(), snapshot, {
+      refreshIntervalMs: 1000,
+      onDrift,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onDrift).toHaveBeenCalledTimes(1);
+    expect(onDrift.mock.calls[0]?.[0].fields).toEqual(['guaranteeDomain']);
+
+    await client.aclose();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onDrift).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports fields core no longer returns', async () => {
+    let params: Record<string, unknown> = publicParams;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify(params), { status: 200 }))
+    );
+    stubGateway();
+    const client = await Client.new(buildConfig());
+    params = { ...publicParams };
+    delete params.active_guarantee_domain_separator;
+
+    const drift = await client.checkSnapshotDrift();
+    expect(drift?.fields).toEqual(['active_guarantee_domain_separator']);
+  });
+
+  it('returns null when the live state matches', async () => {
+    stubCore();
+    stubGateway();
+    const client = await Client.new(buildConfig());
+    await expect(client.checkSnapshotDrift()).resolves.toBeNull();
+  });
+});
+
+describe('Client recipient role', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('authenticates and transacts as a separate recipient account', async () => {
+    const payer = privateKeyToAccount(('0x' + '11'.repeat(32)) as `0x${string}`);
+    const recipient = privateKeyToAccount(('0x' + '22'.repeat(32)) as `0x${string}`);
+    const requests: { path: string; authorization?: string }[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: string, init?: RequestInit) => {
+        const path = new URL(input).pathname;
+        const headers = (init?.headers ?? {}) as Record<string, string>;
+        requests.push({ path, authorization: headers['Authorization'] });
+        let body: unknown = [];
+        if (path === '/core/public-params') body = publicParams;
+        if (path === '/auth/nonce') {
+          body = {
+            nonce: 'n',
+            siwe: {
+              domain: 'core.example.com',
+              uri: 'http://core.example.com',
+              chain_id: 1337,
+              statement: 'Sign in',
+              expiration: '2099-01-01T00:00:00Z',
+              issued_at: '2024-01-01T00:00:00Z',
+            },
+          };
+        }
+        if (path === '/auth/verify') {
+          const { address } = JSON.parse(String(init?.body));
+          body = { access_token: `token-${address}`, refresh_token: 'rt', expires_in: 3600 };
+        }
+        return new Response(JSON.stringify(body), { status: 200 });
+      })
+    );
+    const gateway = stubGateway();
+
+    const client = await Client.new(
+      buildConfig({
+        signer: payer,
+        recipientSigner: recipient,
+        authUrl: 'http://core.example.com',
+        authRefreshMarginSecs: 60,
+      })
+    );
+
+    const signers = vi.mocked(ContractGateway.create).mock.calls.map((call) => call[1].address);
+    expect(signers).toEqual([payer.address, recipient.address]);
+    expect(client.recipientRole.gateway).toBe(gateway);
+    expect(client.recipientRole.rpc).not.toBe(client.rpc);
+    expect(client.recipientRole.signer.signer.address).toBe(recipient.address);
+    expect(client.signer.signer.address).toBe(payer.address);
+
+    await client.recipient.listSettledTabs();
+    const settled = requests.find((r) => r.path.endsWith('/settled-tabs'));
+    expect(settled).toEqual({
+      path: `/core/recipients/${recipient.address}/settled-tabs`,
+      authorization: `Bearer token-${recipient.address}`,
+    });
+
+    const tokens = await client.login();
+    expect(tokens.accessToken).toBe(`token-${payer.address}`);
+    await expect(client.aclose({ drainTimeoutMs: 100 })).resolves.toBe(true);
+    expect(gateway.drain).toHaveBeenCalledWith(100);
+    expect(requests.filter((r) => r.path === '/auth/logout')).toHaveLength(2);
+  });
+
+  it('shares one role when no recipient signer is configured', async () => {
+    stubCore();
+    stubGateway();
+    const client = await Client.new(buildConfig());
+    expect(client.recipientRole).toBe(client);
+    expect(ContractGateway.create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Client diagnostics', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function stubDiagnostics(gateway: ReturnType<typeof stubGateway>, chainId = 1337) {
+    return Object.assign(gateway, {
+      chain: { nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 } },
+      getChainId: vi.fn(async () => chainId),
+      getNonce: vi.fn(async () => 7),
+      getNativeBalance: vi.fn(async () => 5n * 10n ** 17n),
+      getGuaranteeVersionConfig: vi.fn(async (version: number) => ({
+        domainSeparator: DOMAIN,
+        decoder: CONTRACT,
+        enabled: version === 1,
+      })),
+    });
+  }
+
+  it('reports a healthy client', async () => {
+    stubCore();
+    const gateway = stubDiagnostics(stubGateway());
+    const client = await Client.new(buildConfig());
+
+    const report = await client.diagnose();
+    expect(report.ok).toBe(true);
+    expect(report.core).toMatchObject({ status: 'ok', chainId: 1337 });
+    expect(report.chain).toMatchObject({ status: 'ok', expected: 1337, core: 1337, rpc: 1337 });
+    expect(report.contract).toMatchObject({ status: 'ok', address: CONTRACT, codePresent: true });
+    expect(report.guaranteeVersions.map((v) => [v.version, v.status])).toEqual([
+      [1, 'ok'],
+      [2, 'warn'],
+    ]);
+    expect(report.signers).toEqual([
+      expect.objectContaining({
+        role: 'user',
+        address: client.signer.signer.address,
+        nonce: 7,
+        balanceFormatted: '0.5 ETH',
+      }),
+    ]);
+    expect(report.auth).toEqual([expect.objectContaining({ role: 'user', status: 'skipped' })]);
+    expect(gateway.getNonce).toHaveBeenCalledWith(client.signer.signer.address);
+  });
+
+  it('records failures instead of throwing', async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(publicParams), { status: 200 }))
+      .mockRejectedValue(new TypeError('connection refused'));
+    vi.stubGlobal('fetch', fetchFn);
+    const gateway = stubDiagnostics(stubGateway(), 1);
+    const client = await Client.new(buildConfig());
+    gateway.getContractCode.mockResolvedValue(undefined);
+    gateway.getNativeBalance.mockReturnValue(new Promise(() => {}));
+
+    const report = await client.diagnose({ timeoutMs: 20 });
+    expect(report.ok).toBe(false);
+    expect(report.core.status).toBe('error');
+    expect(report.chain).toMatchObject({ status: 'error', rpc: 1 });
+    expect(report.chain.message).toContain('chain ID mismatch');
+    expect(report.contract).toMatchObject({ status: 'error', codePresent: false });
+    expect(report.signers[0]).toMatchObject({ status: 'error', message: 'timed out after 20ms' });
+  });
+});
+
+describe('Client watch-only mode', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('allows reads and rejects writes', async () => {
+    const watched = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+    const other = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+    stubCore();
+    const gateway = Object.assign(stubGateway(), {
+      getUserAssets: vi.fn(async () => []),
+      getUsersAssets: vi.fn(async () => [
+        [
+          {
+            asset: other,
+            collateral: 5n,
+            withdrawalRequestAmount: 0n,
+            withdrawalRequestTimestamp: 0n,
+          },
+        ],
+      ]),
+      deposit: vi.fn(),
+    });
+    const cfg = new ConfigBuilder()
+      .rpcUrl('http://core.example.com')
+      .watchOnly(watched)
+      .bearerToken('t')
+      .build();
+    const client = await Client.new(cfg);
+
+    expect(client.readOnly).toBe(true);
+    expect(client.signer.signer.address).toBe(watched);
+    await client.user.getUser();
+    await client.user.getUser(other.toLowerCase());
+    expect(gateway.getUserAssets.mock.calls).toEqual([[undefined], [other]]);
+    await expect(client.user.getUsers([other.toLowerCase()])).resolves.toEqual([
+      [
+        {
+          asset: other,
+          collateral: 5n,
+          withdrawalRequestAmount: 0n,
+          withdrawalRequestTimestamp: 0,
+        },
+      ],
+    ]);
+    expect(gateway.getUsersAssets).toHaveBeenCalledWith([other]);
+
+    await expect(client.user.deposit(1n)).rejects.toThrow(ReadOnlyClientError);
+    await expect(client.recipient.createTab(watched, other, null)).rejects.toThrow(
+      'createTab is not available on a watch-only client'
+    );
+    expect(gateway.deposit).not.toHaveBeenCalled();
+  });
+});
+
+describe('Client protocol deadlines', () => {
+  const params = {
+    tabExpirationTime: 86_400,
+    remunerationGracePeriod: 3_600,
+    withdrawalGracePeriod: 600,
+    synchronizationDelay: 60,
+    yieldFeeBps: 0,
+    paused: false,
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('derives withdrawal and remuneration deadlines from the parameters', async () => {
+    const token = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+    stubCore();
+    Object.assign(stubGateway(), {
+      getProtocolParameters: vi.fn(async () => params),
+      getUserAssets: vi.fn(async () => [
+        {
+          asset: '0x0000000000000000000000000000000000000000',
+          collateral: 10n,
+          withdrawalRequestAmount: 0n,
+          withdrawalRequestTimestamp: 0n,
+        },
+        {
+          asset: token,
+          collateral: 10n,
+          withdrawalRequestAmount: 4n,
+          withdrawalRequestTimestamp: 1_000n,
+        },
+      ]),
+    });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    await expect(client.user.getWithdrawalFinalizableAt(token.toLowerCase())).resolves.toBe(1_600);
+    await expect(client.user.getWithdrawalFinalizableAt()).resolves.toBeNull();
+
+    const tab = new TabInfo(1n, token, token, token, 5_000, 0, 'OPEN', 'PENDING', 0, 0);
+    await expect(client.recipient.getRemunerationWindow(tab)).resolves.toEqual({
+      remunerableAfter: 8_600,
+      expiresAt: 91_400,
+    });
+  });
+});
+
+describe('Client settlement waits', () => {
+  const TX = '0x' + 'ab'.repeat(32);
+  let payments: Record<string, unknown>[] = [];
+
+  afterEach(() => {
+    payments = [];
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function stubCoreWithPayments() {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const body = String(url).endsWith('/payments') ? payments : publicParams;
+        return new Response(JSON.stringify(body), { status: 200 });
+      })
+    );
+  }
+
+  function stubChain(logs: unknown[] = []) {
+    let head = 10n;
+    return Object.assign(stubGateway(), {
+      getBlockNumber: vi.fn(async () => head++),
+      getBlockHash: vi.fn(async (n: bigint) => '0x' + n.toString(16).padStart(64, '0')),
+      getEventLogs: vi.fn(async (_types: unknown, from: bigint, to: bigint) =>
+        logs.filter((log) => {
+          const { blockNumber } = log as { blockNumber: bigint };
+          return blockNumber >= from && blockNumber <= to;
+        })
+      ),
+    });
+  }
+
+  it('waits for the chain and core to agree that a tab is paid', async () => {
+    stubCoreWithPayments();
+    const gateway = Object.assign(
+      stubChain([
+        {
+          eventName: 'TabPaid',
+          args: { tabId: 7n, asset: CONTRACT, user: CONTRACT, recipient: CONTRACT, amount: 9n },
+          blockNumber: 12n,
+          blockHash: '0x' + (12).toString(16).padStart(64, '0'),
+          transactionHash: TX,
+          logIndex: 0,
+        },
+      ]),
+      { getPaymentStatus: vi.fn(async () => ({ paid: 0n, remunerated: false, asset: CONTRACT })) }
+    );
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    const waiting = client.recipient.waitForTabPaid(7n, { minAmount: 9n, pollingInterval: 5 });
+    await new Promise((r) => setTimeout(r, 30));
+    gateway.getPaymentStatus.mockResolvedValue({ paid: 9n, remunerated: false, asset: CONTRACT });
+    payments = [{ user_address: CONTRACT, tx_hash: TX, amount: 9, finalized: false }];
+    await new Promise((r) => setTimeout(r, 30));
+    payments = [{ user_address: CONTRACT, tx_hash: TX, amount: 9, finalized: true }];
+
+    const result = await waiting;
+    expect(result.status.paid).toBe(9n);
+    expect(result.payments.map((p) => [p.txHash, p.finalized])).toEqual([[TX, true]]);
+  });
+
+  it('checks core payments when the chain poll sees the payment before the event', async () => {
+    payments = [{ user_address: CONTRACT, tx_hash: TX, amount: 9, finalized: false }];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const routes: Record<string, unknown> = {
+          '/payments': payments,
+          '/core/tabs/0x7': { tab_id: 7, start_timestamp: 1_000, created_at: 1_000 },
+        };
+        const key = Object.keys(routes).find((suffix) => String(url).endsWith(suffix));
+        return new Response(JSON.stringify(key ? routes[key] : publicParams), { status: 200 });
+      })
+    );
+    const gateway = Object.assign(
+      stubChain([
+        {
+          eventName: 'TabPaid',
+          args: { tabId: 7n, asset: CONTRACT, user: CONTRACT, recipient: CONTRACT, amount: 9n },
+          blockNumber: 5n,
+          blockHash: '0x' + (5).toString(16).padStart(64, '0'),
+          transactionHash: TX,
+          logIndex: 0,
+        },
+      ]),
+      {
+        getPaymentStatus: vi.fn(async () => ({ paid: 9n, remunerated: false, asset: CONTRACT })),
+        getBlockNumberAt: vi.fn(async () => 3n),
+      }
+    );
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    // The payment is already on-chain, below the block the watcher starts from.
+    const waiting = client.recipient.waitForTabPaid(7n, { pollingInterval: 5 });
+    await new Promise((r) => setTimeout(r, 30));
+    expect(gateway.getBlockNumberAt).toHaveBeenCalledWith(1_000);
+    payments = [{ user_address: CONTRACT, tx_hash: TX, amount: 9, finalized: true }];
+
+    const result = await waiting;
+    expect(result.payments.map((p) => [p.txHash, p.finalized])).toEqual([[TX, true]]);
+    // Fetched once and reused on every later poll.
+    expect(gateway.getBlockNumberAt).toHaveBeenCalledOnce();
+    const backfills = gateway.getEventLogs.mock.calls.filter(([, from]) => from === 3n);
+    expect(backfills).toEqual([[['TabPaid', 'PaymentRecorded'], 3n, expect.any(BigInt)]]);
+  });
+
+  it('waits for core to finalize an ETH payment it recorded on-chain', async () => {
+    const ETH = '0x0000000000000000000000000000000000000000';
+    const USER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+    const RECORD_TX = '0x' + 'dd'.repeat(32);
+    payments = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const routes: Record<string, unknown> = {
+          '/payments': payments,
+          '/core/tabs/0x7': { tab_id: 7, user_address: USER, asset_address: ETH },
+        };
+        const key = Object.keys(routes).find((suffix) => String(url).endsWith(suffix));
+        return new Response(JSON.stringify(key ? routes[key] : publicParams), { status: 200 });
+      })
+    );
+    // ETH transfers emit no TabPaid; core's recordPayment emits PaymentRecorded in its own tx.
+    const gateway = Object.assign(
+      stubChain([
+        {
+          eventName: 'PaymentRecorded',
+          args: { tabId: 7n, asset: ETH, amount: 9n },
+          blockNumber: 12n,
+          blockHash: '0x' + (12).toString(16).padStart(64, '0'),
+          transactionHash: RECORD_TX,
+          logIndex: 0,
+        },
+      ]),
+      { getPaymentStatus: vi.fn(async () => ({ paid: 0n, remunerated: false, asset: ETH })) }
+    );
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    const waiting = client.recipient.waitForTabPaid(7n, { minAmount: 9n, pollingInterval: 5 });
+    await new Promise((r) => setTimeout(r, 30));
+    gateway.getPaymentStatus.mockResolvedValue({ paid: 9n, remunerated: false, asset: ETH });
+    payments = [{ user_address: USER, tx_hash: TX, amount: 9, finalized: false }];
+    await new Promise((r) => setTimeout(r, 30));
+    payments = [{ user_address: USER, tx_hash: TX, amount: 9, finalized: true }];
+
+    const result = await waiting;
+    expect(result.payments.map((p) => [p.txHash, p.finalized])).toEqual([[TX, true]]);
+  });
+
+  it('rejects remuneration waits on timeout or abort', async () => {
+    stubCore();
+    Object.assign(stubChain(), {
+      getPaymentStatus: vi.fn(async () => ({ paid: 1n, remunerated: false, asset: CONTRACT })),
+    });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    await expect(
+      client.recipient.waitForRemuneration(1n, { timeout: 20, pollingInterval: 5 })
+    ).rejects.toBeInstanceOf(WaitTimeoutError);
+
+    const controller = new AbortController();
+    const waiting = client.recipient.waitForRemuneration(1n, {
+      signal: controller.signal,
+      pollingInterval: 5,
+    });
+    controller.abort(new Error('shutting down'));
+    await expect(waiting).rejects.toThrow('shutting down');
+  });
+
+  it('stops polling and rejects pending waits when the client is closed', async () => {
+    stubCore();
+    const gateway = Object.assign(stubChain(), {
+      getPaymentStatus: vi.fn(async () => ({ paid: 1n, remunerated: false, asset: CONTRACT })),
+    });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    const setIntervalSpy = vi.spyOn(globalThis, 'setInterval');
+    const waiting = client.recipient.waitForRemuneration(1n, { pollingInterval: 5 });
+    // The wait's ticker does not keep the process alive.
+    const ticker = setIntervalSpy.mock.results[0]?.value as NodeJS.Timeout;
+    expect(ticker.hasRef()).toBe(false);
+    await new Promise((r) => setTimeout(r, 20));
+    await client.aclose();
+    await expect(waiting).rejects.toBeInstanceOf(ClientClosedError);
+
+    const polls = gateway.getPaymentStatus.mock.calls.length;
+    await new Promise((r) => setTimeout(r, 30));
+    expect(gateway.getPaymentStatus.mock.calls.length).toBe(polls);
+
+    // Waits and watchers started after close fail instead of polling forever.
+    await expect(
+      client.recipient.waitForRemuneration(1n, { pollingInterval: 5 })
+    ).rejects.toBeInstanceOf(ClientClosedError);
+    expect(() => client.events.watch({}, () => {})).toThrow(ClientClosedError);
+    expect(gateway.getPaymentStatus.mock.calls.length).toBe(polls);
+  });
+
+  it('waits for the withdrawal grace period on the chain clock', async () => {
+    stubCore();
+    const gateway = Object.assign(stubChain(), {
+      getProtocolParameters: vi.fn(async () => ({ withdrawalGracePeriod: 600 })),
+      getUserAssets: vi.fn(async () => [
+        {
+          asset: '0x0000000000000000000000000000000000000000',
+          collateral: 10n,
+          withdrawalRequestAmount: 4n,
+          withdrawalRequestTimestamp: 1_000n,
+        },
+      ]),
+      getBlockTimestamp: vi.fn().mockResolvedValueOnce(1_500).mockResolvedValue(1_600),
+    });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    await expect(
+      client.user.waitForWithdrawalFinalizable(undefined, { pollingInterval: 5 })
+    ).resolves.toBe(1_600);
+    expect(gateway.getBlockTimestamp.mock.calls.length).toBeGreaterThan(1);
+
+    gateway.getUserAssets.mockResolvedValue([]);
+    await expect(
+      client.user.waitForWithdrawalFinalizable(undefined, { pollingInterval: 5 })
+    ).rejects.toBeInstanceOf(ContractError);
+  });
+});
+
+describe('Client tab timeline', () => {
+  const ASSET = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+  const PAID_TX = '0x' + 'aa'.repeat(32);
+  const UNKNOWN_TX = '0x' + 'bb'.repeat(32);
+  const REMUNERATE_TX = '0x' + 'cc'.repeat(32);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function log(eventName: string, blockNumber: bigint, tx: string, amount: bigint) {
+    return {
+      eventName,
+      args: { tabId: 7n, asset: ASSET, user: CONTRACT, recipient: CONTRACT, amount },
+      blockNumber,
+      blockHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+      transactionHash: tx,
+      logIndex: 0,
+    };
+  }
+
+  it('merges core records and contract events in time order and flags mismatches', async () => {
+    const routes: Record<string, unknown> = {
+      '/public-params': publicParams,
+      '/guarantees': [
+        { tab_id: 7, req_id: 0, asset_address: ASSET, amount: 50, start_timestamp: 1_100 },
+        { tab_id: 7, req_id: 1, asset_address: ASSET, amount: 30, start_timestamp: 1_300 },
+      ],
+      '/collateral-events': [
+        { id: 'c1', asset_address: ASSET, amount: 50, event_type: 'LOCK', created_at: 1_150 },
+      ],
+      '/payments': [{ tx_hash: PAID_TX, amount: 40, finalized: true }],
+      '/core/tabs/0x7': {
+        tab_id: 7,
+        asset_address: ASSET,
+        start_timestamp: 1_000,
+        ttl_seconds: 3_600,
+        status: 'OPEN',
+        settlement_status: 'PENDING',
+        created_at: 1_000,
+        updated_at: 1_000,
+      },
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const key = Object.keys(routes).find((suffix) => String(url).endsWith(suffix));
+        return new Response(JSON.stringify(key ? routes[key] : null), { status: 200 });
+      })
+    );
+    const blockTimes: Record<string, number> = { '20': 1_200, '25': 1_400, '40': 2_000 };
+    const gateway = Object.assign(stubGateway(), {
+      getPaymentStatus: vi.fn(async () => ({ paid: 80n, remunerated: true, asset: ASSET })),
+      getProtocolParameters: vi.fn(async () => ({ tabExpirationTime: 1_800 })),
+      getBlockNumber: vi.fn(async () => 50n),
+      getBlockTimestamp: vi.fn(async (n?: bigint) =>
+        n === undefined ? 5_000 : blockTimes[`${n}`]
+      ),
+      getEventLogs: vi.fn(async () => [
+        log('TabPaid', 20n, PAID_TX, 40n),
+        log('PaymentRecorded', 20n, PAID_TX, 40n),
+        log('TabPaid', 25n, UNKNOWN_TX, 30n),
+        log('RecipientRemunerated', 40n, REMUNERATE_TX, 10n),
+      ]),
+    });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    const timeline = await client.recipient.getTabTimeline(7n, { fromBlock: 10n });
+    expect(gateway.getEventLogs).toHaveBeenCalledWith(
+      ['TabPaid', 'PaymentRecorded', 'RecipientRemunerated'],
+      10n,
+      50n
+    );
+    expect(timeline?.entries.map((e) => [e.type, e.source, e.timestamp])).toEqual([
+      ['created', 'core', 1_000],
+      ['guaranteeIssued', 'core', 1_100],
+      ['collateralLocked', 'core', 1_150],
+      ['paid', 'chain', 1_200],
+      ['guaranteeIssued', 'core', 1_300],
+      ['paid', 'chain', 1_400],
+      ['remunerated', 'chain', 2_000],
+      ['expired', 'chain', 2_800],
+    ]);
+    const paid = timeline!.entries.filter((e) => e.type === 'paid');
+    expect(paid.map((e) => e.discrepancies)).toEqual([
+      [],
+      ['core has no payment with this transaction hash'],
+    ]);
+    expect(timeline?.discrepancies).toEqual([
+      'on-chain paid total is 80 but payment events since block 10 add up to 70',
+    ]);
+  });
+
+  it('matches ETH payments recorded by core and keeps collateral event types', async () => {
+    const ETH = '0x0000000000000000000000000000000000000000';
+    const USER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+    const RECORD_TX = '0x' + 'dd'.repeat(32);
+    const routes: Record<string, unknown> = {
+      '/public-params': publicParams,
+      '/guarantees': [
+        { tab_id: 7, req_id: 0, asset_address: ETH, amount: 40, start_timestamp: 1_100 },
+      ],
+      '/collateral-events': [
+        { id: 'c1', asset_address: ETH, amount: 40, event_type: 'LOCK', created_at: 1_150 },
+        { id: 'c2', asset_address: ETH, amount: 40, event_type: 'UNLOCK', created_at: 1_250 },
+        { id: 'c3', asset_address: ETH, amount: 5, event_type: 'WITHDRAW', created_at: 1_300 },
+      ],
+      // Core lists the payer's transfer, not its own recordPayment transaction.
+      '/payments': [
+        { user_address: USER, tx_hash: PAID_TX, amount: 40, finalized: true, tab_id: 7 },
+      ],
+      '/core/tabs/0x7': {
+        tab_id: 7,
+        user_address: USER,
+        asset_address: ETH,
+        start_timestamp: 1_000,
+        ttl_seconds: 3_600,
+        status: 'OPEN',
+        settlement_status: 'PENDING',
+        created_at: 1_000,
+        updated_at: 1_000,
+      },
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const key = Object.keys(routes).find((suffix) => String(url).endsWith(suffix));
+        return new Response(JSON.stringify(key ? routes[key] : null), { status: 200 });
+      })
+    );
+    Object.assign(stubGateway(), {
+      getPaymentStatus: vi.fn(async () => ({ paid: 40n, remunerated: false, asset: ETH })),
+      getProtocolParameters: vi.fn(async () => ({ tabExpirationTime: 1_800 })),
+      getBlockNumber: vi.fn(async () => 50n),
+      getBlockTimestamp: vi.fn(async (n?: bigint) => (n === undefined ? 1_500 : 1_200)),
+      getEventLogs: vi.fn(async () => [
+        {
+          eventName: 'PaymentRecorded',
+          args: { tabId: 7n, asset: ETH, amount: 40n },
+          blockNumber: 20n,
+          blockHash: '0x' + (20).toString(16).padStart(64, '0'),
+          transactionHash: RECORD_TX,
+          logIndex: 0,
+        },
+      ]),
+    });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+
+    const timeline = await client.recipient.getTabTimeline(7n, { fromBlock: 10n });
+    expect(timeline?.entries.map((e) => [e.type, e.timestamp])).toEqual([
+      ['created', 1_000],
+      ['guaranteeIssued', 1_100],
+      ['collateralLocked', 1_150],
+      ['paid', 1_200],
+      ['collateralUnlocked', 1_250],
+    ]);
+    const paid = timeline!.entries.find((e) => e.type === 'paid');
+    expect(paid).toMatchObject({ txHash: RECORD_TX, corePayment: { txHash: PAID_TX } });
+    expect(timeline!.entries.flatMap((e) => e.discrepancies)).toEqual([]);
+    expect(timeline?.discrepancies).toEqual([]);
+  });
+
+  it('returns null for a tab core does not know', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const body = String(url).endsWith('/public-params') ? publicParams : null;
+        return new Response(JSON.stringify(body), { status: 200 });
+      })
+    );
+    const gateway = Object.assign(stubGateway(), { getEventLogs: vi.fn() });
+    const client = await Client.new(buildConfig({ authUrl: undefined }));
+    await expect(client.recipient.getTabTimeline(9n)).resolves.toBeNull();
+    expect(gateway.getEventLogs).not.toHaveBeenCalled();
+  });
+});
@@ -18,6 +18,11 @@ describe('ConfigBuilder', () => {
     delete process.env['4MICA_AUTH_URL'];
     delete process.env['4MICA_AUTH_REFRESH_MARGIN_SECS'];
     delete process.env['4MICA_BEARER_TOKEN'];
+    delete process.env['4MICA_VERIFY_CONTRACT'];
+    delete process.env['4MICA_RECIPIENT_WALLET_PRIVATE_KEY'];
+    delete process.env['4MICA_WATCH_ADDRESS'];
+    delete process.env['4MICA_HTTP_TIMEOUT_MS'];
+    delete process.env['4MICA_SIMULATE_WRITES'];
   });
 
   it('reads from env', () => {
@@ -57,4 +62,130 @@ describe('ConfigBuilder', () => {
     const cfg = new ConfigBuilder().fromEnv().build();
     expect(cfg.bearerToken).toBe('token');
   });
+
+  it('leaves contract verification disabled by default', () => {
+    const cfg = new ConfigBuilder().walletPrivateKey('11'.repeat(32)).build();
+    expect(cfg.contractVerification).toBeUndefined();
+  });
+
+  it('builds contract verification expectations', () => {
+    const cfg = new ConfigBuilder()
+      .network('base-sepolia')
+      .walletPrivateKey('11'.repeat(32))
+      .verifyContract({
+        expectedAddress: '0x1234567890abcdef1234567890abcdef12345678',
+        expectedCodeHash: '0x' + 'AB'.repeat(32),
+      })
+      .build();
+    expect(cfg.contractVerification).toEqual({
+      expectedAddress: '0x1234567890AbcdEF1234567890aBcdef12345678',
+      expectedCodeHash: '0x' + 'ab'.repeat(32),
+    });
+  });
+
+  it('enables contract verification from env', () => {
+    process.env['4MICA_WALLET_PRIVATE_KEY'] = '11'.repeat(32);
+    process.env['4MICA_VERIFY_CONTRACT'] = 'true';
+    const cfg = new ConfigBuilder().fromEnv().build();
+    expect(cfg.contractVerification).toEqual({});
+  });
+
+  it('rejects malformed contract code hashes', () => {
+    const builder = new ConfigBuilder()
+      .walletPrivateKey('11'.repeat(32))
+      .verifyContract({ expectedCodeHash: '0x1234' });
+    expect(() => builder.build()).toThrow(ConfigError);
+  });
+
+  it('builds a separate recipient signer', () => {
+    process.env['4MICA_RECIPIENT_WALLET_PRIVATE_KEY'] = '22'.repeat(32);
+    const cfg = new ConfigBuilder().walletPrivateKey('11'.repeat(32)).fromEnv().build();
+    expect(cfg.recipientSigner?.address).toBe(
+      privateKeyToAccount(('0x' + '22'.repeat(32)) as Hex).address
+    );
+
+    const same = new ConfigBuilder()
+      .walletPrivateKey('11'.repeat(32))
+      .recipientWalletPrivateKey('11'.repeat(32))
+      .build();
+    expect(same.recipientSigner).toBeUndefined();
+  });
+
+  it('builds a watch-only config without SIWE auth', () => {
+    const address = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+    const cfg = new ConfigBuilder().watchOnly(address).bearerToken('t').build();
+    expect(cfg.readOnly).toBe(true);
+    expect(cfg.signer).toEqual({
+      address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      type: 'json-rpc',
+    });
+    expect(cfg.authUrl).toBeUndefined();
+
+    process.env['4MICA_WATCH_ADDRESS'] = address;
+    expect(new ConfigBuilder().fromEnv().build().readOnly).toBe(true);
+    const keyed = new ConfigBuilder().fromEnv().walletPrivateKey('11'.repeat(32)).build();
+    expect(keyed.readOnly).toBeUndefined();
+  });
+
+  it('rejects watch-only configs that need a key', () => {
+    const builder = () => new ConfigBuilder().watchOnly('0x' + '01'.repeat(20));
+    expect(() => builder().authUrl('https://auth.example.com').build()).toThrow(
+      'SIWE auth needs a signing key'
+    );
+    expect(() => builder().recipientWalletPrivateKey('22'.repeat(32)).build()).toThrow(ConfigError);
+    expect(() => new ConfigBuilder().watchOnly('nope').build()).toThrow(ConfigError);
+  });
+
+  it('merges and validates the retry policy', () => {
+    process.env['4MICA_HTTP_TIMEOUT_MS'] = '5000';
+    const cfg = new ConfigBuilder()
+      .walletPrivateKey('11'.repeat(32))
+      .retryPolicy({ maxAttempts: 5 })
+      .fromEnv()
+      .build();
+    expect(cfg.retryPolicy).toMatchObject({ maxAttempts: 5, timeoutMs: 5000, baseDelayMs: 250 });
+    expect(
+      new ConfigBuilder().walletPrivateKey('11'.repeat(32)).build().retryPolicy
+    ).toBeUndefined();
+    expect(() =>
+      new ConfigBuilder().walletPrivateKey('11'.repeat(32)).retryPolicy({ timeoutMs: -1 }).build()
+    ).toThrow(ConfigError);
+  });
+
+  it('disables write simulation from the builder or env', () => {
+    const builder = () => new ConfigBuilder().walletPrivateKey('11'.repeat(32));
+    expect(builder().build().simulateWrites).toBeUndefined();
+    expect(builder().simulateWrites(false).build().simulateWrites).toBe(false);
+    process.env['4MICA_SIMULATE_WRITES'] = '0';
+    expect(builder().fromEnv().build().simulateWrites).toBe(false);
+  });
+
+  it('merges and validates the gas policy', () => {
+    const cfg = new ConfigBuilder()
+      .walletPrivateKey('11'.repeat(32))
+      .gasPolicy({ maxFeeCap: 50n })
+      .gasPolicy({ gasLimitMultiplier: 1.5 })
+      .build();
+    expect(cfg.gasPolicy).toMatchObject({
+      maxFeeCap: 50n,
+      gasLimitMultiplier: 1.5,
+      fees: 'feeHistory',
+    });
+    expect(() =>
+      new ConfigBuilder()
+        .walletPrivateKey('11'.repeat(32))
+        .gasPolicy({ feeHistoryBlocks: 0 })
+        .build()
+    ).toThrow(ConfigError);
+  });
+
+  it('validates the nonce mode settings', () => {
+    const builder = () => new ConfigBuilder().walletPrivateKey('11'.repeat(32));
+    expect(builder().build().nonceMode).toBeUndefined();
+    expect(builder().nonceMode('local', 32).build()).toMatchObject({
+      nonceMode: 'local',
+      maxInFlight: 32,
+    });
+    expect(() => builder().nonceMode('local', 0).build()).toThrow(ConfigError);
+  });
 });
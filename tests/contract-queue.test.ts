@@ -1,11 +1,42 @@
 import { describe, expect, it, vi } from 'vitest';
-import { ContractGateway } from '../src/contract';
+import {
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  encodeErrorResult,
+} from 'viem';
+import { core4micaAbi } from '../src/abi/core4mica';
+import {
+  ContractGateway,
+  type ContractGatewayOptions,
+  type TransactionEvent,
+} from '../src/contract';
+import type { GasPolicy } from '../src/gas';
+import {
+  ClientClosedError,
+  ContractRevertError,
+  TabExpiredRevertError,
+  TabPreviouslyRemuneratedRevertError,
+  UnsupportedGuaranteeVersionRevertError,
+} from '../src/errors';
 
 const DUMMY_ADDRESS = '0x0000000000000000000000000000000000000001';
 
+const FEE_HISTORY = {
+  oldestBlock: 1n,
+  baseFeePerGas: [10n, 20n, 30n],
+  gasUsedRatio: [0.5, 0.5],
+  reward: [[1n], [3n]],
+};
+
 type GatewayMocks = {
   gateway: ContractGateway;
-  publicClient: { waitForTransactionReceipt: ReturnType<typeof vi.fn> };
+  publicClient: {
+    waitForTransactionReceipt: ReturnType<typeof vi.fn>;
+    getFeeHistory: ReturnType<typeof vi.fn>;
+    estimateGas: ReturnType<typeof vi.fn>;
+    getTransaction: ReturnType<typeof vi.fn>;
+    getTransactionCount: ReturnType<typeof vi.fn>;
+  };
   walletClient: { sendTransaction: ReturnType<typeof vi.fn>; account: { address: string } };
   contract: {
     address: string;
@@ -13,15 +44,43 @@ type GatewayMocks = {
       payTabInERC20Token: ReturnType<typeof vi.fn>;
       remunerate: ReturnType<typeof vi.fn>;
     };
+    simulate: {
+      payTabInERC20Token: ReturnType<typeof vi.fn>;
+      remunerate: ReturnType<typeof vi.fn>;
+    };
+    estimateGas: {
+      payTabInERC20Token: ReturnType<typeof vi.fn>;
+      remunerate: ReturnType<typeof vi.fn>;
+    };
   };
 };
 
 function createGateway(opts?: {
   writeImpl?: () => Promise<string>;
   sendImpl?: () => Promise<string>;
+  simulateImpl?: () => Promise<unknown>;
+  simulateWrites?: boolean;
+  gasPolicy?: GasPolicy;
+  onTransactionEvent?: (event: TransactionEvent) => void;
+  nonceMode?: 'local' | 'serial';
+  maxInFlight?: number;
 }): GatewayMocks {
   const publicClient = {
     waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => ({ hash })),
+    getFeeHistory: vi.fn(async () => FEE_HISTORY),
+    estimateGas: vi.fn(async () => 21_000n),
+    getTransactionCount: vi.fn(async () => 5),
+    getTransaction: vi.fn(async ({ hash }: { hash: string }) => ({
+      hash,
+      blockNumber: null,
+      nonce: 7,
+      to: DUMMY_ADDRESS,
+      input: '0xdata',
+      value: 0n,
+      gas: 120_000n,
+      maxFeePerGas: 62n,
+      maxPriorityFeePerGas: 2n,
+    })),
   };
   const walletClient = {
     sendTransaction: vi.fn(opts?.sendImpl ?? (async () => '0xhash')),
@@ -33,22 +92,29 @@ function createGateway(opts?: {
       payTabInERC20Token: vi.fn(opts?.writeImpl ?? (async () => '0xhash')),
       remunerate: vi.fn(opts?.writeImpl ?? (async () => '0xhash')),
     },
+    simulate: {
+      payTabInERC20Token: vi.fn(opts?.simulateImpl ?? (async () => ({}))),
+      remunerate: vi.fn(opts?.simulateImpl ?? (async () => ({}))),
+    },
+    estimateGas: {
+      payTabInERC20Token: vi.fn(async () => 100_000n),
+      remunerate: vi.fn(async () => 1_000_000n),
+    },
   };
 
   const GatewayCtor = ContractGateway as unknown as new (
-    publicClient: {
-      waitForTransactionReceipt: (args: { hash: string }) => Promise<{ hash: string }>;
-    },
-    walletClient: { sendTransaction: () => Promise<string>; account: { address: string } },
-    contract: {
-      address: string;
-      write: {
-        payTabInERC20Token: () => Promise<string>;
-        remunerate: () => Promise<string>;
-      };
-    }
+    publicClient: unknown,
+    walletClient: unknown,
+    contract: unknown,
+    options?: ContractGatewayOptions
   ) => ContractGateway;
-  const gateway = new GatewayCtor(publicClient, walletClient, contract);
+  const gateway = new GatewayCtor(publicClient, walletClient, contract, {
+    simulateWrites: opts?.simulateWrites,
+    gasPolicy: opts?.gasPolicy,
+    onTransactionEvent: opts?.onTransactionEvent,
+    nonceMode: opts?.nonceMode,
+    maxInFlight: opts?.maxInFlight,
+  });
   return { gateway, publicClient, walletClient, contract };
 }
 
@@ -116,8 +182,8 @@ describe('ContractGateway transaction queue', () => {
     expect(results[1].status).toBe('fulfilled');
   });
 
-  it('submits remunerate with an explicit gas limit', async () => {
-    const { gateway, contract } = createGateway();
+  it('submits remunerate with the fixed gas limit when estimation is off', async () => {
+    const { gateway, contract } = createGateway({ gasPolicy: { estimateGas: false } });
 
     await gateway.remunerate(
       new Uint8Array([1, 2, 3]),
@@ -125,8 +191,438 @@ describe('ContractGateway transaction queue', () => {
     );
 
     expect(contract.write.remunerate).toHaveBeenCalledTimes(1);
+    expect(contract.estimateGas.remunerate).not.toHaveBeenCalled();
     expect(contract.write.remunerate.mock.calls[0]?.[1]).toMatchObject({
       gas: 8_000_000n,
     });
   });
 });
+
+describe('ContractGateway drain', () => {
+  it('waits for queued writes and their receipts, then rejects new ones', async () => {
+    let confirm!: () => void;
+    const { gateway, publicClient } = createGateway();
+    publicClient.waitForTransactionReceipt.mockImplementation(
+      ({ hash }: { hash: string }) =>
+        new Promise((resolve) => {
+          confirm = () => resolve({ hash });
+        })
+    );
+
+    const pending = gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    const drained = gateway.drain(1_000);
+    await expect(gateway.payTabEth(1n, 1n, 10n, DUMMY_ADDRESS)).rejects.toThrow(ClientClosedError);
+
+    await vi.waitFor(() => expect(publicClient.waitForTransactionReceipt).toHaveBeenCalled());
+    confirm();
+    await expect(pending).resolves.toEqual({ hash: '0xhash' });
+    await expect(drained).resolves.toBe(true);
+  });
+
+  it('gives up after the drain timeout', async () => {
+    const { gateway } = createGateway({ writeImpl: () => new Promise(() => {}) });
+    void gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    await expect(gateway.drain(10)).resolves.toBe(false);
+  });
+});
+
+function revert(errorName: string, args?: readonly unknown[]): ContractFunctionRevertedError {
+  const data = encodeErrorResult({
+    abi: core4micaAbi,
+    errorName,
+    args,
+  } as Parameters<typeof encodeErrorResult>[0]);
+  return new ContractFunctionRevertedError({ abi: core4micaAbi, data, functionName: 'remunerate' });
+}
+
+describe('ContractGateway revert decoding', () => {
+  it('raises the typed subclass for a known custom error', async () => {
+    const { gateway } = createGateway({
+      writeImpl: async () => {
+        throw revert('TabExpired');
+      },
+    });
+    const err = await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS).catch((e) => e);
+    expect(err).toBeInstanceOf(TabExpiredRevertError);
+    expect(err).toBeInstanceOf(ContractRevertError);
+    expect(err.errorName).toBe('TabExpired');
+  });
+
+  it('exposes decoded arguments by name', async () => {
+    const { gateway } = createGateway({
+      writeImpl: async () => {
+        throw revert('UnsupportedGuaranteeVersion', [7n]);
+      },
+    });
+    const err = await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS).catch((e) => e);
+    expect(err).toBeInstanceOf(UnsupportedGuaranteeVersionRevertError);
+    expect(err.version).toBe(7n);
+    expect(err.args).toEqual({ version: 7n });
+    expect(err.message).toContain('UnsupportedGuaranteeVersion(version=7)');
+  });
+
+  it('falls back to ContractRevertError for other ABI errors', async () => {
+    const { gateway } = createGateway({
+      writeImpl: async () => {
+        throw revert('AmountZero');
+      },
+    });
+    const err = await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS).catch((e) => e);
+    expect(err.constructor).toBe(ContractRevertError);
+    expect(err.errorName).toBe('AmountZero');
+  });
+});
+
+describe('ContractGateway pre-flight simulation', () => {
+  it('throws the decoded revert without broadcasting', async () => {
+    const { gateway, contract } = createGateway({
+      simulateImpl: async () => {
+        throw revert('TabPreviouslyRemunerated');
+      },
+    });
+    const err = await gateway
+      .remunerate(
+        new Uint8Array([1]),
+        Array.from({ length: 8 }, () => new Uint8Array(32))
+      )
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(TabPreviouslyRemuneratedRevertError);
+    expect(err.message).toContain('remunerate simulation failed');
+    expect(contract.write.remunerate).not.toHaveBeenCalled();
+  });
+
+  it('skips simulation when disabled per call', async () => {
+    const { gateway, contract } = createGateway();
+    await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS, { simulate: false });
+
+    expect(contract.simulate.payTabInERC20Token).not.toHaveBeenCalled();
+    expect(contract.write.payTabInERC20Token).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips simulation when disabled for the gateway unless a call opts in', async () => {
+    const { gateway, contract } = createGateway({ simulateWrites: false });
+    await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    expect(contract.simulate.payTabInERC20Token).not.toHaveBeenCalled();
+
+    await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS, { simulate: true });
+    expect(contract.simulate.payTabInERC20Token).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ContractGateway gas policy', () => {
+  const SIG = Array.from({ length: 8 }, () => new Uint8Array(32));
+
+  it('prices writes from fee history and pads the gas estimate', async () => {
+    const { gateway, contract, publicClient } = createGateway();
+    await gateway.remunerate(new Uint8Array([1]), SIG);
+
+    expect(publicClient.getFeeHistory).toHaveBeenCalledWith({
+      blockCount: 10,
+      rewardPercentiles: [50],
+      blockTag: 'latest',
+    });
+    // next base fee 30 * 2 + average reward 2
+    expect(contract.write.remunerate.mock.calls[0]?.[1]).toEqual({
+      gas: 1_200_000n,
+      maxFeePerGas: 62n,
+      maxPriorityFeePerGas: 2n,
+    });
+  });
+
+  it('clamps fees to the cap and applies per-call overrides', async () => {
+    const { gateway, contract, publicClient } = createGateway({ gasPolicy: { maxFeeCap: 40n } });
+    await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS, {
+      gasPolicy: { gasLimitMultiplier: 1.5 },
+    });
+    expect(contract.write.payTabInERC20Token.mock.calls[0]?.[1]).toEqual({
+      gas: 150_000n,
+      maxFeePerGas: 40n,
+      maxPriorityFeePerGas: 2n,
+    });
+
+    await gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS, {
+      gas: 50_000n,
+      gasPolicy: { fees: { maxFeePerGas: 7n, maxPriorityFeePerGas: 1n } },
+    });
+    expect(contract.write.payTabInERC20Token.mock.calls[1]?.[1]).toEqual({
+      gas: 50_000n,
+      maxFeePerGas: 7n,
+      maxPriorityFeePerGas: 1n,
+    });
+    expect(contract.estimateGas.payTabInERC20Token).toHaveBeenCalledTimes(1);
+    expect(publicClient.getFeeHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects invalid policies', () => {
+    expect(() => createGateway({ gasPolicy: { gasLimitMultiplier: 0.5 } })).toThrow(
+      'multipliers must be at least 1'
+    );
+  });
+});
+
+describe('ContractGateway stuck transactions', () => {
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  function stallReceipt(publicClient: GatewayMocks['publicClient']) {
+    let mine!: (reason: 'repriced' | 'cancelled', hash: string) => void;
+    publicClient.waitForTransactionReceipt.mockImplementation(
+      ({ onReplaced }: { onReplaced: (replacement: unknown) => void }) =>
+        new Promise((resolve) => {
+          mine = (reason, hash) => {
+            const transactionReceipt = { transactionHash: hash, status: 'success' };
+            onReplaced({ reason, transaction: { hash }, transactionReceipt });
+            resolve(transactionReceipt);
+          };
+        })
+    );
+    return (reason: 'repriced' | 'cancelled', hash: string) => mine(reason, hash);
+  }
+
+  it('leaves pending writes alone unless replaceAfterMs is set', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const { gateway, publicClient, walletClient } = createGateway();
+      const mine = stallReceipt(publicClient);
+
+      const pending = gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+      await vi.advanceTimersByTimeAsync(600_000);
+      expect(publicClient.getTransaction).not.toHaveBeenCalled();
+      expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+
+      mine('repriced', '0xhash');
+      await expect(pending).resolves.toMatchObject({ transactionHash: '0xhash' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('re-broadcasts the same nonce with bumped fees and resolves with the mined receipt', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const events: TransactionEvent[] = [];
+      const { gateway, publicClient, walletClient } = createGateway({
+        gasPolicy: { replaceAfterMs: 1_000, maxReplacements: 1 },
+        onTransactionEvent: (event) => events.push(event),
+      });
+      walletClient.sendTransaction.mockResolvedValue('0xbumped');
+      const mine = stallReceipt(publicClient);
+
+      const pending = gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+      await vi.advanceTimersByTimeAsync(1_000);
+      await vi.waitFor(() => expect(walletClient.sendTransaction).toHaveBeenCalledTimes(1));
+      expect(walletClient.sendTransaction).toHaveBeenCalledWith({
+        to: DUMMY_ADDRESS,
+        data: '0xdata',
+        value: 0n,
+        gas: 120_000n,
+        nonce: 7,
+        maxFeePerGas: 75n,
+        maxPriorityFeePerGas: 3n,
+      });
+      expect(gateway.pendingTransactions()).toMatchObject([
+        { hash: '0xhash', latestHash: '0xbumped', nonce: 7, replacements: 1 },
+      ]);
+
+      // maxReplacements reached: no further bumps.
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(walletClient.sendTransaction).toHaveBeenCalledTimes(1);
+
+      mine('repriced', '0xbumped');
+      await expect(pending).resolves.toMatchObject({ transactionHash: '0xbumped' });
+      expect(events.map((e) => e.type)).toEqual(['bumped', 'replaced']);
+      expect(events[1]).toMatchObject({ hash: '0xhash', replacement: '0xbumped', repriced: true });
+      expect(gateway.pendingTransactions()).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stops bumping at the fee cap and reports cancellations', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const events: TransactionEvent[] = [];
+      const { gateway, publicClient, walletClient } = createGateway({
+        gasPolicy: { replaceAfterMs: 1_000, maxFeeCap: 65n },
+        onTransactionEvent: (event) => events.push(event),
+      });
+      const mine = stallReceipt(publicClient);
+
+      const pending = gateway.payTabErc20(1n, 2n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+      await vi.advanceTimersByTimeAsync(1_000);
+      await vi.waitFor(() => expect(publicClient.getTransaction).toHaveBeenCalled());
+      await flush();
+      expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+
+      mine('cancelled', '0xcancel');
+      await expect(pending).resolves.toMatchObject({ transactionHash: '0xcancel' });
+      expect(events).toMatchObject([
+        { type: 'cancelled', hash: '0xhash', replacement: '0xcancel' },
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('ContractGateway local nonces', () => {
+  it('pipelines submissions with consecutive nonces up to maxInFlight', async () => {
+    const confirmations: Array<() => void> = [];
+    const { gateway, contract, publicClient } = createGateway({
+      nonceMode: 'local',
+      maxInFlight: 2,
+    });
+    publicClient.waitForTransactionReceipt.mockImplementation(
+      ({ hash }: { hash: string }) =>
+        new Promise((resolve) => confirmations.push(() => resolve({ hash })))
+    );
+    let sent = 0;
+    contract.write.payTabInERC20Token.mockImplementation(async () => `0x${++sent}`);
+
+    const writes = [1n, 2n, 3n].map((tabId) =>
+      gateway.payTabErc20(tabId, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS)
+    );
+    await vi.waitFor(() => expect(confirmations).toHaveLength(2));
+    const nonces = () => contract.write.payTabInERC20Token.mock.calls.map((call) => call[1]?.nonce);
+    expect(nonces()).toEqual([5, 6]);
+
+    confirmations[0]();
+    await expect(writes[0]).resolves.toEqual({ hash: '0x1' });
+    await vi.waitFor(() => expect(confirmations).toHaveLength(3));
+    expect(nonces()).toEqual([5, 6, 7]);
+    confirmations[1]();
+    confirmations[2]();
+    await expect(Promise.all(writes)).resolves.toHaveLength(3);
+    expect(publicClient.getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs from the pending count after a failed submission', async () => {
+    let call = 0;
+    const { gateway, contract, publicClient } = createGateway({
+      nonceMode: 'local',
+      writeImpl: async () => {
+        call += 1;
+        if (call === 1) throw new Error('boom');
+        return '0xhash';
+      },
+    });
+
+    await expect(gateway.payTabErc20(1n, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS)).rejects.toThrow('boom');
+    await gateway.payTabErc20(2n, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+
+    expect(publicClient.getTransactionCount).toHaveBeenCalledTimes(2);
+    expect(contract.write.payTabInERC20Token.mock.calls.map((c) => c[1]?.nonce)).toEqual([5, 5]);
+  });
+
+  it('does not hand out a nonce held by an in-flight submission after a failure', async () => {
+    let finishSecond!: () => void;
+    let call = 0;
+    const { gateway, contract } = createGateway({
+      nonceMode: 'local',
+      writeImpl: async () => {
+        call += 1;
+        if (call === 1) throw new Error('boom');
+        if (call === 2) await new Promise<void>((resolve) => (finishSecond = resolve));
+        return `0x${call}`;
+      },
+    });
+    const nonces = () => contract.write.payTabInERC20Token.mock.calls.map((c) => c[1]?.nonce);
+
+    // Nonce 6 is still being submitted when 5 fails; the node's pending count stays at 5.
+    const first = gateway.payTabErc20(1n, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    const second = gateway.payTabErc20(2n, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    await expect(first).rejects.toThrow('boom');
+    await vi.waitFor(() => expect(nonces()).toEqual([5, 6]));
+
+    await gateway.payTabErc20(3n, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    await gateway.payTabErc20(4n, 1n, DUMMY_ADDRESS, DUMMY_ADDRESS);
+    finishSecond();
+    await second;
+
+    expect(nonces()).toEqual([5, 6, 5, 7]);
+  });
+});
+
+describe('ContractGateway batched reads', () => {
+  function withReads(mocks: GatewayMocks) {
+    const publicClient = Object.assign(mocks.publicClient, {
+      multicall: vi.fn(async ({ contracts }: { contracts: { args: [bigint] }[] }) =>
+        contracts.map(({ args }) => [args[0] * 10n, true, DUMMY_ADDRESS])
+      ),
+    });
+    const read = {
+      getPaymentStatus: vi.fn(async ([tabId]: [bigint]) => [tabId, false, DUMMY_ADDRESS]),
+    };
+    Object.assign(mocks.contract, { read });
+    return { ...mocks, publicClient, read };
+  }
+
+  it('reads many tab statuses in one multicall', async () => {
+    const { gateway, publicClient, read } = withReads(createGateway());
+
+    await expect(gateway.getPaymentStatuses([1, 2n])).resolves.toEqual([
+      { paid: 10n, remunerated: true, asset: DUMMY_ADDRESS },
+      { paid: 20n, remunerated: true, asset: DUMMY_ADDRESS },
+    ]);
+    expect(publicClient.multicall).toHaveBeenCalledTimes(1);
+    expect(publicClient.multicall.mock.calls[0]?.[0]).toMatchObject({
+      allowFailure: false,
+      multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
+      contracts: [
+        { functionName: 'getPaymentStatus', args: [1n] },
+        { functionName: 'getPaymentStatus', args: [2n] },
+      ],
+    });
+    expect(read.getPaymentStatus).not.toHaveBeenCalled();
+    await expect(gateway.getPaymentStatuses([])).resolves.toEqual([]);
+  });
+
+  it('falls back to single calls when Multicall3 is not deployed', async () => {
+    const { gateway, publicClient, read } = withReads(createGateway());
+    publicClient.multicall.mockRejectedValue(
+      new ContractFunctionZeroDataError({ functionName: 'aggregate3' })
+    );
+
+    await expect(gateway.getPaymentStatuses([3n])).resolves.toEqual([
+      { paid: 3n, remunerated: false, asset: DUMMY_ADDRESS },
+    ]);
+    expect(read.getPaymentStatus).toHaveBeenCalledWith([3n]);
+  });
+});
+
+describe('ContractGateway protocol parameters', () => {
+  it('reads, caches and refreshes the parameter snapshot', async () => {
+    const mocks = createGateway();
+    const read = {
+      tabExpirationTime: vi.fn(async () => 86_400n),
+      remunerationGracePeriod: vi.fn(async () => 3_600n),
+      withdrawalGracePeriod: vi.fn(async () => 604_800n),
+      synchronizationDelay: vi.fn(async () => 60n),
+      yieldFeeBps: vi.fn(async () => 500n),
+      paused: vi.fn(async () => false),
+    };
+    Object.assign(mocks.contract, { read });
+    const { gateway } = mocks;
+
+    const [first, second] = await Promise.all([
+      gateway.getProtocolParameters(),
+      gateway.getProtocolParameters(),
+    ]);
+    expect(first).toEqual({
+      tabExpirationTime: 86_400,
+      remunerationGracePeriod: 3_600,
+      withdrawalGracePeriod: 604_800,
+      synchronizationDelay: 60,
+      yieldFeeBps: 500,
+      paused: false,
+    });
+    expect(second).toBe(first);
+    expect(read.paused).toHaveBeenCalledTimes(1);
+
+    read.paused.mockResolvedValue(true);
+    await expect(gateway.getProtocolParameters({ maxAgeMs: 0 })).resolves.toMatchObject({
+      paused: true,
+    });
+    expect(read.paused).toHaveBeenCalledTimes(2);
+  });
+});
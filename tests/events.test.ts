@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Hex } from 'viem';
+import type { ContractGateway } from '../src/contract';
+import { EventsClient } from '../src/client/events';
+import type { Core4MicaEvent, Core4MicaEventType, Core4MicaLog } from '../src/events';
+import { ValidationError } from '../src/utils';
+
+const USER = '0x00000000000000000000000000000000000000aa';
+const RECIPIENT = '0x00000000000000000000000000000000000000bb';
+const ASSET = '0x0000000000000000000000000000000000000000';
+
+function blockHash(number: bigint, fork = 0): Hex {
+  return `0x${(number + BigInt(fork) * 1_000n).toString(16).padStart(64, '0')}`;
+}
+
+function tabPaid(blockNumber: bigint, tabId: bigint, fork = 0): Core4MicaLog {
+  return {
+    eventName: 'TabPaid',
+    args: { tabId, asset: ASSET, user: USER, recipient: RECIPIENT, amount: 5n },
+    blockNumber,
+    blockHash: blockHash(blockNumber, fork),
+    transactionHash: `0x${'1'.repeat(64)}`,
+    logIndex: 0,
+  } as unknown as Core4MicaLog;
+}
+
+function deposited(blockNumber: bigint, amount: bigint): Core4MicaLog {
+  return {
+    eventName: 'CollateralDeposited',
+    args: { user: USER, asset: ASSET, amount },
+    blockNumber,
+    blockHash: blockHash(blockNumber),
+    transactionHash: `0x${'2'.repeat(64)}`,
+    logIndex: 1,
+  } as unknown as Core4MicaLog;
+}
+
+/** In-memory chain standing in for the gateway's RPC reads. */
+function createChain(head: bigint) {
+  const chain = { head, fork: 0, logs: [] as Core4MicaLog[] };
+  const gateway = {
+    getBlockNumber: vi.fn(async () => chain.head),
+    getBlockHash: vi.fn(async (n: bigint) => blockHash(n, n > 100n ? chain.fork : 0)),
+    getEventLogs: vi.fn(async (types: readonly Core4MicaEventType[], from: bigint, to: bigint) =>
+      chain.logs.filter(
+        (log) =>
+          types.includes(log.eventName) &&
+          log.blockNumber >= from &&
+          log.blockNumber <= to &&
+          log.blockHash === blockHash(log.blockNumber, log.blockNumber > 100n ? chain.fork : 0)
+      )
+    ),
+  };
+  return { chain, gateway, events: new EventsClient(gateway as unknown as ContractGateway) };
+}
+
+describe('EventsClient.getLogs', () => {
+  it('decodes and filters events across chunked ranges', async () => {
+    const { chain, gateway, events } = createChain(20n);
+    chain.logs = [deposited(3n, 7n), tabPaid(12n, 1n), tabPaid(15n, 2n)];
+
+    const all = await events.getLogs({}, { fromBlock: 0n, maxBlockRange: 10n });
+    expect(all.map((e) => e.type)).toEqual(['CollateralDeposited', 'TabPaid', 'TabPaid']);
+    expect(gateway.getEventLogs).toHaveBeenCalledTimes(3);
+    expect(all[0]).toMatchObject({ user: USER, amount: 7n, blockNumber: 3n, removed: false });
+
+    const paid = await events.getLogs(
+      { recipient: RECIPIENT.toUpperCase().replace('0X', '0x'), tabId: '2' },
+      { fromBlock: 0n, toBlock: 20n }
+    );
+    expect(paid).toHaveLength(1);
+    expect(paid[0]).toMatchObject({ type: 'TabPaid', tabId: 2n, amount: 5n });
+
+    // Deposits carry no recipient, so a recipient filter excludes them.
+    expect(
+      await events.getLogs(
+        { types: ['CollateralDeposited'], recipient: RECIPIENT },
+        { fromBlock: 0n }
+      )
+    ).toEqual([]);
+  });
+
+  it('rejects unknown event types and inverted ranges', async () => {
+    const { events } = createChain(20n);
+    await expect(
+      events.getLogs({ types: ['Nope' as Core4MicaEventType] }, { fromBlock: 0n })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(events.getLogs({}, { fromBlock: 30n, toBlock: 20n })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
+
+describe('EventsClient.watch', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers new events once and reports reorged ones as removed', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const { chain, events } = createChain(100n);
+    const seen: Core4MicaEvent[] = [];
+    const unwatch = events.watch({ types: ['TabPaid'] }, (e) => seen.push(e), {
+      pollingInterval: 1_000,
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    chain.logs.push(tabPaid(99n, 9n), tabPaid(102n, 1n));
+    chain.head = 103n;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(seen.map((e) => ['tabId' in e && e.tabId, e.removed])).toEqual([[1n, false]]);
+
+    // Blocks above 100 are replaced; tab 1 moves to block 104 on the new fork.
+    chain.fork = 1;
+    chain.logs.push(tabPaid(104n, 1n, 1));
+    chain.head = 105n;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(seen.map((e) => ['tabId' in e && e.tabId, e.blockNumber, e.removed])).toEqual([
+      [1n, 102n, false],
+      [1n, 102n, true],
+      [1n, 104n, false],
+    ]);
+
+    unwatch();
+    chain.logs.push(tabPaid(106n, 3n, 1));
+    chain.head = 106n;
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(seen).toHaveLength(3);
+  });
+
+  it('waits for confirmations and reports poll failures', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const { chain, gateway, events } = createChain(10n);
+    chain.logs.push(tabPaid(10n, 4n));
+    const seen: Core4MicaEvent[] = [];
+    const onError = vi.fn();
+    events.watch({}, (e) => seen.push(e), {
+      fromBlock: 5n,
+      confirmations: 2,
+      pollingInterval: 1_000,
+      onError,
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(seen).toEqual([]);
+
+    gateway.getBlockNumber.mockRejectedValueOnce(new Error('rpc down'));
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(onError).toHaveBeenCalledOnce();
+
+    chain.head = 12n;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(seen.map((e) => e.type === 'TabPaid' && e.tabId)).toEqual([4n]);
+    events.unwatchAll();
+  });
+
+  it('validates options synchronously', () => {
+    const { events } = createChain(10n);
+    expect(() => events.watch({}, () => {}, { reorgDepth: 0 })).toThrow(ValidationError);
+    expect(() => events.watch({ user: 'not-an-address' }, () => {})).toThrow(ValidationError);
+  });
+});
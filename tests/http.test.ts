@@ -1,5 +1,13 @@
-import { describe, expect, it } from 'vitest';
-import { extractErrorMessage, normalizeBaseUrl, requestJson } from '../src/http';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  extractErrorMessage,
+  normalizeBaseUrl,
+  parseRetryAfter,
+  requestJson,
+  resolveRetryPolicy,
+  type FetchFn,
+} from '../src/http';
+import { ValidationError } from '../src/utils';
 
 describe('http helpers', () => {
   it('normalizeBaseUrl trims trailing slash', () => {
@@ -41,3 +49,94 @@ describe('http helpers', () => {
     expect(payload).toBe(null);
   });
 });
+
+describe('requestJson retry policy', () => {
+  const errors = {
+    decodeError: (message: string) => new Error(message),
+    httpError: (message: string, _response: Response, _body: unknown, attempts: number) =>
+      Object.assign(new Error(message), { attempts }),
+    transportError: (message: string, _cause: unknown, attempts: number) =>
+      Object.assign(new Error(message), { attempts }),
+  };
+  const retry = resolveRetryPolicy({ baseDelayMs: 1, maxDelayMs: 50, timeoutMs: 50 });
+
+  it('retries idempotent requests on retryable statuses', async () => {
+    const fetchMock = vi
+      .fn<FetchFn>()
+      .mockResolvedValueOnce(new Response('busy', { status: 503, headers: { 'retry-after': '0' } }))
+      .mockRejectedValueOnce(new TypeError('socket hang up'))
+      .mockResolvedValueOnce(new Response('{"ok":true}', { status: 200 }));
+
+    const payload = await requestJson(
+      fetchMock,
+      'https://x',
+      { method: 'GET' },
+      {
+        ...errors,
+        retry,
+      }
+    );
+    expect(payload).toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports the attempt count once retries are exhausted', async () => {
+    const fetchMock = vi.fn<FetchFn>(async () => new Response('bad gateway', { status: 502 }));
+    await expect(
+      requestJson(fetchMock, 'https://x', { method: 'GET' }, { ...errors, retry })
+    ).rejects.toMatchObject({ message: '502: bad gateway', attempts: 3 });
+  });
+
+  it('only retries POSTs marked idempotent', async () => {
+    const fetchMock = vi.fn<FetchFn>(async () => new Response('down', { status: 503 }));
+    const post = { method: 'POST', body: '{}' };
+    await expect(requestJson(fetchMock, 'https://x', post, { ...errors, retry })).rejects.toThrow(
+      '503: down'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await expect(
+      requestJson(fetchMock, 'https://x', post, { ...errors, retry, idempotent: true })
+    ).rejects.toThrow('503: down');
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry 4xx responses or wait past maxDelayMs', async () => {
+    const fetchMock = vi
+      .fn<FetchFn>()
+      .mockResolvedValueOnce(new Response('no', { status: 400 }))
+      .mockResolvedValueOnce(
+        new Response('slow down', { status: 429, headers: { 'retry-after': '60' } })
+      );
+    await expect(requestJson(fetchMock, 'https://x', {}, { ...errors, retry })).rejects.toThrow(
+      '400'
+    );
+    await expect(requestJson(fetchMock, 'https://x', {}, { ...errors, retry })).rejects.toThrow(
+      '429'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out hung attempts', async () => {
+    const fetchMock = vi.fn<FetchFn>(
+      (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+    await expect(
+      requestJson(fetchMock, 'https://x', {}, { ...errors, retry: { ...retry, maxAttempts: 2 } })
+    ).rejects.toMatchObject({
+      message: 'request to https://x failed: timed out after 50ms',
+      attempts: 2,
+    });
+  });
+
+  it('parses Retry-After and validates policies', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000)).toBe(6000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(ValidationError);
+    expect(resolveRetryPolicy({ timeoutMs: undefined }).timeoutMs).toBe(30_000);
+  });
+});
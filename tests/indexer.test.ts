@@ -0,0 +1,236 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Hex } from 'viem';
+import { InMemoryCheckpointStore, JsonFileCheckpointStore } from '../src/checkpoint';
+import type { ContractGateway } from '../src/contract';
+import { EventIndexer, type EventIndexerOptions } from '../src/client/indexer';
+import { CheckpointError, ContractError } from '../src/errors';
+import type { Core4MicaEvent, Core4MicaEventType, Core4MicaLog } from '../src/events';
+
+const ASSET = '0x0000000000000000000000000000000000000000';
+
+function blockHash(number: bigint, fork = 0): Hex {
+  return `0x${(number + BigInt(fork) * 1_000n).toString(16).padStart(64, '0')}`;
+}
+
+function paymentRecorded(blockNumber: bigint, tabId: bigint, fork = 0): Core4MicaLog {
+  return {
+    eventName: 'PaymentRecorded',
+    args: { tabId, asset: ASSET, amount: 10n },
+    blockNumber,
+    blockHash: blockHash(blockNumber, fork),
+    transactionHash: `0x${'3'.repeat(64)}`,
+    logIndex: 0,
+  } as unknown as Core4MicaLog;
+}
+
+/** In-memory chain; blocks above `forkAt` get new hashes when `fork` changes. */
+function createChain(head: bigint) {
+  const chain = { head, fork: 0, forkAt: 0n, logs: [] as Core4MicaLog[], maxRange: 1_000n };
+  const hashOf = (n: bigint) => blockHash(n, n > chain.forkAt ? chain.fork : 0);
+  const gateway = {
+    getBlockNumber: vi.fn(async () => chain.head),
+    getBlockHash: vi.fn(async (n: bigint) => hashOf(n)),
+    getEventLogs: vi.fn(async (types: readonly Core4MicaEventType[], from: bigint, to: bigint) => {
+      if (to - from + 1n > chain.maxRange) {
+        throw new ContractError('fetching Core4Mica logs failed: block range too large');
+      }
+      return chain.logs.filter(
+        (log) =>
+          types.includes(log.eventName) &&
+          log.blockNumber >= from &&
+          log.blockNumber <= to &&
+          log.blockHash === hashOf(log.blockNumber)
+      );
+    }),
+  };
+  return { chain, gateway: gateway as typeof gateway & ContractGateway };
+}
+
+function tabIds(events: Core4MicaEvent[]): bigint[] {
+  return events.flatMap((e) => ('tabId' in e ? [e.tabId] : []));
+}
+
+describe('EventIndexer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backfills confirmed blocks, shrinking the range on provider limits', async () => {
+    const { chain, gateway } = createChain(1_000n);
+    chain.maxRange = 100n;
+    chain.logs = [paymentRecorded(50n, 1n), paymentRecorded(700n, 2n), paymentRecorded(995n, 3n)];
+    const seen: Core4MicaEvent[] = [];
+    const indexer = new EventIndexer(gateway, {
+      onEvents: (events) => void seen.push(...events),
+      confirmations: 10,
+      maxBlockRange: 400n,
+    });
+
+    const checkpoint = await indexer.sync();
+    expect(checkpoint?.blockNumber).toBe(990n);
+    expect(tabIds(seen)).toEqual([1n, 2n]);
+    const ranges = gateway.getEventLogs.mock.calls.map(([, from, to]) => to - from + 1n);
+    expect(ranges.every((r) => r <= 400n)).toBe(true);
+    expect(ranges).toContain(100n);
+
+    chain.head = 1_005n;
+    await indexer.sync();
+    expect(tabIds(seen)).toEqual([1n, 2n, 3n]);
+  });
+
+  it('resumes from the stored checkpoint', async () => {
+    const { chain, gateway } = createChain(100n);
+    chain.logs = [paymentRecorded(20n, 1n), paymentRecorded(80n, 2n)];
+    const store = new InMemoryCheckpointStore();
+    const options = (seen: Core4MicaEvent[]): EventIndexerOptions => ({
+      store,
+      confirmations: 0,
+      onEvents: (events) => void seen.push(...events),
+    });
+
+    const first: Core4MicaEvent[] = [];
+    chain.head = 50n;
+    await new EventIndexer(gateway, options(first)).sync();
+    expect(tabIds(first)).toEqual([1n]);
+
+    const second: Core4MicaEvent[] = [];
+    chain.head = 100n;
+    await new EventIndexer(gateway, options(second)).sync();
+    expect(tabIds(second)).toEqual([2n]);
+    expect(gateway.getEventLogs).toHaveBeenLastCalledWith(expect.anything(), 51n, 100n);
+  });
+
+  it('does not advance the checkpoint when the handler fails', async () => {
+    const { chain, gateway } = createChain(10n);
+    chain.logs = [paymentRecorded(5n, 1n)];
+    const onEvents = vi.fn().mockRejectedValueOnce(new Error('db down'));
+    const indexer = new EventIndexer(gateway, { onEvents, confirmations: 0 });
+
+    await expect(indexer.sync()).rejects.toThrow('db down');
+    await indexer.sync();
+    expect(onEvents).toHaveBeenCalledTimes(2);
+    expect(tabIds(onEvents.mock.calls[1][0])).toEqual([1n]);
+  });
+
+  it('rolls back to the last canonical checkpoint after a reorg', async () => {
+    const { chain, gateway } = createChain(100n);
+    chain.logs = [paymentRecorded(95n, 1n)];
+    const seen: Core4MicaEvent[] = [];
+    const onRollback = vi.fn();
+    const indexer = new EventIndexer(gateway, {
+      onEvents: (events) => void seen.push(...events),
+      onRollback,
+      confirmations: 0,
+      maxBlockRange: 10n,
+    });
+    await indexer.sync();
+
+    // Everything above block 92 is replaced; the payment moves to block 97.
+    chain.forkAt = 92n;
+    chain.fork = 1;
+    chain.logs.push(paymentRecorded(97n, 1n, 1));
+    chain.head = 102n;
+    await indexer.sync();
+
+    expect(onRollback).toHaveBeenCalledWith(89n);
+    expect(seen.map((e) => [e.blockNumber, e.blockHash])).toEqual([
+      [95n, blockHash(95n)],
+      [97n, blockHash(97n, 1)],
+    ]);
+  });
+
+  it('surfaces rate limit errors instead of shrinking the range', async () => {
+    const { gateway } = createChain(100n);
+    gateway.getEventLogs.mockRejectedValueOnce(
+      new ContractError(
+        'fetching Core4Mica logs failed: 429 Too Many Requests, rate limit exceeded'
+      )
+    );
+    const indexer = new EventIndexer(gateway, { onEvents: () => {}, confirmations: 0 });
+
+    await expect(indexer.sync()).rejects.toThrow('rate limit exceeded');
+    await indexer.sync();
+    expect(gateway.getEventLogs.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+      [0n, 100n],
+      [0n, 100n],
+    ]);
+  });
+
+  it('clears the stored checkpoint when a reorg orphaned every recorded block', async () => {
+    const { chain, gateway } = createChain(100n);
+    const store = new InMemoryCheckpointStore();
+    const onRollback = vi.fn();
+    await new EventIndexer(gateway, { store, onEvents: () => {}, confirmations: 0 }).sync();
+
+    chain.forkAt = 10n;
+    chain.fork = 1;
+    chain.head = 20n;
+    const onEvents = vi.fn().mockRejectedValue(new Error('db down'));
+    const indexer = new EventIndexer(gateway, { store, onEvents, onRollback, confirmations: 0 });
+    chain.logs = [paymentRecorded(15n, 1n, 1)];
+    await expect(indexer.sync()).rejects.toThrow('db down');
+
+    expect(onRollback).toHaveBeenCalledWith(-1n);
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it('polls in the background until stopped', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const { chain, gateway } = createChain(10n);
+    const onError = vi.fn();
+    const indexer = new EventIndexer(gateway, {
+      onEvents: () => {},
+      onError,
+      confirmations: 0,
+      pollingInterval: 1_000,
+    });
+    indexer.start();
+    await vi.advanceTimersByTimeAsync(0);
+    gateway.getBlockNumber.mockRejectedValueOnce(new Error('rpc down'));
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(onError).toHaveBeenCalledOnce();
+
+    chain.head = 20n;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(await indexer.sync()).toMatchObject({ blockNumber: 20n });
+    indexer.stop();
+    const calls = gateway.getBlockNumber.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(gateway.getBlockNumber.mock.calls.length).toBe(calls);
+  });
+});
+
+describe('JsonFileCheckpointStore', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('round-trips checkpoints and rejects malformed files', async () => {
+    dir = await mkdtemp(join(tmpdir(), '4mica-checkpoint-'));
+    const path = join(dir, 'checkpoint.json');
+    const store = new JsonFileCheckpointStore(path);
+    expect(await store.load()).toBeUndefined();
+
+    const checkpoint = {
+      blockNumber: 2n ** 70n,
+      blockHash: blockHash(2n),
+      previous: [{ blockNumber: 1n, blockHash: blockHash(1n) }],
+    };
+    await store.save(checkpoint);
+    expect(JSON.parse(await readFile(path, 'utf8')).blockNumber).toBe((2n ** 70n).toString());
+    expect(await new JsonFileCheckpointStore(path).load()).toEqual(checkpoint);
+
+    await writeFile(path, '{"blockNumber":"1","blockHash":"0x12","previous":[]}');
+    await expect(store.load()).rejects.toBeInstanceOf(CheckpointError);
+
+    await store.clear();
+    await store.clear();
+    expect(await store.load()).toBeUndefined();
+  });
+});
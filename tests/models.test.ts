@@ -312,3 +312,24 @@ describe('SupportedTokensResponse.fromRpc', () => {
     ]);
   });
 });
+
+describe('CorePublicParameters.toRpc', () => {
+  it('round trips through fromRpc', () => {
+    const params = new CorePublicParameters(
+      new Uint8Array([1, 2, 3]),
+      '0x0000000000000000000000000000000000000001',
+      'http://localhost:8545',
+      '4mica',
+      '1',
+      84532,
+      2,
+      [1, 2],
+      '0x' + '11'.repeat(32),
+      ['0x0000000000000000000000000000000000000002'],
+      '4MICA_VALIDATION_REQUEST_V1'
+    );
+    const wire = JSON.parse(JSON.stringify(params.toRpc())) as Record<string, unknown>;
+    expect(wire.public_key).toBe('0x010203');
+    expect(CorePublicParameters.fromRpc(wire)).toEqual(params);
+  });
+});
@@ -0,0 +1,141 @@
+import { privateKeyToAccount } from 'viem/accounts';
+import { describe, expect, it, vi } from 'vitest';
+import { MultiNetworkClient } from '../src/client/multi';
+import type { Client } from '../src/client';
+import type { Config } from '../src/config';
+import { ConfigError } from '../src/errors';
+import { SigningScheme } from '../src/models';
+import type { FetchFn } from '../src/rpc';
+
+const USER = '0x0000000000000000000000000000000000000011';
+const RECIPIENT = '0x0000000000000000000000000000000000000022';
+const ASSET = '0x0000000000000000000000000000000000000003';
+
+const baseConfig: Config = {
+  rpcUrl: 'https://ethereum.sepolia.api.4mica.xyz/',
+  signer: privateKeyToAccount(('0x' + '11'.repeat(32)) as `0x${string}`),
+  authUrl: 'https://ethereum.sepolia.api.4mica.xyz/',
+  authRefreshMarginSecs: 60,
+  ethereumHttpRpcUrl: 'http://localhost:8545',
+};
+
+function createMulti(options: { overrides?: Record<string, Partial<Config>> } = {}) {
+  const configs: Config[] = [];
+  const signPayment = vi.fn(async () => ({ signature: '0xsig', scheme: SigningScheme.EIP712 }));
+  const clientFactory = vi.fn(async (cfg: Config) => {
+    configs.push(cfg);
+    return {
+      user: {
+        signPayment,
+        getUser: vi.fn(async () => [
+          {
+            asset: cfg.rpcUrl,
+            collateral: 1n,
+            withdrawalRequestAmount: 0n,
+            withdrawalRequestTimestamp: 0,
+          },
+        ]),
+      },
+      aclose: vi.fn(async () => {}),
+    } as unknown as Client;
+  });
+  const fetchFn = vi.fn<FetchFn>(
+    async () =>
+      new Response(JSON.stringify({ tabId: '0x1', userAddress: USER, nextReqId: '0x0' }), {
+        status: 200,
+      })
+  );
+  const multi = new MultiNetworkClient(baseConfig, { clientFactory, fetchFn, ...options });
+  return { multi, configs, clientFactory, signPayment };
+}
+
+describe('MultiNetworkClient', () => {
+  it('derives per-network configs sharing the signer', () => {
+    const { multi } = createMulti({
+      overrides: { 'base-sepolia': { ethereumHttpRpcUrl: 'http://base.local:8545' } },
+    });
+
+    const base = multi.configFor('eip155:84532');
+    expect(base.rpcUrl).toBe('https://base.sepolia.api.4mica.xyz/');
+    expect(base.authUrl).toBe('https://base.sepolia.api.4mica.xyz/');
+    expect(base.ethereumHttpRpcUrl).toBe('http://base.local:8545');
+    expect(base.signer).toBe(baseConfig.signer);
+
+    const sepolia = multi.configFor('ethereum-sepolia');
+    expect(sepolia.ethereumHttpRpcUrl).toBeUndefined();
+    expect(sepolia.authRefreshMarginSecs).toBe(60);
+  });
+
+  it('keeps an explicit auth url', () => {
+    const multi = new MultiNetworkClient({ ...baseConfig, authUrl: 'https://auth.example.com' });
+    expect(multi.configFor('base-sepolia').authUrl).toBe('https://auth.example.com');
+  });
+
+  it('requires an expected address per network when verification is enabled', async () => {
+    const CONTRACT = '0x1234567890AbcdEF1234567890aBcdef12345678';
+    const verified = { ...baseConfig, contractVerification: { expectedAddress: CONTRACT } };
+    const multi = new MultiNetworkClient(verified, {
+      clientFactory: async () => ({}) as Client,
+      overrides: { 'base-sepolia': { contractVerification: { expectedAddress: CONTRACT } } },
+    });
+
+    expect(multi.configFor('base-sepolia').contractVerification).toEqual({
+      expectedAddress: CONTRACT,
+    });
+    // The base expectation belongs to another chain and is not carried over.
+    expect(() => multi.configFor('ethereum-sepolia')).toThrow(
+      'contract verification on eip155:11155111 needs an expected address'
+    );
+    await expect(multi.client('ethereum-sepolia')).rejects.toBeInstanceOf(ConfigError);
+    await expect(multi.client('base-sepolia')).resolves.toBeDefined();
+  });
+
+  it('rejects unknown networks', () => {
+    const { multi } = createMulti();
+    expect(() => multi.configFor('eip155:1')).toThrow(ConfigError);
+    expect(() => new MultiNetworkClient(baseConfig, { networks: ['nope'] })).toThrow(ConfigError);
+  });
+
+  it('creates one client per CAIP-2 id', async () => {
+    const { multi, clientFactory } = createMulti();
+    const [a, b] = await Promise.all([multi.client('base-sepolia'), multi.client('eip155:84532')]);
+    expect(a).toBe(b);
+    expect(clientFactory).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries initialisation after a failure', async () => {
+    const { multi, clientFactory } = createMulti();
+    clientFactory.mockRejectedValueOnce(new Error('core down'));
+    await expect(multi.client('base-sepolia')).rejects.toThrow('core down');
+    await expect(multi.client('base-sepolia')).resolves.toBeDefined();
+    expect(clientFactory).toHaveBeenCalledTimes(2);
+  });
+
+  it('routes x402 signing by the requirements network', async () => {
+    const { multi, configs, signPayment } = createMulti();
+    await multi.signPayment(
+      {
+        scheme: '4mica-credit',
+        network: 'base-sepolia',
+        maxAmountRequired: '0x10',
+        payTo: RECIPIENT,
+        asset: ASSET,
+        extra: { tabEndpoint: 'https://example.com/tab' },
+      },
+      USER
+    );
+    expect(configs.map((cfg) => cfg.rpcUrl)).toEqual(['https://base.sepolia.api.4mica.xyz/']);
+    expect(signPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('aggregates getUser across networks and closes clients', async () => {
+    const { multi } = createMulti();
+    const positions = await multi.getUser();
+    expect(Object.keys(positions).sort()).toEqual(['eip155:11155111', 'eip155:84532']);
+    expect(positions['eip155:84532'][0].asset).toBe('https://base.sepolia.api.4mica.xyz/');
+
+    const client = await multi.client('base-sepolia');
+    await multi.aclose();
+    expect(client.aclose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,144 @@
+import { foundry } from 'viem/chains';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { explorerTxUrl, getChain } from '../src/chain';
+import { ConfigBuilder } from '../src/config';
+import { ContractGateway } from '../src/contract';
+import { ConfigError } from '../src/errors';
+import {
+  listNetworks,
+  NETWORKS,
+  registerNetwork,
+  resolveNetwork,
+  resolveNetworkRpcUrl,
+  unregisterNetwork,
+} from '../src/networks';
+
+const KEY = '0x' + '11'.repeat(32);
+const HASH = '0x' + 'ab'.repeat(32);
+
+describe('registerNetwork', () => {
+  afterEach(() => {
+    unregisterNetwork('anvil');
+    unregisterNetwork('devnet');
+  });
+
+  it('makes a self-hosted network resolvable everywhere', () => {
+    registerNetwork({
+      shorthand: 'anvil',
+      caip2: 'eip155:31337',
+      rpcUrl: 'http://localhost:3000/',
+      chain: foundry,
+      contractAddress: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      explorerUrl: 'http://localhost:5100',
+    });
+
+    expect(resolveNetworkRpcUrl('anvil')).toBe('http://localhost:3000/');
+    expect(resolveNetwork('eip155:31337')?.contractAddress).toBe(
+      '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+    );
+    const cfg = new ConfigBuilder().network('eip155:31337').walletPrivateKey(KEY).build();
+    expect(cfg.rpcUrl).toBe('http://localhost:3000/');
+
+    const chain = getChain(31337, 'http://localhost:8545');
+    expect(chain.name).toBe(foundry.name);
+    expect(chain.nativeCurrency).toEqual(foundry.nativeCurrency);
+    expect(explorerTxUrl(chain, HASH)).toBe(`http://localhost:5100/tx/${HASH}`);
+  });
+
+  it('synthesizes a chain when none is given', () => {
+    registerNetwork({
+      shorthand: 'devnet',
+      caip2: 'eip155:424242',
+      rpcUrl: 'http://core.devnet/',
+      explorerUrl: 'https://explorer.devnet/',
+    });
+    const chain = getChain(424242, 'http://eth.devnet');
+    expect(chain.name).toBe('local-424242');
+    expect(chain.rpcUrls.default.http).toEqual(['http://eth.devnet']);
+    expect(explorerTxUrl(chain, HASH)).toBe(`https://explorer.devnet/tx/${HASH}`);
+    expect(explorerTxUrl(getChain(999, 'http://x'), HASH)).toBeUndefined();
+  });
+
+  it('replaces and removes registered entries', () => {
+    registerNetwork({ shorthand: 'devnet', caip2: 'eip155:1000', rpcUrl: 'http://a/' });
+    registerNetwork({ shorthand: 'devnet', caip2: 'eip155:1001', rpcUrl: 'http://b/' });
+    expect(resolveNetwork('eip155:1000')).toBeUndefined();
+    expect(resolveNetworkRpcUrl('devnet')).toBe('http://b/');
+
+    expect(unregisterNetwork('devnet')).toBe(true);
+    expect(resolveNetwork('eip155:1001')).toBeUndefined();
+    expect(unregisterNetwork('base-sepolia')).toBe(false);
+    expect(NETWORKS['base-sepolia']).toBeDefined();
+  });
+
+  it('keeps registrations out of NETWORKS and the object prototype', () => {
+    registerNetwork({ shorthand: 'devnet', caip2: 'eip155:1000', rpcUrl: 'http://a/' });
+    expect(listNetworks()).toEqual(['base-sepolia', 'ethereum-sepolia', 'devnet']);
+    expect(Object.keys(NETWORKS)).toEqual(['base-sepolia', 'ethereum-sepolia']);
+
+    expect(resolveNetwork('constructor')).toBeUndefined();
+    expect(resolveNetwork('toString')).toBeUndefined();
+    expect(() => new ConfigBuilder().network('constructor')).toThrow(ConfigError);
+    registerNetwork({ shorthand: '__proto__', caip2: 'eip155:1001', rpcUrl: 'http://b/' });
+    try {
+      expect(resolveNetworkRpcUrl('__proto__')).toBe('http://b/');
+      expect(({} as Record<string, unknown>).caip2).toBeUndefined();
+    } finally {
+      unregisterNetwork('__proto__');
+    }
+  });
+
+  it('rejects invalid or conflicting registrations', () => {
+    const base = { shorthand: 'devnet', caip2: 'eip155:1000', rpcUrl: 'http://a/' };
+    expect(() => registerNetwork({ ...base, caip2: '1000' })).toThrow(ConfigError);
+    expect(() => registerNetwork({ ...base, rpcUrl: 'not a url' })).toThrow(
+      'network "devnet": invalid URL: not a url'
+    );
+    expect(() => registerNetwork({ ...base, chain: foundry })).toThrow(
+      'chain id 31337 does not match eip155:1000'
+    );
+    expect(() => registerNetwork({ ...base, shorthand: 'base-sepolia' })).toThrow(ConfigError);
+    expect(() => registerNetwork({ ...base, caip2: 'eip155:84532' })).toThrow(
+      'network eip155:84532 is already registered'
+    );
+  });
+});
+
+describe('ContractGateway explorer links', () => {
+  function createGateway(chain?: unknown) {
+    const publicClient = {
+      waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => ({
+        hash,
+        status: 'success',
+      })),
+      getFeeHistory: vi.fn(async () => ({ baseFeePerGas: [1n], reward: [] })),
+      getTransactionCount: vi.fn(async () => 0),
+    };
+    const walletClient = { chain, account: { address: '0x' + '00'.repeat(20) } };
+    const contract = {
+      address: '0x' + '00'.repeat(20),
+      write: { remunerate: vi.fn(async () => HASH) },
+      simulate: { remunerate: vi.fn(async () => ({})) },
+      estimateGas: { remunerate: vi.fn(async () => 100_000n) },
+    };
+    const GatewayCtor = ContractGateway as unknown as new (
+      publicClient: unknown,
+      walletClient: unknown,
+      contract: unknown
+    ) => ContractGateway;
+    return new GatewayCtor(publicClient, walletClient, contract);
+  }
+
+  it('attaches the explorer url to receipts', async () => {
+    const gateway = createGateway(getChain(84532, 'http://localhost:8545'));
+    const receipt = await gateway.remunerate(new Uint8Array(), Array(8).fill(new Uint8Array(32)));
+    expect(receipt.explorerUrl).toBe(`https://sepolia.basescan.org/tx/${HASH}`);
+    expect(gateway.chain?.nativeCurrency.symbol).toBe('ETH');
+  });
+
+  it('omits it when the chain has no explorer', async () => {
+    const gateway = createGateway();
+    const receipt = await gateway.remunerate(new Uint8Array(), Array(8).fill(new Uint8Array(32)));
+    expect(receipt).not.toHaveProperty('explorerUrl');
+  });
+});
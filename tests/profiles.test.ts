@@ -0,0 +1,210 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigBuilder } from '../src/config';
+import { ConfigError } from '../src/errors';
+import { loadConfigProfile } from '../src/profiles';
+
+const KEY = '0x' + '11'.repeat(32);
+const OTHER_KEY = '0x' + '22'.repeat(32);
+
+const YAML_CONFIG = `
+defaultProfile: dev
+profiles:
+  dev:
+    network: base-sepolia
+    signer:
+      privateKey: \${TEST_PAYER_KEY}
+    auth:
+      refreshMarginSecs: 90
+  prod:
+    rpcUrl: https://core.example.com/
+    ethereumHttpRpcUrl: \${TEST_ETH_RPC:-http://localhost:8545}
+    contractAddress: "0x1234567890abcdef1234567890abcdef12345678"
+    signer:
+      privateKey: ${KEY}
+    auth:
+      enabled: false
+    verifyContract: true
+`;
+
+describe('ConfigBuilder.fromFile', () => {
+  let dir: string;
+
+  const write = (name: string, contents: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, contents);
+    return path;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), '4mica-config-'));
+    process.env.TEST_PAYER_KEY = KEY;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.TEST_PAYER_KEY;
+    delete process.env['4MICA_RPC_URL'];
+    delete process.env['4MICA_PROFILE'];
+  });
+
+  it('loads the default profile with env interpolation', () => {
+    const cfg = ConfigBuilder.fromFile(write('4mica.yaml', YAML_CONFIG)).build();
+    expect(cfg.rpcUrl).toBe('https://base.sepolia.api.4mica.xyz/');
+    expect(cfg.signer.address).toBe(privateKeyToAccount(KEY as Hex).address);
+    expect(cfg.authRefreshMarginSecs).toBe(90);
+  });
+
+  it('loads a named profile', () => {
+    const cfg = ConfigBuilder.fromFile(write('4mica.yml', YAML_CONFIG), {
+      profile: 'prod',
+    }).build();
+    expect(cfg.rpcUrl).toBe('https://core.example.com/');
+    expect(cfg.ethereumHttpRpcUrl).toBe('http://localhost:8545');
+    expect(cfg.contractAddress).toBe('0x1234567890AbcdEF1234567890aBcdef12345678');
+    expect(cfg.authUrl).toBeUndefined();
+    expect(cfg.contractVerification).toEqual({});
+  });
+
+  it('selects the profile from 4MICA_PROFILE', () => {
+    process.env['4MICA_PROFILE'] = 'prod';
+    const cfg = ConfigBuilder.fromFile(write('4mica.yaml', YAML_CONFIG)).build();
+    expect(cfg.rpcUrl).toBe('https://core.example.com/');
+  });
+
+  it('reads JSON files', () => {
+    const path = write(
+      '4mica.json',
+      JSON.stringify({
+        profiles: { default: { rpcUrl: 'https://json.example.com/', signer: { privateKey: KEY } } },
+      })
+    );
+    expect(ConfigBuilder.fromFile(path).build().rpcUrl).toBe('https://json.example.com/');
+  });
+
+  it('applies env and then explicit builder calls over the file', () => {
+    process.env['4MICA_RPC_URL'] = 'https://env.example.com/';
+    const path = write('4mica.yaml', YAML_CONFIG);
+
+    const fromEnv = ConfigBuilder.fromFile(path).build();
+    expect(fromEnv.rpcUrl).toBe('https://env.example.com/');
+
+    const explicit = ConfigBuilder.fromFile(path)
+      .rpcUrl('https://explicit.example.com/')
+      .walletPrivateKey(OTHER_KEY)
+      .build();
+    expect(explicit.rpcUrl).toBe('https://explicit.example.com/');
+    expect(explicit.signer.address).toBe(privateKeyToAccount(OTHER_KEY as Hex).address);
+
+    const noEnv = ConfigBuilder.fromFile(path, { env: false }).build();
+    expect(noEnv.rpcUrl).toBe('https://base.sepolia.api.4mica.xyz/');
+  });
+
+  it('names the profile and key in validation errors', () => {
+    const path = write(
+      '4mica.yaml',
+      'profiles:\n  staging:\n    auth:\n      refreshMarginSecs: soon\n'
+    );
+    expect(() => loadConfigProfile(path, 'staging')).toThrow(
+      'profile "staging": auth.refreshMarginSecs: expected a number, got "soon"'
+    );
+
+    const unknownKey = write('typo.yaml', 'profiles:\n  dev:\n    rpcURL: https://x.example\n');
+    expect(() => loadConfigProfile(unknownKey, 'dev')).toThrow(
+      'profile "dev": rpcURL: unknown key'
+    );
+  });
+
+  it('reads alternative signer sources', () => {
+    const path = write(
+      '4mica.yaml',
+      [
+        'profiles:',
+        '  default:',
+        '    signer:',
+        '      mnemonic:',
+        '        phrase: test test test test test test test test test test test junk',
+        '        addressIndex: 1',
+        '  both:',
+        '    signer:',
+        `      privateKey: ${KEY}`,
+        '      remote:',
+        '        url: http://127.0.0.1:8550',
+        `        address: "0x0000000000000000000000000000000000000001"`,
+      ].join('\n')
+    );
+    const cfg = ConfigBuilder.fromFile(path, { env: false }).build();
+    expect(cfg.signer.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+    expect(() => loadConfigProfile(path, 'both')).toThrow(
+      'profile "both": signer: expected one signer source, got privateKey, remote'
+    );
+  });
+
+  it('reads a gas policy that builder calls merge over', () => {
+    const path = write(
+      '4mica.yaml',
+      [
+        'profiles:',
+        '  default:',
+        `    rpcUrl: https://core.example.com/`,
+        '    signer:',
+        `      privateKey: ${KEY}`,
+        '    gasPolicy:',
+        '      maxFeeCap: "50000000000"',
+        '      gasLimitMultiplier: 1.5',
+        '      estimateGas: false',
+        '      fees:',
+        '        maxFeePerGas: "0x3b9aca00"',
+        '        maxPriorityFeePerGas: 1000000',
+        '  bad:',
+        '    gasPolicy:',
+        '      feeBumpPercent: 5',
+        '  typo:',
+        '    gasPolicy:',
+        '      maxFeeCap: 50 gwei',
+      ].join('\n')
+    );
+
+    const cfg = ConfigBuilder.fromFile(path, { env: false }).build();
+    expect(cfg.gasPolicy).toMatchObject({
+      maxFeeCap: 50_000_000_000n,
+      gasLimitMultiplier: 1.5,
+      estimateGas: false,
+      fees: { maxFeePerGas: 1_000_000_000n, maxPriorityFeePerGas: 1_000_000n },
+      feeHistoryBlocks: 10,
+    });
+
+    const merged = ConfigBuilder.fromFile(path, { env: false })
+      .gasPolicy({ gasLimitMultiplier: 2 })
+      .build();
+    expect(merged.gasPolicy).toMatchObject({ maxFeeCap: 50_000_000_000n, gasLimitMultiplier: 2 });
+
+    expect(() => loadConfigProfile(path, 'bad')).toThrow(
+      'profile "bad": gasPolicy: feeBumpPercent must be at least 10'
+    );
+    expect(() => loadConfigProfile(path, 'typo')).toThrow(
+      'profile "typo": gasPolicy.maxFeeCap: expected a non-negative integer, got "50 gwei"'
+    );
+  });
+
+  it('reports missing environment variables', () => {
+    delete process.env.TEST_PAYER_KEY;
+    const path = write('4mica.yaml', YAML_CONFIG);
+    expect(() => ConfigBuilder.fromFile(path)).toThrow(
+      'profile "dev": signer.privateKey: environment variable TEST_PAYER_KEY is not set'
+    );
+  });
+
+  it('rejects unknown profiles and files', () => {
+    const path = write('4mica.yaml', YAML_CONFIG);
+    expect(() => ConfigBuilder.fromFile(path, { profile: 'qa' })).toThrow(ConfigError);
+    expect(() => loadConfigProfile(path, 'constructor')).toThrow(
+      `profile "constructor" not found in ${path}`
+    );
+    expect(() => ConfigBuilder.fromFile(join(dir, 'missing.yaml'))).toThrow(ConfigError);
+  });
+});
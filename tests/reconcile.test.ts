@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Client } from '../src/client';
+import { Reconciler, ReconciliationReport } from '../src/client/reconcile';
+import {
+  AssetBalanceInfo,
+  GuaranteeInfo,
+  PendingRemunerationInfo,
+  TabInfo,
+  type TabPaymentStatus,
+  type UserInfo,
+} from '../src/models';
+import { normalizeAddress } from '../src/utils';
+
+const USER = normalizeAddress('0x00000000000000000000000000000000000000aa');
+const RECIPIENT = normalizeAddress('0x00000000000000000000000000000000000000bb');
+const ASSET = '0x0000000000000000000000000000000000000000';
+const OTHER_ASSET = normalizeAddress('0x00000000000000000000000000000000000000cc');
+const NOW = 1_000_000;
+
+function tab(tabId: bigint, settlementStatus = 'PENDING', startTimestamp = NOW - 100): TabInfo {
+  return new TabInfo(
+    tabId,
+    USER,
+    RECIPIENT,
+    ASSET,
+    startTimestamp,
+    3_600,
+    'OPEN',
+    settlementStatus,
+    startTimestamp,
+    startTimestamp
+  );
+}
+
+function guarantee(tabId: bigint, amount: bigint): GuaranteeInfo {
+  return new GuaranteeInfo(tabId, 0n, USER, RECIPIENT, ASSET, amount, NOW - 50);
+}
+
+function position(collateral: bigint, asset = ASSET): UserInfo {
+  return { asset, collateral, withdrawalRequestAmount: 0n, withdrawalRequestTimestamp: 0 };
+}
+
+interface FakeState {
+  tabs: TabInfo[];
+  statuses: Record<string, TabPaymentStatus>;
+  guarantees: Record<string, GuaranteeInfo[]>;
+  pending: PendingRemunerationInfo[];
+  positions: UserInfo[];
+  balances: Record<string, AssetBalanceInfo | null>;
+}
+
+function fakeClient(state: FakeState): Client {
+  const gateway = {
+    getProtocolParameters: vi.fn(async () => ({
+      tabExpirationTime: 86_400,
+      remunerationGracePeriod: 3_600,
+      withdrawalGracePeriod: 86_400,
+      synchronizationDelay: 0,
+    })),
+    getBlockTimestamp: vi.fn(async () => NOW),
+  };
+  const signer = { signer: { address: RECIPIENT } };
+  return {
+    signer,
+    recipientRole: { signer, gateway },
+    recipient: {
+      listRecipientTabs: vi.fn(async () => state.tabs),
+      listPendingRemunerations: vi.fn(async () => state.pending),
+      getTabPaymentStatuses: vi.fn(async (ids: bigint[]) =>
+        ids.map((id) => state.statuses[id.toString()])
+      ),
+      getTabGuarantees: vi.fn(async (id: bigint) => state.guarantees[id.toString()] ?? []),
+      getUserAssetBalance: vi.fn(async (_user: string, asset: string) => state.balances[asset]),
+    },
+    user: {
+      getUser: vi.fn(async () => state.positions),
+      getUsers: vi.fn(async (addresses: string[]) => addresses.map(() => state.positions)),
+    },
+  } as unknown as Client;
+}
+
+describe('Reconciler', () => {
+  it('reports recipient tabs whose core state disagrees with the contract', async () => {
+    const client = fakeClient({
+      tabs: [tab(1n), tab(2n, 'SETTLED'), tab(3n), tab(4n), tab(5n, 'PENDING', NOW - 100_000)],
+      statuses: {
+        1: { paid: 100n, remunerated: false, asset: ASSET },
+        2: { paid: 0n, remunerated: true, asset: ASSET },
+        3: { paid: 10n, remunerated: false, asset: OTHER_ASSET },
+        4: { paid: 0n, remunerated: false, asset: ASSET },
+        5: { paid: 0n, remunerated: false, asset: ASSET },
+      },
+      guarantees: {
+        1: [guarantee(1n, 60n), guarantee(1n, 40n)],
+        3: [guarantee(3n, 50n)],
+        4: [guarantee(4n, 80n)],
+        // Expired, so it no longer counts against the collateral.
+        5: [guarantee(5n, 1_000n)],
+      },
+      pending: [new PendingRemunerationInfo(tab(2n, 'SETTLED'))],
+      positions: [position(100n)],
+      balances: {},
+    });
+
+    const report = await new Reconciler(client).reconcileRecipient();
+
+    expect(report.scope).toBe('recipient');
+    expect(report.address).toBe(RECIPIENT);
+    expect(report.checked).toBe(5);
+    expect(report.ok).toBe(false);
+    expect(report.mismatches.map((m) => [m.kind, m.severity, m.tabId])).toEqual([
+      ['tabPaidButPending', 'warning', 1n],
+      ['remuneratedButListedPending', 'warning', 2n],
+      ['tabAssetMismatch', 'critical', 3n],
+      ['guaranteeExceedsCollateral', 'critical', undefined],
+    ]);
+    // 40 outstanding on tab 3 plus 80 on tab 4.
+    expect(report.mismatches[3]).toMatchObject({ user: USER, core: 120n, chain: 100n });
+  });
+
+  it('bounds the number of concurrent core requests', async () => {
+    const tabs = Array.from({ length: 20 }, (_, i) => tab(BigInt(i + 1), 'SETTLED'));
+    const client = fakeClient({
+      tabs,
+      statuses: Object.fromEntries(
+        tabs.map((t) => [t.tabId.toString(), { paid: 0n, remunerated: true, asset: ASSET }])
+      ),
+      guarantees: {},
+      pending: [],
+      positions: [],
+      balances: {},
+    });
+    let inFlight = 0;
+    let peak = 0;
+    vi.mocked(client.recipient.getTabGuarantees).mockImplementation(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((r) => setTimeout(r, 1));
+      inFlight -= 1;
+      return [];
+    });
+
+    const report = await new Reconciler(client, { concurrency: 3 }).reconcileRecipient();
+    expect(report.checked).toBe(20);
+    expect(client.recipient.getTabGuarantees).toHaveBeenCalledTimes(20);
+    expect(peak).toBe(3);
+    expect(() => new Reconciler(client, { concurrency: 0 })).toThrow('concurrency');
+  });
+
+  it('reports user balances that disagree with on-chain collateral', async () => {
+    const client = fakeClient({
+      tabs: [],
+      statuses: {},
+      guarantees: {},
+      pending: [],
+      positions: [position(100n), position(50n, OTHER_ASSET)],
+      balances: {
+        [ASSET]: new AssetBalanceInfo(USER, ASSET, 90n, 120n, 1, NOW),
+        [OTHER_ASSET]: null,
+      },
+    });
+
+    const report = await new Reconciler(client).reconcileUser(USER);
+
+    expect(report.scope).toBe('user');
+    expect(report.checked).toBe(2);
+    expect(report.mismatches.map((m) => [m.kind, m.severity, m.asset])).toEqual([
+      ['collateralMismatch', 'warning', ASSET],
+      ['guaranteeExceedsCollateral', 'critical', ASSET],
+      ['missingCoreBalance', 'warning', OTHER_ASSET],
+    ]);
+    expect(report.ok).toBe(false);
+  });
+
+  it('exports reports as JSON and CSV', () => {
+    const report = new ReconciliationReport('recipient', RECIPIENT, '2026-01-01T00:00:00.000Z', 1, [
+      {
+        kind: 'tabPaidButPending',
+        severity: 'warning',
+        message: 'paid 5, but "PENDING"',
+        tabId: 7n,
+        core: 'PENDING',
+        chain: 5n,
+      },
+    ]);
+
+    expect(report.ok).toBe(true);
+    expect(JSON.parse(report.toJson())).toMatchObject({
+      ok: true,
+      mismatches: [{ tabId: '7', chain: '5', core: 'PENDING' }],
+    });
+    expect(report.toCsv()).toBe(
+      'severity,kind,tabId,user,asset,core,chain,message\r\n' +
+        'warning,tabPaidButPending,7,,,PENDING,5,"paid 5, but ""PENDING"""\r\n'
+    );
+  });
+});
@@ -1,7 +1,15 @@
 import { describe, expect, it, vi } from 'vitest';
 import { RpcProxy } from '../src/rpc';
 import type { FetchFn } from '../src/rpc';
-import { RpcError } from '../src/errors';
+import {
+  ClientClosedError,
+  InsufficientCollateralError,
+  RateLimitedError,
+  ReqIdConflictError,
+  RpcError,
+  TabNotFoundError,
+  UnsupportedGuaranteeVersionError,
+} from '../src/errors';
 import { ADMIN_API_KEY_HEADER } from '../src/constants';
 
 describe('RpcProxy', () => {
@@ -73,6 +81,72 @@ describe('RpcProxy', () => {
     await expect(proxy.listRecipientTabs('0xdeadbeef', ['unknown'])).rejects.toThrow(RpcError);
   });
 
+  it('maps core error codes to typed errors', async () => {
+    const respond = (status: number, body: unknown, headers?: Record<string, string>) =>
+      new RpcProxy(
+        'http://example.com',
+        undefined,
+        vi.fn<FetchFn>(async () => new Response(JSON.stringify(body), { status, headers }))
+      ).withRetryPolicy({ maxAttempts: 1 });
+
+    const collateral = await respond(400, {
+      error: 'insufficient collateral',
+      code: 'INSUFFICIENT_COLLATERAL',
+      required: '1000',
+      available: 250,
+      asset: '0x0000000000000000000000000000000000000000',
+    })
+      .issueGuarantee({})
+      .catch((err: unknown) => err);
+    expect(collateral).toBeInstanceOf(InsufficientCollateralError);
+    expect(collateral).toMatchObject({
+      status: 400,
+      code: 'INSUFFICIENT_COLLATERAL',
+      required: 1000n,
+      available: 250n,
+      message: '400: insufficient collateral',
+    });
+
+    await expect(
+      respond(404, {
+        error: { code: 'tab_not_found', message: 'no tab', details: { tab_id: '0x2a' } },
+      }).getTab(42)
+    ).rejects.toMatchObject({ constructor: TabNotFoundError, tabId: 42n, message: '404: no tab' });
+
+    await expect(
+      respond(409, {
+        error: 'stale',
+        code: 'REQ_ID_CONFLICT',
+        req_id: 3,
+        expected_req_id: 5,
+      }).issueGuarantee({})
+    ).rejects.toMatchObject({ constructor: ReqIdConflictError, reqId: 3n, expectedReqId: 5n });
+
+    await expect(
+      respond(400, {
+        error: 'nope',
+        code: 'UNSUPPORTED_GUARANTEE_VERSION',
+        version: 3,
+        supported_versions: [1, 2],
+      }).createPaymentTab({})
+    ).rejects.toMatchObject({
+      constructor: UnsupportedGuaranteeVersionError,
+      version: 3,
+      supportedVersions: [1, 2],
+    });
+
+    await expect(
+      respond(429, { error: 'slow down' }, { 'retry-after': '7' }).getPublicParams()
+    ).rejects.toMatchObject({ constructor: RateLimitedError, retryAfterMs: 7000 });
+
+    const unknown = await respond(400, { error: 'bad', code: 'SOMETHING_ELSE' })
+      .getPublicParams()
+      .catch((err: unknown) => err);
+    expect(unknown).toBeInstanceOf(RpcError);
+    expect(unknown).not.toBeInstanceOf(TabNotFoundError);
+    expect(unknown).toMatchObject({ code: 'SOMETHING_ELSE' });
+  });
+
   it('returns decode error on invalid json', async () => {
     const fetchMock = vi.fn<FetchFn>(async () => {
       return new Response('not-json', { status: 200 });
@@ -146,6 +220,62 @@ describe('RpcProxy', () => {
     await new RpcProxy('http://example.com', 'key', fetchMock).getPublicParams();
   });
 
+  it('retries idempotent calls and reports attempts on RpcError', async () => {
+    const fetchMock = vi.fn<FetchFn>(async () => new Response('unavailable', { status: 503 }));
+    const proxy = new RpcProxy('http://example.com', undefined, fetchMock).withRetryPolicy({
+      maxAttempts: 2,
+      baseDelayMs: 0,
+    });
+
+    await expect(proxy.getTab(1)).rejects.toMatchObject({ status: 503, attempts: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(proxy.createPaymentTab({})).rejects.toMatchObject({ attempts: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not repeat a guarantee request that timed out', async () => {
+    // Core accepts the first request but the response never arrives; a repeat would conflict.
+    const fetchMock = vi.fn<FetchFn>(async (_input, init) =>
+      fetchMock.mock.calls.length === 1
+        ? new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+          })
+        : new Response(JSON.stringify({ error: 'used', code: 'REQ_ID_CONFLICT' }), {
+            status: 409,
+          })
+    );
+    const proxy = new RpcProxy('http://example.com', undefined, fetchMock).withRetryPolicy({
+      maxAttempts: 3,
+      timeoutMs: 10,
+      baseDelayMs: 0,
+    });
+
+    await expect(proxy.issueGuarantee({})).rejects.toMatchObject({
+      constructor: RpcError,
+      message: expect.stringContaining('timed out after 10ms'),
+      attempts: 1,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts outstanding requests and rejects new ones once closed', async () => {
+    const fetchMock = vi.fn<FetchFn>(
+      (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+    const proxy = new RpcProxy('http://example.com', undefined, fetchMock);
+
+    const pending = proxy.getSupportedTokens();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    await proxy.aclose();
+    await expect(pending).rejects.toThrow(ClientClosedError);
+    await expect(proxy.getPublicParams()).rejects.toThrow('client is closed');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
   it('encodes settlement status query params', async () => {
     const fetchMock = vi.fn<FetchFn>(async (input) => {
       const url = new URL(input.toString());
@@ -0,0 +1,205 @@
+import { createCipheriv, scryptSync } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Hex, concat, keccak256 } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { describe, expect, it, vi } from 'vitest';
+import { ConfigBuilder } from '../src/config';
+import { ConfigError, SigningError } from '../src/errors';
+import { CorePublicParameters, PaymentGuaranteeRequestClaims, SigningScheme } from '../src/models';
+import type { FetchFn } from '../src/rpc';
+import { PaymentSigner } from '../src/signing';
+import { keystoreSigner, mnemonicSigner, remoteSigner } from '../src/signers';
+import { ValidationError } from '../src/utils';
+
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044976f7be35d5ad91c0cfa55b5cfb20b07a1c60f4c5bc' as Hex;
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+// Web3 Secret Storage pbkdf2 test vector.
+const PBKDF2_KEYSTORE = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+};
+
+function scryptKeystore(privateKey: Hex, password: string) {
+  const salt = Buffer.alloc(32, 7);
+  const iv = Buffer.alloc(16, 9);
+  const derivedKey = scryptSync(password, salt, 32, { N: 1024, r: 8, p: 1 });
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(privateKey.slice(2), 'hex')),
+    cipher.final(),
+  ]);
+  return {
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams: { dklen: 32, n: 1024, r: 8, p: 1, salt: salt.toString('hex') },
+      mac: keccak256(concat([derivedKey.subarray(16, 32), ciphertext])).slice(2),
+    },
+    version: 3,
+  };
+}
+
+/** JSON-RPC signing service backed by a local key. */
+function stubSignerService(privateKey: Hex) {
+  const local = privateKeyToAccount(privateKey);
+  const fetchFn = vi.fn<FetchFn>(async (_url, init) => {
+    const { id, method, params } = JSON.parse(String(init?.body));
+    let result: Hex;
+    if (method === 'personal_sign') {
+      result = await local.signMessage({ message: { raw: params[0] } });
+    } else if (method === 'eth_signTypedData_v4') {
+      const { types, ...typedData } = JSON.parse(params[1]);
+      delete types.EIP712Domain;
+      result = await local.signTypedData({ ...typedData, types });
+    } else {
+      return new Response(
+        JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: 'nope' } })
+      );
+    }
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }));
+  });
+  return { local, fetchFn };
+}
+
+function buildParams(): CorePublicParameters {
+  return new CorePublicParameters(
+    new Uint8Array(),
+    '0x0000000000000000000000000000000000000000',
+    'https://example.com',
+    '4Mica',
+    '1',
+    1
+  );
+}
+
+describe('keystore signer', () => {
+  it('decrypts a pbkdf2 keystore', () => {
+    const account = keystoreSigner(PBKDF2_KEYSTORE, 'testpassword');
+    expect(account.address).toBe('0x008AeEda4D805471dF9b2A5B0f38A0C3bCBA786b');
+  });
+
+  it('decrypts a scrypt keystore file through the builder', () => {
+    const dir = mkdtempSync(join(tmpdir(), '4mica-keystore-'));
+    try {
+      const path = join(dir, 'key.json');
+      writeFileSync(path, JSON.stringify(scryptKeystore(PRIVATE_KEY, 'hunter2')));
+      const cfg = new ConfigBuilder().keystoreFile(path, 'hunter2').build();
+      expect(cfg.signer.address).toBe(privateKeyToAccount(PRIVATE_KEY).address);
+
+      expect(() => new ConfigBuilder().keystoreFile(path, 'wrong').build()).toThrow(
+        'invalid keystore password'
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects malformed keystores', () => {
+    expect(() => keystoreSigner('{', 'x')).toThrow(ConfigError);
+    expect(() => keystoreSigner({ version: 1 }, 'x')).toThrow(ConfigError);
+    expect(() =>
+      keystoreSigner({ ...PBKDF2_KEYSTORE, crypto: { ...PBKDF2_KEYSTORE.crypto, kdf: 'md5' } }, 'x')
+    ).toThrow('unsupported keystore kdf: md5');
+  });
+
+  it('bounds the pbkdf2 iteration count', () => {
+    const withIterations = (c: unknown) => ({
+      ...PBKDF2_KEYSTORE,
+      crypto: { ...PBKDF2_KEYSTORE.crypto, kdfparams: { ...PBKDF2_KEYSTORE.crypto.kdfparams, c } },
+    });
+    for (const c of [0, -1, 1.5, 'many', 1e9]) {
+      expect(() => keystoreSigner(withIterations(c), 'x')).toThrow(ValidationError);
+    }
+    expect(() => new ConfigBuilder().keystore(withIterations(1e9), 'x').build()).toThrow(
+      'invalid keystore: kdfparams.c must be an integer from 1 to 2000000, got 1000000000'
+    );
+  });
+});
+
+describe('mnemonic signer', () => {
+  it('derives accounts by index or path', () => {
+    expect(mnemonicSigner(MNEMONIC).address).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+    const cfg = new ConfigBuilder().mnemonic(MNEMONIC, { addressIndex: 1 }).build();
+    expect(cfg.signer.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+    expect(mnemonicSigner(MNEMONIC, { path: "m/44'/60'/0'/0/1" }).address).toBe(cfg.signer.address);
+  });
+
+  it('rejects invalid mnemonics and paths', () => {
+    expect(() => new ConfigBuilder().mnemonic(MNEMONIC.replace('junk', 'test')).build()).toThrow(
+      'invalid mnemonic'
+    );
+    expect(() => mnemonicSigner(MNEMONIC, { path: "m/44'/0'/0'/0/0" })).toThrow(ConfigError);
+    expect(() => mnemonicSigner(MNEMONIC, { addressIndex: -1 })).toThrow(ConfigError);
+  });
+});
+
+describe('remote signer', () => {
+  it('signs payments via eth_signTypedData_v4 and personal_sign', async () => {
+    const { local, fetchFn } = stubSignerService(PRIVATE_KEY);
+    const cfg = new ConfigBuilder()
+      .remoteSigner({
+        url: 'http://127.0.0.1:8550',
+        address: local.address,
+        headers: { authorization: 'Bearer t' },
+        fetchFn,
+      })
+      .build();
+    const claims = PaymentGuaranteeRequestClaims.new(
+      local.address,
+      '0x0000000000000000000000000000000000000002',
+      42,
+      123,
+      999,
+      null,
+      2
+    );
+
+    for (const scheme of [SigningScheme.EIP712, SigningScheme.EIP191]) {
+      const remote = await new PaymentSigner(cfg.signer).signRequest(buildParams(), claims, scheme);
+      const expected = await new PaymentSigner(local).signRequest(buildParams(), claims, scheme);
+      expect(remote.signature).toBe(expected.signature);
+    }
+    expect(fetchFn.mock.calls.map(([, init]) => JSON.parse(String(init?.body)).method)).toEqual([
+      'eth_signTypedData_v4',
+      'personal_sign',
+    ]);
+    expect(fetchFn.mock.calls[0]?.[1]?.headers).toMatchObject({ authorization: 'Bearer t' });
+  });
+
+  it('surfaces JSON-RPC errors as SigningError', async () => {
+    const { local, fetchFn } = stubSignerService(PRIVATE_KEY);
+    const account = remoteSigner({ url: 'http://127.0.0.1:8550', address: local.address, fetchFn });
+    await expect(
+      account.signTransaction({ to: local.address, value: 1n, chainId: 1, type: 'eip1559' })
+    ).rejects.toThrow(SigningError);
+    expect(() => remoteSigner({ url: 'nope', address: local.address })).toThrow(ConfigError);
+  });
+});
+
+describe('signer source precedence', () => {
+  it('uses the last configured source', () => {
+    const cfg = new ConfigBuilder().mnemonic(MNEMONIC).walletPrivateKey(PRIVATE_KEY).build();
+    expect(cfg.signer.address).toBe(privateKeyToAccount(PRIVATE_KEY).address);
+    const other = new ConfigBuilder().walletPrivateKey(PRIVATE_KEY).mnemonic(MNEMONIC).build();
+    expect(other.signer.address).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+  });
+});